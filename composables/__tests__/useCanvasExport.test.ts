@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { createExportMetadata, getExportLegend } from '../useCanvasExport'
+import type { DiffOptions } from '../usePdfDiff'
+import { PALETTE_LABELS, PALETTE_PRESETS } from '~/lib/palettes'
+import { DELTA_E_JUST_NOTICEABLE, SHARED_EDGE_COLOR } from '~/lib/pdfDiffAlgorithms'
+
+/**
+ * Export Legend and Metadata Tests
+ */
+describe('getExportLegend', () => {
+  const palette = PALETTE_PRESETS.okabeIto
+
+  it('should list the semantic colours of the palette', () => {
+    expect(getExportLegend('semantic', palette)).toEqual([
+      { label: 'Added', color: palette.added },
+      { label: 'Removed', color: palette.removed },
+      { label: 'Modified', color: palette.modified },
+    ])
+  })
+
+  it('should include the fixed colour of shared edges', () => {
+    expect(getExportLegend('edges', palette)?.map((entry) => entry.color)).toEqual([
+      palette.removed,
+      palette.added,
+      SHARED_EDGE_COLOR,
+    ])
+  })
+
+  it('should show the ends of the heatmap scale', () => {
+    expect(getExportLegend('heatmap', palette)?.map((entry) => entry.label)).toEqual([
+      'No difference',
+      'Largest difference',
+    ])
+  })
+
+  it('should fall back to the highlight colour', () => {
+    expect(getExportLegend('threshold', palette)).toEqual([
+      { label: 'Difference', color: palette.highlight },
+    ])
+  })
+})
+
+describe('createExportMetadata', () => {
+  const palette = PALETTE_PRESETS.classic
+  const stats = { differenceCount: 12, totalPixels: 400, percentDiff: 3, autoThreshold: 42 }
+  const options: DiffOptions = {
+    mode: 'threshold',
+    threshold: 10,
+    overlayOpacity: 0.5,
+    useGrayscale: false,
+  }
+
+  it('should list the threshold the page was compared with', () => {
+    expect(createExportMetadata(options, stats, palette).threshold).toBe(10)
+    expect(
+      createExportMetadata({ ...options, thresholdMode: 'auto' }, stats, palette).threshold
+    ).toBe(42)
+  })
+
+  it('should list only the threshold of the mode', () => {
+    const metadata = createExportMetadata({ ...options, mode: 'deltaE' }, stats, palette)
+
+    expect(metadata.threshold).toBeUndefined()
+    expect(metadata.deltaEThreshold).toBe(DELTA_E_JUST_NOTICEABLE)
+    expect(metadata.ssimThreshold).toBeUndefined()
+  })
+
+  it('should describe the page and palette', () => {
+    const metadata = createExportMetadata(options, stats, palette, {
+      page: 2,
+      pageCount: 3,
+      pagePair: '2 ↔ 3',
+    })
+
+    expect(metadata).toMatchObject({
+      mode: 'threshold',
+      differenceCount: 12,
+      page: 2,
+      pageCount: 3,
+      pagePair: '2 ↔ 3',
+      palette: PALETTE_LABELS.classic,
+      legend: [{ label: 'Difference', color: palette.highlight }],
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import { useOrientationCorrection } from '../useOrientationCorrection'
+import type { usePdfRenderer } from '../usePdfRenderer'
+
+/**
+ * Orientation Correction Tests
+ *
+ * Uses a stub renderer, as PDF.js cannot load documents in the unit test environment.
+ */
+describe('useOrientationCorrection', () => {
+  const leftFile = new File(['left'], 'left.pdf', { type: 'application/pdf' })
+  const rightFile = new File(['right'], 'right.pdf', { type: 'application/pdf' })
+
+  // Pages of 'left.pdf' are portrait and pages of 'right.pdf' landscape, before rotation
+  const createRenderer = () =>
+    ({
+      getPdfDimensions: vi.fn(async (file: File, _scale: number, page: number, rotation = 0) => {
+        if (page > 2) throw new Error('Invalid page number')
+        const size =
+          file.name === 'left.pdf' ? { width: 600, height: 800 } : { width: 800, height: 600 }
+        return rotation % 180 === 0 ? size : { width: size.height, height: size.width }
+      }),
+    }) as unknown as ReturnType<typeof usePdfRenderer>
+
+  it('should turn PDF 2 when the orientations are swapped', async () => {
+    const { correction, detectCorrection } = useOrientationCorrection(createRenderer())
+
+    await detectCorrection(
+      { file: leftFile, page: 1, rotation: 0 },
+      { file: rightFile, page: 1, rotation: 0 }
+    )
+
+    expect(correction.value).toBe(90)
+  })
+
+  it('should not turn PDF 2 when the chosen rotation already matches', async () => {
+    const { correction, detectCorrection } = useOrientationCorrection(createRenderer())
+
+    await detectCorrection(
+      { file: leftFile, page: 1, rotation: 0 },
+      { file: rightFile, page: 1, rotation: 90 }
+    )
+
+    expect(correction.value).toBe(0)
+  })
+
+  it('should not turn PDF 2 when a page cannot be measured', async () => {
+    const { correction, detectCorrection } = useOrientationCorrection(createRenderer())
+
+    await detectCorrection(
+      { file: leftFile, page: 1, rotation: 0 },
+      { file: rightFile, page: 1, rotation: 0 }
+    )
+    await detectCorrection(
+      { file: leftFile, page: 1, rotation: 0 },
+      { file: rightFile, page: 3, rotation: 0 }
+    )
+
+    expect(correction.value).toBe(0)
+  })
+
+  it('should drop a detection superseded by a reset', async () => {
+    const { correction, detectCorrection, resetCorrection } =
+      useOrientationCorrection(createRenderer())
+
+    const detecting = detectCorrection(
+      { file: leftFile, page: 1, rotation: 0 },
+      { file: rightFile, page: 1, rotation: 0 }
+    )
+    resetCorrection()
+    await detecting
+
+    expect(correction.value).toBe(0)
+  })
+})
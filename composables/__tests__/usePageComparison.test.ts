@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  type PageComparisonSettings,
+  createPageRequest,
+  usePageComparison,
+} from '../usePageComparison'
+import type { usePdfRenderer } from '../usePdfRenderer'
+import type { usePdfDiffWorker } from '../usePdfDiffWorker'
+import type { IgnoreRegion } from '~/lib/ignoreMasks'
+
+/**
+ * Page Comparison Tests
+ *
+ * Uses a stub renderer and a stub worker, as neither PDF.js rendering nor Web Workers
+ * are available in the unit test environment.
+ */
+describe('usePageComparison', () => {
+  const leftFile = new File(['left'], 'left.pdf', { type: 'application/pdf' })
+  const rightFile = new File(['right'], 'right.pdf', { type: 'application/pdf' })
+
+  const createRenderer = (width: number, height: number) =>
+    ({
+      getPageCount: vi.fn(async () => 1),
+      getPdfDimensions: vi.fn(async () => ({ width, height })),
+      renderPdfTile: vi.fn(async () => {}),
+    }) as unknown as ReturnType<typeof usePdfRenderer>
+
+  // Reports 10 differences for every comparison, out of the compared pixels
+  const createWorker = () => {
+    const compare = vi.fn(async (canvas1: HTMLCanvasElement) => {
+      const totalPixels = canvas1.width * canvas1.height
+      return {
+        differenceCount: 10,
+        totalPixels,
+        percentDiff: (10 / totalPixels) * 100,
+        diffData: new Uint8ClampedArray(totalPixels * 4),
+        originalData: new Uint8ClampedArray(totalPixels * 4),
+      }
+    })
+    return { comparePdfsAsync: compare } as unknown as ReturnType<typeof usePdfDiffWorker>
+  }
+
+  const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    return canvas
+  }
+
+  const region = (id: string, page: number | null): IgnoreRegion => ({
+    id,
+    x: 0,
+    y: 0,
+    width: 0.5,
+    height: 0.5,
+    page,
+  })
+
+  const settings: PageComparisonSettings = {
+    leftFile,
+    rightFile,
+    options: { mode: 'pixel', threshold: 10, overlayOpacity: 0.5, useGrayscale: false },
+    ignoreRegions: [],
+    strategy: {
+      type: 'largest',
+      alignment: 'top-left',
+      backgroundColor: '#ffffff',
+      scaleToFit: false,
+    },
+    zoom: 150,
+    leftRender: {},
+    rightRender: {},
+  }
+
+  describe('createPageRequest', () => {
+    it('should compare the pages at the source zoom', () => {
+      const request = createPageRequest(settings, 2, null)
+
+      expect(request).toMatchObject({ leftFile, rightFile, leftPage: 2, rightPage: null })
+      expect(request.scale).toBe(1.5)
+      expect(request.options.ignoreRegions).toBeUndefined()
+    })
+
+    it('should pick the ignore regions of the page pair', () => {
+      const request = createPageRequest(
+        { ...settings, ignoreRegions: [region('all', null), region('other', 3)] },
+        1,
+        1,
+        { leftPage: 1, rightPage: 1, status: 'matched' }
+      )
+
+      expect(request.options.ignoreRegions?.map((r) => r.id)).toEqual(['all'])
+    })
+  })
+
+  it('should compare pages that fit in a single canvas from the shown canvases', async () => {
+    const worker = createWorker()
+    const { comparePage } = usePageComparison(createRenderer(800, 1000), worker)
+    const onDimensions = vi.fn()
+
+    const comparison = await comparePage(
+      createCanvas(800, 1000),
+      createCanvas(600, 1000),
+      createCanvas(1, 1),
+      createPageRequest(settings, 1, 1),
+      onDimensions
+    )
+
+    expect(worker.comparePdfsAsync).toHaveBeenCalledTimes(1)
+    expect(onDimensions).toHaveBeenCalledWith(comparison!.dimensions)
+    expect(comparison!.dimensions).toEqual({
+      canvas1: { width: 800, height: 1000 },
+      canvas2: { width: 600, height: 1000 },
+      targetWidth: 800,
+      targetHeight: 1000,
+    })
+    expect(comparison!.stats).toMatchObject({ differenceCount: 10, totalPixels: 800 * 1000 })
+    expect(comparison!.stats).not.toHaveProperty('diffData')
+    expect(comparison!.tiledDiff).toBeNull()
+  })
+
+  it('should compare oversized pages tile by tile', async () => {
+    const worker = createWorker()
+    const { comparePage } = usePageComparison(createRenderer(5000, 3000), worker)
+
+    const comparison = await comparePage(
+      createCanvas(800, 480),
+      createCanvas(800, 480),
+      createCanvas(1, 1),
+      createPageRequest({ ...settings, zoom: 100 }, 1, 1)
+    )
+
+    expect(worker.comparePdfsAsync).toHaveBeenCalledTimes(6)
+    expect(comparison!.dimensions).toMatchObject({
+      canvas1: { width: 5000, height: 3000 },
+      targetWidth: 5000,
+      targetHeight: 3000,
+      tileCount: 6,
+    })
+    expect(comparison!.stats).toMatchObject({ differenceCount: 60, totalPixels: 5000 * 3000 })
+    expect(comparison!.tiledDiff).toMatchObject({ width: 5000, height: 3000, rows: 2, cols: 3 })
+  })
+})
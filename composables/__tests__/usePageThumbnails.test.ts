@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest'
+import { usePageThumbnails } from '../usePageThumbnails'
+import type { usePdfRenderer } from '../usePdfRenderer'
+
+/**
+ * Page Thumbnail Tests
+ *
+ * Uses a stub renderer, as PDF.js cannot render in the unit test environment.
+ */
+describe('usePageThumbnails', () => {
+  const leftFile = new File(['left'], 'left.pdf', { type: 'application/pdf' })
+  const rightFile = new File(['right'], 'right.pdf', { type: 'application/pdf' })
+
+  const createRenderer = (pageCounts: Record<string, number>) =>
+    ({
+      getPageCount: vi.fn(async (file: File) => pageCounts[file.name]),
+      getPageThumbnail: vi.fn(async (file: File, page: number) => `${file.name}#${page}`),
+    }) as unknown as ReturnType<typeof usePdfRenderer>
+
+  it('should generate thumbnails for every page of both documents', async () => {
+    const renderer = createRenderer({ 'left.pdf': 2, 'right.pdf': 3 })
+    const { thumbnails, isGenerating, loadThumbnails } = usePageThumbnails(renderer)
+
+    await loadThumbnails(leftFile, rightFile)
+
+    expect(thumbnails.value.left).toEqual({ 1: 'left.pdf#1', 2: 'left.pdf#2' })
+    expect(Object.keys(thumbnails.value.right)).toHaveLength(3)
+    expect(isGenerating.value).toBe(false)
+  })
+
+  it('should skip thumbnails that already exist', async () => {
+    const renderer = createRenderer({ 'left.pdf': 2, 'right.pdf': 2 })
+    const { loadThumbnails } = usePageThumbnails(renderer)
+
+    await loadThumbnails(leftFile, rightFile)
+    await loadThumbnails(leftFile, rightFile)
+
+    expect(renderer.getPageThumbnail).toHaveBeenCalledTimes(4)
+  })
+
+  it('should stop generating when cancelled', async () => {
+    const renderer = createRenderer({ 'left.pdf': 5, 'right.pdf': 5 })
+    const { thumbnails, loadThumbnails, cancelThumbnails } = usePageThumbnails(renderer)
+
+    const loading = loadThumbnails(leftFile, rightFile)
+    cancelThumbnails()
+    await loading
+
+    expect(Object.keys(thumbnails.value.left).length).toBeLessThan(5)
+    expect(thumbnails.value.right).toEqual({})
+  })
+
+  it('should drop all thumbnails on clear', async () => {
+    const renderer = createRenderer({ 'left.pdf': 1, 'right.pdf': 1 })
+    const { thumbnails, loadThumbnails, clearThumbnails } = usePageThumbnails(renderer)
+
+    await loadThumbnails(leftFile, rightFile)
+    clearThumbnails()
+
+    expect(thumbnails.value).toEqual({ left: {}, right: {} })
+  })
+})
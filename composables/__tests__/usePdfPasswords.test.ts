@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { getDocumentPassword, isPasswordProtected, usePdfPasswords } from '../usePdfPasswords'
+import { loadPdfJs } from '~/utils/pdfjs-loader'
+
+vi.mock('~/utils/pdfjs-loader', () => ({ loadPdfJs: vi.fn() }))
+
+/**
+ * Password Prompt Tests
+ *
+ * Uses a stub PDF.js whose documents open with a single password, asking through
+ * onPassword like PDF.js does for protected documents.
+ */
+describe('usePdfPasswords', () => {
+  const NEED_PASSWORD = 1
+  const INCORRECT_PASSWORD = 2
+
+  const mockPdfJs = (correctPassword: string) => {
+    const pdf = { numPages: 1, destroy: vi.fn(async () => {}) }
+
+    vi.mocked(loadPdfJs).mockResolvedValue({
+      PasswordResponses: { NEED_PASSWORD, INCORRECT_PASSWORD },
+      getDocument: vi.fn(({ password }: { password?: string }) => {
+        const task = {
+          onPassword: null as null | ((update: (p: string) => void, reason: number) => void),
+          promise: null as unknown as Promise<typeof pdf>,
+          destroy: vi.fn(),
+        }
+        task.promise = new Promise((resolve) => {
+          const tryPassword = (attempt: string | undefined) => {
+            if (attempt === correctPassword) {
+              resolve(pdf)
+            } else {
+              setTimeout(() =>
+                task.onPassword?.(
+                  tryPassword,
+                  attempt === undefined ? NEED_PASSWORD : INCORRECT_PASSWORD
+                )
+              )
+            }
+          }
+          tryPassword(password)
+        })
+        return task
+      }),
+    } as unknown as Awaited<ReturnType<typeof loadPdfJs>>)
+
+    return pdf
+  }
+
+  // jsdom's File has no arrayBuffer()
+  const createFile = (name: string) =>
+    Object.assign(new File(['%PDF'], name, { type: 'application/pdf' }), {
+      arrayBuffer: async () => new ArrayBuffer(4),
+    })
+
+  // Waits until the stub has asked for a password
+  const waitForRequest = async (requests: { value: unknown[] }) => {
+    await vi.waitFor(() => expect(requests.value).toHaveLength(1))
+    await nextTick()
+  }
+
+  it('should ask for the password and remember it in memory', async () => {
+    const pdf = mockPdfJs('secret')
+    const file = createFile('locked.pdf')
+    const { passwordRequests, submitPassword, unlockPdf } = usePdfPasswords()
+
+    const unlocking = unlockPdf(file)
+    await waitForRequest(passwordRequests)
+    expect(passwordRequests.value[0]).toEqual({ file, incorrect: false })
+
+    submitPassword(file, 'secret')
+    await unlocking
+
+    expect(passwordRequests.value).toHaveLength(0)
+    expect(pdf.destroy).toHaveBeenCalled()
+    expect(isPasswordProtected(file)).toBe(true)
+    expect(getDocumentPassword(file)).toBe('secret')
+  })
+
+  it('should ask again after a wrong password', async () => {
+    mockPdfJs('secret')
+    const file = createFile('locked.pdf')
+    const { passwordRequests, submitPassword, unlockPdf } = usePdfPasswords()
+
+    const unlocking = unlockPdf(file)
+    await waitForRequest(passwordRequests)
+    submitPassword(file, 'wrong')
+
+    await vi.waitFor(() => expect(passwordRequests.value[0]?.incorrect).toBe(true))
+    submitPassword(file, 'secret')
+    await unlocking
+
+    expect(getDocumentPassword(file)).toBe('secret')
+  })
+
+  it('should fail with a password error when cancelled', async () => {
+    mockPdfJs('secret')
+    const file = createFile('locked.pdf')
+    const { passwordRequests, cancelPasswordRequest, unlockPdf } = usePdfPasswords()
+
+    const unlocking = unlockPdf(file)
+    await waitForRequest(passwordRequests)
+    cancelPasswordRequest(file)
+
+    await expect(unlocking).rejects.toThrow(/password/)
+    expect(isPasswordProtected(file)).toBe(false)
+  })
+
+  it('should not ask for unprotected documents', async () => {
+    const file = createFile('open.pdf')
+    const { passwordRequests, unlockPdf } = usePdfPasswords()
+
+    vi.mocked(loadPdfJs).mockResolvedValueOnce({
+      getDocument: vi.fn(() => ({ promise: Promise.resolve({ destroy: vi.fn(async () => {}) }) })),
+    } as unknown as Awaited<ReturnType<typeof loadPdfJs>>)
+
+    await unlockPdf(file)
+
+    expect(passwordRequests.value).toHaveLength(0)
+    expect(isPasswordProtected(file)).toBe(false)
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { usePdfRenderer } from '../usePdfRenderer'
+import {
+  getLayerSignature,
+  getRenderSignature,
+  normalizeRotation,
+  usePdfRenderer,
+} from '../usePdfRenderer'
+import { getPdfRenderClient } from '~/utils/pdf-render-client'
 
 /**
  * PDF Renderer Edge Case Tests
@@ -74,6 +80,27 @@ describe('usePdfRenderer', () => {
     expect(typeof clearCache).toBe('function')
   })
 
+  it('should expose page-aware helpers', () => {
+    const { getPageCount, getPageText, renderBlankPage, getPdfDimensions } = usePdfRenderer()
+
+    expect(typeof getPageCount).toBe('function')
+    expect(typeof getPageText).toBe('function')
+    expect(typeof renderBlankPage).toBe('function')
+    expect(typeof getPdfDimensions).toBe('function')
+  })
+
+  it('should expose bitmap and tile rendering', () => {
+    const { renderPageBitmap, renderPdfTile } = usePdfRenderer()
+
+    expect(typeof renderPageBitmap).toBe('function')
+    expect(typeof renderPdfTile).toBe('function')
+  })
+
+  it('should render on the main thread without OffscreenCanvas', () => {
+    // The test environment has neither Web Workers nor OffscreenCanvas
+    expect(getPdfRenderClient()).toBeNull()
+  })
+
   it('should expose onBeforeUnmount cleanup', () => {
     // Create renderer instance
     const renderer = usePdfRenderer()
@@ -229,6 +256,84 @@ describe('usePdfRenderer', () => {
     })
   })
 
+  describe('multi-page rendering', () => {
+    it('should accept a page number when rendering', async () => {
+      const { renderPdfToCanvas, error } = usePdfRenderer()
+
+      const mockFile = new File(['test'], 'multi.pdf', { type: 'application/pdf' })
+
+      // Will fail in test env, but the page parameter must be accepted
+      await expect(renderPdfToCanvas(mockFile, mockCanvas, 1.0, 3)).rejects.toThrow()
+      expect(error.value).not.toBeNull()
+    })
+
+    it('should reject page count lookups for invalid documents', async () => {
+      const { getPageCount } = usePdfRenderer()
+
+      const mockFile = new File(['test'], 'multi.pdf', { type: 'application/pdf' })
+
+      await expect(getPageCount(mockFile)).rejects.toThrow()
+    })
+  })
+
+  describe('render options', () => {
+    it('should reject layer lookups for invalid documents', async () => {
+      const { getLayers } = usePdfRenderer()
+
+      const mockFile = new File(['test'], 'layers.pdf', { type: 'application/pdf' })
+
+      await expect(getLayers(mockFile)).rejects.toThrow()
+    })
+
+    it('should build the same signature regardless of layer order', () => {
+      expect(getLayerSignature({ b: false, a: true })).toBe('a:1,b:0')
+      expect(getLayerSignature({ a: true, b: false })).toBe(
+        getLayerSignature({ b: false, a: true })
+      )
+    })
+
+    it('should build an empty signature without overrides', () => {
+      expect(getLayerSignature()).toBe('')
+      expect(getLayerSignature({})).toBe('')
+    })
+
+    it('should tell renders without annotations apart', () => {
+      expect(getRenderSignature({ annotations: true })).toBe('')
+      expect(getRenderSignature({ annotations: false })).toBe('no-annotations')
+      expect(getRenderSignature({ layers: { a: false }, annotations: false })).toBe(
+        'a:0~no-annotations'
+      )
+    })
+
+    it('should tell rotated renders apart', () => {
+      expect(getRenderSignature({ rotation: 0 })).toBe('')
+      expect(getRenderSignature({ rotation: 360 })).toBe('')
+      expect(getRenderSignature({ rotation: 90, annotations: false })).toBe('no-annotations~rot90')
+    })
+
+    it('should normalize rotations to quarter turns', () => {
+      expect(normalizeRotation(450)).toBe(90)
+      expect(normalizeRotation(-90)).toBe(270)
+      expect(normalizeRotation(180)).toBe(180)
+    })
+
+    it('should reject rotation lookups for invalid documents', async () => {
+      const { getPageRotation } = usePdfRenderer()
+
+      const mockFile = new File(['test'], 'rotated.pdf', { type: 'application/pdf' })
+
+      await expect(getPageRotation(mockFile, 1)).rejects.toThrow()
+    })
+
+    it('should reject annotation lookups for invalid documents', async () => {
+      const { getPageAnnotations } = usePdfRenderer()
+
+      const mockFile = new File(['test'], 'notes.pdf', { type: 'application/pdf' })
+
+      await expect(getPageAnnotations(mockFile, 1)).rejects.toThrow()
+    })
+  })
+
   describe('zoom bucketing', () => {
     it('should handle scale values for cache bucketing', async () => {
       const { renderPdfToCanvas } = usePdfRenderer()
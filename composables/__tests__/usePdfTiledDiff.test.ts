@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest'
+import { usePdfTiledDiff, type TiledDiffRequest } from '../usePdfTiledDiff'
+import type { usePdfRenderer } from '../usePdfRenderer'
+import type { usePdfDiffWorker } from '../usePdfDiffWorker'
+
+/**
+ * Tiled Comparison Tests
+ *
+ * Uses a stub renderer and a stub worker comparison, as neither PDF.js rendering nor
+ * Web Workers are available in the unit test environment.
+ */
+describe('usePdfTiledDiff', () => {
+  const leftFile = new File(['left'], 'left.pdf', { type: 'application/pdf' })
+  const rightFile = new File(['right'], 'right.pdf', { type: 'application/pdf' })
+
+  const createRenderer = (width: number, height: number) =>
+    ({
+      getPageCount: vi.fn(async () => 1),
+      getPdfDimensions: vi.fn(async () => ({ width, height })),
+      renderPdfTile: vi.fn(async () => {}),
+    }) as unknown as ReturnType<typeof usePdfRenderer>
+
+  // Reports 10 differences for every tile, out of the tile's pixels
+  const createCompare = () =>
+    vi.fn(async (canvas1: HTMLCanvasElement) => {
+      const totalPixels = canvas1.width * canvas1.height
+      return {
+        differenceCount: 10,
+        totalPixels,
+        percentDiff: (10 / totalPixels) * 100,
+        diffData: new Uint8ClampedArray(totalPixels * 4),
+        originalData: new Uint8ClampedArray(totalPixels * 4),
+      }
+    }) as unknown as ReturnType<typeof usePdfDiffWorker>['comparePdfsAsync']
+
+  const createRequest = (overrides: Partial<TiledDiffRequest> = {}): TiledDiffRequest => ({
+    leftFile,
+    rightFile,
+    leftPage: 1,
+    rightPage: 1,
+    scale: 1,
+    options: { mode: 'pixel', threshold: 10, overlayOpacity: 0.5, useGrayscale: false },
+    strategy: {
+      type: 'largest',
+      alignment: 'top-left',
+      backgroundColor: '#ffffff',
+      scaleToFit: false,
+    },
+    ...overrides,
+  })
+
+  it('should not tile pages that fit in a single canvas', async () => {
+    const { getTileLayout } = usePdfTiledDiff(createRenderer(2000, 3000), createCompare())
+
+    expect(await getTileLayout(createRequest())).toBeNull()
+  })
+
+  it('should tile pages that exceed the canvas limits', async () => {
+    const { getTileLayout } = usePdfTiledDiff(createRenderer(5000, 3000), createCompare())
+    const layout = await getTileLayout(createRequest())
+
+    expect(layout).not.toBeNull()
+    expect(layout!.cols).toBe(3)
+    expect(layout!.rows).toBe(2)
+    expect(layout!.tiles).toHaveLength(6)
+  })
+
+  it('should diff every tile at full scale and stitch the stats', async () => {
+    const renderer = createRenderer(5000, 3000)
+    const compare = createCompare()
+    const { getTileLayout, compareTiled, progress } = usePdfTiledDiff(renderer, compare)
+
+    const request = createRequest()
+    const result = await compareTiled(request, (await getTileLayout(request))!)
+
+    expect(compare).toHaveBeenCalledTimes(6)
+    expect(renderer.renderPdfTile).toHaveBeenCalledTimes(12)
+    expect(renderer.renderPdfTile).toHaveBeenCalledWith(
+      leftFile,
+      expect.anything(),
+      1,
+      1,
+      -2048,
+      0,
+      {} // Document's own layers and annotations
+    )
+    expect(result).toMatchObject({
+      differenceCount: 60,
+      totalPixels: 5000 * 3000,
+      width: 5000,
+      height: 3000,
+      originalData: null,
+    })
+    expect(result!.tiles[5]).toMatchObject({ row: 1, col: 2, differenceCount: 10 })
+    expect(progress.value).toBe(1)
+  })
+
+  it('should compare every tile with one auto threshold picked for the page', async () => {
+    const renderer = createRenderer(5000, 3000)
+    const compare = createCompare()
+    const { getTileLayout, compareTiled, progress } = usePdfTiledDiff(renderer, compare)
+
+    const request = createRequest({
+      options: {
+        mode: 'threshold',
+        threshold: 10,
+        thresholdMode: 'auto',
+        overlayOpacity: 0.5,
+        useGrayscale: false,
+      },
+    })
+    const result = await compareTiled(request, (await getTileLayout(request))!)
+
+    // One pass for the page histogram, one for the comparison
+    expect(renderer.renderPdfTile).toHaveBeenCalledTimes(24)
+    const tileOptions = vi.mocked(compare).mock.calls.map(([, , , options]) => options)
+    expect(tileOptions).toHaveLength(6)
+    for (const options of tileOptions) {
+      expect(options).toMatchObject({ thresholdMode: 'manual', threshold: result!.autoThreshold })
+    }
+    expect(progress.value).toBe(1)
+  })
+
+  it('should not render missing pages', async () => {
+    const renderer = createRenderer(5000, 3000)
+    const { getTileLayout, compareTiled } = usePdfTiledDiff(renderer, createCompare())
+
+    const request = createRequest({ rightPage: null })
+    await compareTiled(request, (await getTileLayout(request))!)
+
+    expect(renderer.renderPdfTile).toHaveBeenCalledTimes(6)
+    const renderedFiles = vi.mocked(renderer.renderPdfTile).mock.calls.map(([file]) => file)
+    expect(renderedFiles.every((file) => file === leftFile)).toBe(true)
+  })
+
+  it('should return null when cancelled', async () => {
+    const { getTileLayout, compareTiled, cancelTiledDiff } = usePdfTiledDiff(
+      createRenderer(5000, 3000),
+      createCompare()
+    )
+
+    const request = createRequest()
+    const comparing = compareTiled(request, (await getTileLayout(request))!)
+    cancelTiledDiff()
+
+    expect(await comparing).toBeNull()
+  })
+})
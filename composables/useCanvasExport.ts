@@ -1,4 +1,17 @@
-import type { DiffMode } from './usePdfDiff'
+import type { DiffMode, DiffOptions } from './usePdfDiff'
+import { type DiffPalette, type RgbColor, PALETTE_LABELS, toCssColor } from '~/lib/palettes'
+import {
+  DEFAULT_SSIM_THRESHOLD,
+  DELTA_E_JUST_NOTICEABLE,
+  EDGE_THRESHOLD,
+  SHARED_EDGE_COLOR,
+  getHeatmapColor,
+} from '~/lib/pdfDiffAlgorithms'
+import type { PagePair } from '~/lib/pageAlignment'
+import { type PageStatsSummary, serializePageStats } from '~/lib/statsExport'
+import { type DensityGrid, serializeDensityGrid } from '~/lib/densityGrid'
+import { usesAutoThreshold } from '~/lib/deltaHistogram'
+import type { DiffStats } from '~/stores/diff'
 
 export type ExportFormat = 'png' | 'jpeg'
 
@@ -15,8 +28,117 @@ export interface ExportMetadata {
   differenceCount: number
   totalPixels: number
   percentDiff: number
+  ssim?: number // Mean structural similarity (ssim mode)
+  regionCount?: number // Clusters of changed pixels
   threshold?: number
+  deltaEThreshold?: number // ΔE2000 tolerance of deltaE mode
+  ssimThreshold?: number // Local SSIM below which ssim mode counts a pixel
   overlayOpacity?: number
+  page?: number // 1-based page number (multi-page documents only)
+  pageCount?: number
+  pagePair?: string // Aligned pages, e.g. "3 ↔ 4"
+  palette?: string // Name of the highlight palette
+  legend?: { label: string; color: RgbColor }[] // Highlight colours, drawn as swatches
+}
+
+/**
+ * Gets the colours a diff mode draws with, for the legend under exported images
+ */
+export function getExportLegend(mode: DiffMode, colors: DiffPalette): ExportMetadata['legend'] {
+  switch (mode) {
+    case 'semantic':
+      return [
+        { label: 'Added', color: colors.added },
+        { label: 'Removed', color: colors.removed },
+        { label: 'Modified', color: colors.modified },
+      ]
+    case 'deltaE':
+      return [
+        { label: 'Just noticeable', color: colors.noticeable },
+        { label: 'Obvious', color: colors.obvious },
+      ]
+    case 'edges':
+      return [
+        { label: 'Only in PDF 1', color: colors.removed },
+        { label: 'Only in PDF 2', color: colors.added },
+        { label: 'Both', color: SHARED_EDGE_COLOR },
+      ]
+    case 'heatmap':
+      return [
+        { label: 'No difference', color: getHeatmapColor(0, colors.heatmap) },
+        { label: 'Largest difference', color: getHeatmapColor(1, colors.heatmap) },
+      ]
+    default:
+      return [{ label: 'Difference', color: colors.highlight }]
+  }
+}
+
+/**
+ * Describes a comparison for the metadata overlay of an exported image
+ * Only the threshold of the mode is listed; in 'auto' mode the one picked for the page.
+ * @param options - Diff options the page was compared with
+ * @param stats - Stats of the page
+ * @param colors - Resolved colours of the highlight palette, for the legend
+ * @param page - Shown page and page pair (multi-page documents only)
+ */
+export function createExportMetadata(
+  options: DiffOptions,
+  stats: DiffStats,
+  colors: DiffPalette,
+  page?: Pick<ExportMetadata, 'page' | 'pageCount' | 'pagePair'>
+): ExportMetadata {
+  const threshold = usesAutoThreshold(options)
+    ? (stats.autoThreshold ?? options.threshold)
+    : options.threshold
+
+  return {
+    timestamp: new Date().toLocaleString(),
+    mode: options.mode,
+    differenceCount: stats.differenceCount,
+    totalPixels: stats.totalPixels,
+    percentDiff: stats.percentDiff,
+    ssim: stats.ssim,
+    regionCount: stats.regions?.length,
+    threshold:
+      options.mode === 'deltaE' || options.mode === 'ssim'
+        ? undefined
+        : options.mode === 'edges'
+          ? (options.edgeThreshold ?? EDGE_THRESHOLD)
+          : threshold,
+    deltaEThreshold:
+      options.mode === 'deltaE' ? (options.deltaEThreshold ?? DELTA_E_JUST_NOTICEABLE) : undefined,
+    ssimThreshold:
+      options.mode === 'ssim' ? (options.ssimThreshold ?? DEFAULT_SSIM_THRESHOLD) : undefined,
+    overlayOpacity: options.overlayOpacity,
+    palette: PALETTE_LABELS[options.palette ?? 'classic'],
+    legend: getExportLegend(options.mode, colors),
+    ...page,
+  }
+}
+
+/**
+ * Current time for file names, e.g. 2024-05-01T12-30-00
+ */
+function fileTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)
+}
+
+/**
+ * Downloads a blob as a file through a temporary link
+ */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  // Clean up
+  setTimeout(() => {
+    URL.revokeObjectURL(url)
+  }, 100)
 }
 
 /**
@@ -28,8 +150,7 @@ export function useCanvasExport() {
    * Generate a default filename based on current timestamp and mode
    */
   const generateFilename = (mode: DiffMode, format: ExportFormat): string => {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)
-    return `pdf-diff-${mode}-${timestamp}.${format}`
+    return `pdf-diff-${mode}-${fileTimestamp()}.${format}`
   }
 
   /**
@@ -65,20 +186,7 @@ export function useCanvasExport() {
               }
             }
 
-            // Create download link
-            const url = URL.createObjectURL(blob)
-            const link = document.createElement('a')
-            link.href = url
-            link.download = filename
-            document.body.appendChild(link)
-            link.click()
-            document.body.removeChild(link)
-
-            // Clean up
-            setTimeout(() => {
-              URL.revokeObjectURL(url)
-            }, 100)
-
+            downloadBlob(blob, filename)
             resolve()
           },
           mimeType,
@@ -99,8 +207,55 @@ export function useCanvasExport() {
     options: ExportOptions,
     metadata: ExportMetadata
   ): Promise<void> => {
-    // Create a new canvas with extra space for metadata
-    const metadataHeight = 120
+    // Format metadata text
+    const metadataText = [
+      `PDF Diff Export - ${metadata.mode.toUpperCase()} mode`,
+      `Timestamp: ${metadata.timestamp}`,
+      `Differences: ${metadata.differenceCount.toLocaleString()} / ${metadata.totalPixels.toLocaleString()} pixels (${metadata.percentDiff.toFixed(2)}%)`,
+    ]
+
+    if (metadata.page !== undefined) {
+      const pageText =
+        metadata.pageCount !== undefined
+          ? `Page: ${metadata.page} of ${metadata.pageCount}`
+          : `Page: ${metadata.page}`
+      metadataText.push(
+        metadata.pagePair ? `${pageText} (PDF 1 ↔ PDF 2: ${metadata.pagePair})` : pageText
+      )
+    }
+
+    if (metadata.ssim !== undefined) {
+      metadataText.push(`SSIM: ${metadata.ssim.toFixed(4)}`)
+    }
+
+    if (metadata.regionCount !== undefined) {
+      metadataText.push(`Change Regions: ${metadata.regionCount}`)
+    }
+
+    if (metadata.threshold !== undefined) {
+      metadataText.push(`Threshold: ${metadata.threshold}`)
+    }
+
+    if (metadata.deltaEThreshold !== undefined) {
+      metadataText.push(`ΔE2000 Threshold: ${metadata.deltaEThreshold}`)
+    }
+
+    if (metadata.ssimThreshold !== undefined) {
+      metadataText.push(`Local SSIM Threshold: ${metadata.ssimThreshold.toFixed(3)}`)
+    }
+
+    if (metadata.overlayOpacity !== undefined) {
+      metadataText.push(`Overlay Opacity: ${(metadata.overlayOpacity * 100).toFixed(0)}%`)
+    }
+
+    if (metadata.palette !== undefined) {
+      metadataText.push(`Palette: ${metadata.palette}`)
+    }
+
+    // Create a new canvas with extra space for metadata (and the legend row)
+    const padding = 10
+    const lineCount = metadataText.length + (metadata.legend?.length ? 1 : 0)
+    const metadataHeight = Math.max(140, padding * 2 + lineCount * 20)
     const compositeCanvas = document.createElement('canvas')
     compositeCanvas.width = canvas.width
     compositeCanvas.height = canvas.height + metadataHeight
@@ -121,30 +276,24 @@ export function useCanvasExport() {
     ctx.fillStyle = '#000000'
     ctx.font = '14px monospace'
 
-    const padding = 10
     let yOffset = canvas.height + padding + 16
 
-    // Format metadata text
-    const metadataText = [
-      `PDF Diff Export - ${metadata.mode.toUpperCase()} mode`,
-      `Timestamp: ${metadata.timestamp}`,
-      `Differences: ${metadata.differenceCount.toLocaleString()} / ${metadata.totalPixels.toLocaleString()} pixels (${metadata.percentDiff.toFixed(2)}%)`,
-    ]
-
-    if (metadata.threshold !== undefined) {
-      metadataText.push(`Threshold: ${metadata.threshold}`)
-    }
-
-    if (metadata.overlayOpacity !== undefined) {
-      metadataText.push(`Overlay Opacity: ${(metadata.overlayOpacity * 100).toFixed(0)}%`)
-    }
-
     // Render each line
     metadataText.forEach((line) => {
       ctx.fillText(line, padding, yOffset)
       yOffset += 20
     })
 
+    // Render the legend as coloured swatches with their labels
+    let xOffset = padding
+    metadata.legend?.forEach(({ label, color }) => {
+      ctx.fillStyle = toCssColor(color)
+      ctx.fillRect(xOffset, yOffset - 11, 12, 12)
+      ctx.fillStyle = '#000000'
+      ctx.fillText(label, xOffset + 18, yOffset)
+      xOffset += 18 + ctx.measureText(label).width + 16
+    })
+
     // Export the canvas with metadata
     return exportCanvas(compositeCanvas, options)
   }
@@ -174,9 +323,49 @@ export function useCanvasExport() {
     })
   }
 
+  /**
+   * Export text (CSV tables of the stats) to a file
+   * @param mimeType - Type of the content, e.g. 'text/csv'
+   */
+  const exportText = (content: string, filename: string, mimeType: string) => {
+    downloadBlob(new Blob([content], { type: mimeType }), filename)
+  }
+
+  /**
+   * Export the stats of every page pair as CSV (see lib/statsExport)
+   * @param pageStats - Stats of the compared pairs, keyed by pair index
+   * @param options - Options the pairs were compared with
+   */
+  const exportPageStats = (
+    pairs: PagePair[],
+    pageStats: Record<number, PageStatsSummary>,
+    options: DiffOptions
+  ) => {
+    exportText(
+      serializePageStats(pairs, pageStats, options),
+      `pdf-diff-stats-${options.mode}-${fileTimestamp()}.csv`,
+      'text/csv'
+    )
+  }
+
+  /**
+   * Export the density grid of a page as CSV, one line per cell
+   * @param page - 1-based page (pair) the grid belongs to, for the file name
+   */
+  const exportDensityGrid = (grid: DensityGrid, page: number) => {
+    exportText(
+      serializeDensityGrid(grid),
+      `pdf-diff-density-grid-page-${page}-${fileTimestamp()}.csv`,
+      'text/csv'
+    )
+  }
+
   return {
     exportCanvas,
     exportCanvasWithMetadata,
+    exportText,
+    exportPageStats,
+    exportDensityGrid,
     copyCanvasToClipboard,
     generateFilename,
   }
@@ -0,0 +1,44 @@
+import { usePdfRenderer } from './usePdfRenderer'
+import { type FormFieldChange, diffFormFields, groupFormWidgets } from '~/lib/formFieldDiff'
+import { logger } from '~/utils/logger'
+
+/**
+ * Composable for comparing the form fields of two PDFs
+ * @param renderer - Renderer to read the widgets with; pass a shared one to reuse its loaded documents
+ */
+export function useFormFieldDiff(renderer: ReturnType<typeof usePdfRenderer> = usePdfRenderer()) {
+  const { getFormWidgets } = renderer
+
+  // Incremented per call; an older call is dropped once a newer one has started
+  let currentRun = 0
+
+  /**
+   * Compares the form fields of both documents (all pages) by fully-qualified name
+   * @returns The field changes (none if the widgets could not be read), or null if superseded by
+   * a newer call
+   */
+  const compareFormFields = async (
+    leftFile: File,
+    rightFile: File
+  ): Promise<FormFieldChange[] | null> => {
+    const run = ++currentRun
+
+    try {
+      const leftWidgets = await getFormWidgets(leftFile)
+      const rightWidgets = await getFormWidgets(rightFile)
+      if (run !== currentRun) return null
+
+      const changes = diffFormFields(groupFormWidgets(leftWidgets), groupFormWidgets(rightWidgets))
+      logger.log('Form fields compared:', changes.length, 'fields')
+      return changes
+    } catch (err) {
+      if (run !== currentRun) return null
+      logger.error('Failed to compare form fields:', err)
+      return []
+    }
+  }
+
+  return {
+    compareFormFields,
+  }
+}
@@ -0,0 +1,64 @@
+import { ref, readonly } from 'vue'
+import { usePdfNormalization } from './usePdfNormalization'
+import { usePdfRenderer } from './usePdfRenderer'
+import { logger } from '~/utils/logger'
+
+// A shown page with the rotation chosen for it
+export interface OrientedPage {
+  file: File
+  page: number // 1-based
+  rotation: number // Clockwise degrees added to the page's own rotation
+}
+
+/**
+ * Composable for the orientation auto-correction of PDF 2
+ * Turns PDF 2 by 90° when the shown pages have swapped orientations, e.g. a portrait page
+ * against a landscape scan
+ * @param renderer - Renderer to measure the pages with; pass the one that has loaded the documents
+ */
+export function useOrientationCorrection(
+  renderer: ReturnType<typeof usePdfRenderer> = usePdfRenderer()
+) {
+  const { getPdfDimensions } = renderer
+  const { isOrientationSwapped } = usePdfNormalization()
+
+  // Extra rotation of PDF 2 that turns its page to the orientation of PDF 1, in degrees
+  const correction = ref(0)
+
+  // Incremented per call; an older detection is dropped once a newer call has started
+  let currentRun = 0
+
+  /**
+   * Detects the correction of the shown pages
+   */
+  const detectCorrection = async (left: OrientedPage, right: OrientedPage) => {
+    const run = ++currentRun
+
+    try {
+      const leftSize = await getPdfDimensions(left.file, 1, left.page, left.rotation)
+      const rightSize = await getPdfDimensions(right.file, 1, right.page, right.rotation)
+      if (run !== currentRun) return
+
+      correction.value = isOrientationSwapped(leftSize, rightSize) ? 90 : 0
+    } catch (err) {
+      // Pages beyond the end of a document are shown blank and keep their rotation
+      if (run !== currentRun) return
+      logger.warn('Failed to detect page orientation:', err)
+      correction.value = 0
+    }
+  }
+
+  /**
+   * Turns the correction off (e.g. when disabled or without both pages)
+   */
+  const resetCorrection = () => {
+    currentRun++
+    correction.value = 0
+  }
+
+  return {
+    correction: readonly(correction),
+    detectCorrection,
+    resetCorrection,
+  }
+}
@@ -0,0 +1,145 @@
+import { ref, readonly } from 'vue'
+import { THUMBNAIL_SCALE, usePdfRenderer } from './usePdfRenderer'
+import {
+  type ManualPagePair,
+  type PageAlignmentOptions,
+  type PageFingerprint,
+  type PagePair,
+  DEFAULT_ALIGNMENT_OPTIONS,
+  alignPages,
+  createThumbnailSignature,
+} from '~/lib/pageAlignment'
+import { getCanvasPool } from '~/utils/canvas-pool'
+import { logger } from '~/utils/logger'
+
+/**
+ * Composable for automatic page alignment
+ * Fingerprints every page (text content + downscaled render) and matches
+ * the pages of both documents so inserted and deleted pages are detected
+ * @param renderer - Renderer to use; pass a shared one to reuse its low-scale bitmaps as thumbnails
+ */
+export function usePageAlignment(renderer: ReturnType<typeof usePdfRenderer> = usePdfRenderer()) {
+  const isAligning = ref(false)
+  const progress = ref(0) // 0-1, fingerprinted pages of both documents
+
+  // Separate renderer instance so fingerprinting never cancels visible renders
+  const { renderPdfToCanvas, getPageCount, getPageText } = renderer
+
+  // Incremented per call; an older call stops once a newer one has started
+  let currentRun = 0
+
+  // Fingerprints per file, so realigning (e.g. after a manual pairing) skips fingerprinting
+  const fingerprintCache = new WeakMap<File, PageFingerprint[]>()
+
+  /**
+   * Computes the fingerprint of a single page
+   */
+  const fingerprintPage = async (
+    file: File,
+    pageNumber: number,
+    canvas: HTMLCanvasElement
+  ): Promise<PageFingerprint> => {
+    const text = await getPageText(file, pageNumber)
+    // Rendered at thumbnail scale so the bitmap cache can serve the thumbnail strip afterwards
+    await renderPdfToCanvas(file, canvas, THUMBNAIL_SCALE, pageNumber)
+
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) {
+      throw new Error('Could not get canvas context for page fingerprint')
+    }
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+
+    return {
+      pageNumber,
+      text,
+      thumbnail: createThumbnailSignature(imageData.data, canvas.width, canvas.height),
+    }
+  }
+
+  /**
+   * Aligns the pages of two PDFs
+   * @param leftFile - First PDF (original)
+   * @param rightFile - Second PDF (revision)
+   * @param manualPairs - User-defined pairs that override automatic matching (pairs beyond
+   *   the page counts, e.g. saved before a file changed, are left out)
+   * @param options - Alignment tuning (match threshold, text weight)
+   * @returns Ordered page pairs (matched, inserted and deleted), or null if superseded by a newer call
+   */
+  const alignPdfPages = async (
+    leftFile: File,
+    rightFile: File,
+    manualPairs: ManualPagePair[] = [],
+    options: PageAlignmentOptions = DEFAULT_ALIGNMENT_OPTIONS
+  ): Promise<PagePair[] | null> => {
+    const run = ++currentRun
+    isAligning.value = true
+    progress.value = 0
+
+    const pool = getCanvasPool()
+    const canvas = pool.acquire(100, 100)
+
+    try {
+      const [leftCount, rightCount] = await Promise.all([
+        getPageCount(leftFile),
+        getPageCount(rightFile),
+      ])
+      const total = leftCount + rightCount
+
+      const fingerprintDocument = async (file: File, count: number, offset: number) => {
+        const cached = fingerprintCache.get(file)
+        if (cached) {
+          progress.value = (offset + count) / total
+          return cached
+        }
+
+        const fingerprints: PageFingerprint[] = []
+        for (let page = 1; page <= count; page++) {
+          if (run !== currentRun) return null
+          fingerprints.push(await fingerprintPage(file, page, canvas))
+          progress.value = (offset + page) / total
+        }
+        fingerprintCache.set(file, fingerprints)
+        return fingerprints
+      }
+
+      // Sequential on purpose: both documents share one canvas and one render task
+      const left = await fingerprintDocument(leftFile, leftCount, 0)
+      const right = left && (await fingerprintDocument(rightFile, rightCount, leftCount))
+      if (!left || !right || run !== currentRun) return null
+
+      const validPairs = manualPairs.filter(
+        (pair) => pair.leftPage <= leftCount && pair.rightPage <= rightCount
+      )
+      const pairs = alignPages(left, right, options, validPairs)
+      logger.log('Page alignment completed:', {
+        matched: pairs.filter((pair) => pair.status === 'matched').length,
+        inserted: pairs.filter((pair) => pair.status === 'inserted').length,
+        deleted: pairs.filter((pair) => pair.status === 'deleted').length,
+        manual: validPairs.length,
+      })
+
+      return pairs
+    } finally {
+      pool.release(canvas)
+      if (run === currentRun) {
+        isAligning.value = false
+      }
+    }
+  }
+
+  /**
+   * Stops the running alignment; it returns null once its current page is fingerprinted
+   */
+  const cancelAlignment = () => {
+    currentRun++
+    isAligning.value = false
+  }
+
+  return {
+    alignPdfPages,
+    cancelAlignment,
+    isAligning: readonly(isAligning),
+    progress: readonly(progress),
+  }
+}
@@ -0,0 +1,271 @@
+import { onUnmounted } from 'vue'
+import type { DiffOptions } from './usePdfDiff'
+import { usePdfDiffWorker } from './usePdfDiffWorker'
+import { type NormalizationStrategy, usePdfNormalization } from './usePdfNormalization'
+import { type PageRenderOptions, usePdfRenderer } from './usePdfRenderer'
+import { type TileLayout, type TiledDiffRequest, usePdfTiledDiff } from './usePdfTiledDiff'
+import { usePersistentCache } from './usePersistentCache'
+import { type IgnoreRegion, getIgnoreRegionsForPair } from '~/lib/ignoreMasks'
+import type { PagePair } from '~/lib/pageAlignment'
+import type { TiledDiff } from '~/lib/tiling'
+import type { DiffStats, DimensionInfo } from '~/stores/diff'
+import { getCanvasPool } from '~/utils/canvas-pool'
+import { logger } from '~/utils/logger'
+
+// Everything that affects the diff of a page
+export interface PageComparisonSettings {
+  leftFile: File | null
+  rightFile: File | null
+  options: DiffOptions
+  ignoreRegions: IgnoreRegion[] // All regions; each comparison picks those of its page pair
+  strategy: NormalizationStrategy
+  zoom: number // Source zoom in percent
+  leftRender: PageRenderOptions
+  rightRender: PageRenderOptions
+}
+
+// Diff of the shown pages
+export interface PageComparison {
+  stats: DiffStats
+  originalData: Uint8ClampedArray | null // Unhighlighted diff image, for the blink animation
+  dimensions: DimensionInfo
+  tiledDiff: TiledDiff | null // Tile grid, when the pages were compared tile by tile
+}
+
+/**
+ * Builds the comparison of two pages with the given settings (both files must be set)
+ * @param pair - Page pair the pages belong to (picks its ignore regions)
+ */
+export function createPageRequest(
+  settings: PageComparisonSettings,
+  leftPage: number | null,
+  rightPage: number | null,
+  pair?: PagePair
+): TiledDiffRequest {
+  const regions = pair ? getIgnoreRegionsForPair(settings.ignoreRegions, pair) : []
+
+  return {
+    leftFile: settings.leftFile!,
+    rightFile: settings.rightFile!,
+    leftPage,
+    rightPage,
+    scale: settings.zoom / 100,
+    // Left out when there are none, so cache keys of unmasked pages stay as they were
+    options: { ...settings.options, ignoreRegions: regions.length > 0 ? regions : undefined },
+    strategy: settings.strategy,
+    leftRender: settings.leftRender,
+    rightRender: settings.rightRender,
+  }
+}
+
+/**
+ * Picks the stats of a comparison result (without its image data)
+ */
+export function toDiffStats(result: DiffStats): DiffStats {
+  return {
+    differenceCount: result.differenceCount,
+    totalPixels: result.totalPixels,
+    percentDiff: result.percentDiff,
+    ssim: result.ssim,
+    regions: result.regions,
+    rawDifferenceCount: result.rawDifferenceCount,
+    deltaHistogram: result.deltaHistogram,
+    autoThreshold: result.autoThreshold,
+    deltaStatistics: result.deltaStatistics,
+    densityGrid: result.densityGrid,
+  }
+}
+
+/**
+ * Composable for comparing the shown pages
+ * Compares the rendered canvases in the worker, or tile by tile at full scale when the pages
+ * exceed the canvas limits, and keeps the stitched overview of the last tiled comparison so
+ * the diff view can return to it from a single tile
+ * @param renderer - Renderer of the shown pages; tiles and bitmaps reuse its loaded documents
+ * @param worker - Worker to diff the pages in
+ */
+export function usePageComparison(
+  renderer: ReturnType<typeof usePdfRenderer> = usePdfRenderer(),
+  worker: ReturnType<typeof usePdfDiffWorker> = usePdfDiffWorker()
+) {
+  const { comparePdfsAsync, compareBitmapsAsync } = worker
+  const { getTileLayout, compareTiled, renderTileDiff, cancelTiledDiff, isProcessing, progress } =
+    usePdfTiledDiff(renderer, comparePdfsAsync)
+  const { calculateNormalizedDimensions } = usePdfNormalization()
+  const { createDiffCacheKey, restoreCachedDiff, cacheDiffResult } = usePersistentCache()
+
+  // Stitched overview of the last tiled comparison, shown again when leaving a single tile
+  let overviewCanvas: HTMLCanvasElement | null = null
+  let overviewOriginal: Uint8ClampedArray | null = null
+
+  /**
+   * Draws the stitched overview of the last tiled comparison onto the diff canvas
+   * @returns The unhighlighted overview, or null if there is none
+   */
+  const showTileOverview = (diffCanvas: HTMLCanvasElement) => {
+    if (!overviewCanvas) return null
+
+    diffCanvas.width = overviewCanvas.width
+    diffCanvas.height = overviewCanvas.height
+    diffCanvas.getContext('2d')?.drawImage(overviewCanvas, 0, 0)
+
+    return overviewOriginal
+  }
+
+  /**
+   * Compares pages that exceed the canvas limits tile by tile at full scale and draws
+   * the stitched overview onto the diff canvas
+   */
+  const compareTiles = async (
+    request: TiledDiffRequest,
+    layout: TileLayout,
+    diffCanvas: HTMLCanvasElement,
+    onDimensions?: (dimensions: DimensionInfo) => void
+  ): Promise<PageComparison | null> => {
+    const dimensions: DimensionInfo = {
+      canvas1: {
+        width: Math.round(layout.leftSize.width),
+        height: Math.round(layout.leftSize.height),
+      },
+      canvas2: {
+        width: Math.round(layout.rightSize.width),
+        height: Math.round(layout.rightSize.height),
+      },
+      targetWidth: layout.width,
+      targetHeight: layout.height,
+      tileCount: layout.tiles.length,
+    }
+    onDimensions?.(dimensions)
+
+    if (!overviewCanvas) {
+      overviewCanvas = getCanvasPool().acquire(100, 100) // Size is set by the tiled comparison
+    }
+
+    const result = await compareTiled(request, layout, overviewCanvas)
+    if (!result) return null
+
+    overviewOriginal = result.originalData
+    showTileOverview(diffCanvas)
+
+    return {
+      stats: toDiffStats(result),
+      originalData: result.originalData,
+      dimensions,
+      tiledDiff: {
+        width: result.width,
+        height: result.height,
+        rows: result.rows,
+        cols: result.cols,
+        tiles: result.tiles,
+        overviewScale: result.overviewScale,
+      },
+    }
+  }
+
+  /**
+   * Compares the shown pages and draws their diff onto the diff canvas
+   * Pages too large for a single canvas are compared tile by tile at full scale, rather than
+   * from the scaled-down canvases; diffs of earlier sessions come from the persistent cache.
+   * @param canvas1 - Shown page of PDF 1
+   * @param canvas2 - Shown page of PDF 2
+   * @param request - The same pages with the comparison settings
+   * @param onDimensions - Receives the page sizes before comparing (the previous results are
+   *   stale from then on)
+   * @returns The comparison, or null if a tiled comparison was superseded by a newer one
+   */
+  const comparePage = async (
+    canvas1: HTMLCanvasElement,
+    canvas2: HTMLCanvasElement,
+    diffCanvas: HTMLCanvasElement,
+    request: TiledDiffRequest,
+    onDimensions?: (dimensions: DimensionInfo) => void
+  ): Promise<PageComparison | null> => {
+    const layout = await getTileLayout(request)
+    if (layout) return compareTiles(request, layout, diffCanvas, onDimensions)
+
+    cancelTiledDiff()
+    overviewOriginal = null
+
+    const normalized = calculateNormalizedDimensions(canvas1, canvas2, request.strategy)
+    const dimensions: DimensionInfo = {
+      canvas1: { width: canvas1.width, height: canvas1.height },
+      canvas2: { width: canvas2.width, height: canvas2.height },
+      targetWidth: normalized.targetWidth,
+      targetHeight: normalized.targetHeight,
+    }
+    onDimensions?.(dimensions)
+
+    // Restore the diff of an earlier session, or compare and store it for the next one
+    const cacheKey = await createDiffCacheKey(request)
+    const cached = cacheKey ? await restoreCachedDiff(cacheKey, diffCanvas) : null
+    if (cached) {
+      logger.log('Diff restored from persistent cache')
+    }
+
+    const result =
+      cached ??
+      (await comparePdfsAsync(canvas1, canvas2, diffCanvas, request.options, request.strategy))
+    if (cacheKey && !cached) {
+      cacheDiffResult(cacheKey, result, diffCanvas, result.originalData)
+    }
+
+    return {
+      stats: toDiffStats(result),
+      originalData: result.originalData,
+      // The 'auto' alignment reports where it placed PDF 2 (null when nothing matched)
+      dimensions:
+        request.strategy.alignment === 'auto'
+          ? { ...dimensions, registration: result.registration ?? null }
+          : dimensions,
+      tiledDiff: null,
+    }
+  }
+
+  /**
+   * Compares the pages rendered as bitmaps at the scale of the request (rasterized in the
+   * render worker where supported), e.g. to redraw the diff at another zoom
+   */
+  const comparePageBitmaps = async (request: TiledDiffRequest, diffCanvas: HTMLCanvasElement) => {
+    const bitmap1 = await renderer.renderPageBitmap(
+      request.leftFile,
+      request.scale,
+      request.leftPage,
+      request.leftRender
+    )
+    const bitmap2 = await renderer.renderPageBitmap(
+      request.rightFile,
+      request.scale,
+      request.rightPage,
+      request.rightRender
+    )
+
+    const result = await compareBitmapsAsync(
+      bitmap1,
+      bitmap2,
+      diffCanvas,
+      request.options,
+      request.strategy
+    )
+
+    return { stats: toDiffStats(result), originalData: result.originalData }
+  }
+
+  onUnmounted(() => {
+    cancelTiledDiff()
+
+    // Release the tile overview canvas back to the pool
+    if (overviewCanvas) {
+      getCanvasPool().release(overviewCanvas)
+      overviewCanvas = null
+    }
+  })
+
+  return {
+    comparePage,
+    comparePageBitmaps,
+    showTileOverview,
+    renderTileDiff,
+    isComparingTiles: isProcessing,
+    tileProgress: progress,
+  }
+}
@@ -0,0 +1,166 @@
+import { ref, readonly } from 'vue'
+import { usePdfDiffWorker } from './usePdfDiffWorker'
+import { type PageComparisonSettings, createPageRequest, toDiffStats } from './usePageComparison'
+import { getRenderSignature, usePdfRenderer } from './usePdfRenderer'
+import { usePdfTiledDiff } from './usePdfTiledDiff'
+import { usePersistentCache } from './usePersistentCache'
+import type { PagePair } from '~/lib/pageAlignment'
+import type { DiffStats } from '~/stores/diff'
+import { getCanvasPool } from '~/utils/canvas-pool'
+import { logger } from '~/utils/logger'
+
+/**
+ * Composable for the background scan of all page pairs
+ * Has its own renderer and worker, so the scan never cancels or intercepts the renders and
+ * diffs of the visible page. Stats of earlier sessions are taken from the persistent cache.
+ */
+export function usePageScan() {
+  const renderer = usePdfRenderer()
+  const { comparePdfsAsync, compareBitmapsAsync } = usePdfDiffWorker()
+  const tiledDiff = usePdfTiledDiff(renderer, comparePdfsAsync)
+  const { createDiffCacheKey, getCachedDiffStats, cacheDiffResult } = usePersistentCache()
+
+  const isScanning = ref(false)
+
+  // Incremented per scan; a running scan stops once a newer one has started or it is cancelled
+  let currentRun = 0
+
+  // Settings of the last comparison, as compared by syncScanSignature
+  let lastSignature: string | null = null
+
+  /**
+   * Records the settings of a comparison
+   * @returns Whether anything that affects the diff result has changed since the last call
+   */
+  const syncScanSignature = (settings: PageComparisonSettings): boolean => {
+    const fileSignature = (file: File | null) => file && [file.name, file.size, file.lastModified]
+    const signature = JSON.stringify({
+      left: fileSignature(settings.leftFile),
+      right: fileSignature(settings.rightFile),
+      // Colours change the image only, not the stats
+      options: { ...settings.options, palette: undefined, customPalette: undefined },
+      ignoreRegions: settings.ignoreRegions,
+      normalization: settings.strategy,
+      zoom: settings.zoom,
+      render: [getRenderSignature(settings.leftRender), getRenderSignature(settings.rightRender)],
+    })
+
+    if (signature === lastSignature) return false
+    lastSignature = signature
+    return true
+  }
+
+  /**
+   * Compares the page pairs without stats one at a time, so the document-wide totals cover
+   * all pages; restarting cancels any running scan. A single page pair is not scanned.
+   * @param settings - Comparison settings of the documents (both files must be set)
+   * @param pairs - Page pairs of the documents
+   * @param hasStats - Whether a pair has stats already, in which case it is skipped
+   * @param onPageStats - Receives the stats of each compared pair
+   * @returns false if cancelled or superseded by a newer scan
+   */
+  const scanPages = async (
+    settings: PageComparisonSettings,
+    pairs: PagePair[],
+    hasStats: (index: number) => boolean,
+    onPageStats: (index: number, stats: DiffStats) => void
+  ): Promise<boolean> => {
+    if (!settings.leftFile || !settings.rightFile || pairs.length <= 1) {
+      cancelPageScan()
+      return false
+    }
+
+    const run = ++currentRun
+    const pool = getCanvasPool()
+    const scanDiffCanvas = pool.acquire(100, 100)
+    isScanning.value = true
+
+    try {
+      for (let index = 0; index < pairs.length; index++) {
+        if (run !== currentRun) return false
+        if (hasStats(index)) continue
+
+        const pair = pairs[index]
+        const request = createPageRequest(settings, pair.leftPage, pair.rightPage, pair)
+
+        // Reuse the stats of an earlier session
+        const cacheKey = await createDiffCacheKey(request)
+        const cachedStats = cacheKey ? await getCachedDiffStats(cacheKey) : null
+        if (run !== currentRun) return false
+        if (cachedStats) {
+          onPageStats(index, toDiffStats(cachedStats))
+          continue
+        }
+
+        // Pages too large for a single canvas are compared tile by tile at full scale
+        const tileLayout = await tiledDiff.getTileLayout(request)
+        if (tileLayout) {
+          const tiled = await tiledDiff.compareTiled(request, tileLayout)
+          if (!tiled || run !== currentRun) return false
+
+          onPageStats(index, toDiffStats(tiled))
+          if (cacheKey) cacheDiffResult(cacheKey, tiled)
+          continue
+        }
+
+        // Rendered as bitmaps and diffed in the worker, without any main-thread canvases
+        const bitmap1 = await renderer.renderPageBitmap(
+          request.leftFile,
+          request.scale,
+          request.leftPage,
+          request.leftRender
+        )
+        const bitmap2 = await renderer.renderPageBitmap(
+          request.rightFile,
+          request.scale,
+          request.rightPage,
+          request.rightRender
+        )
+        if (run !== currentRun) {
+          bitmap1.close()
+          bitmap2.close()
+          return false
+        }
+
+        const result = await compareBitmapsAsync(
+          bitmap1,
+          bitmap2,
+          scanDiffCanvas,
+          request.options,
+          request.strategy
+        )
+        if (run !== currentRun) return false
+
+        onPageStats(index, toDiffStats(result))
+        if (cacheKey) cacheDiffResult(cacheKey, result)
+      }
+
+      logger.log('Page scan completed:', pairs.length, 'page pairs')
+    } catch (err) {
+      logger.error('Page scan failed:', err)
+    } finally {
+      pool.release(scanDiffCanvas)
+      if (run === currentRun) {
+        isScanning.value = false
+      }
+    }
+
+    return run === currentRun
+  }
+
+  /**
+   * Stops the running scan
+   */
+  const cancelPageScan = () => {
+    currentRun++
+    isScanning.value = false
+    tiledDiff.cancelTiledDiff()
+  }
+
+  return {
+    scanPages,
+    cancelPageScan,
+    syncScanSignature,
+    isScanning: readonly(isScanning),
+  }
+}
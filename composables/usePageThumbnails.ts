@@ -0,0 +1,84 @@
+import { ref, shallowRef, readonly } from 'vue'
+import { usePdfRenderer } from './usePdfRenderer'
+import { logger } from '~/utils/logger'
+
+export interface PageThumbnails {
+  left: Record<number, string> // Page number -> PNG data URL
+  right: Record<number, string>
+}
+
+/**
+ * Composable for page thumbnails of both documents
+ * Renders pages one at a time at thumbnail scale, so the work stays small and
+ * never competes with the renders of the visible page
+ * @param renderer - Renderer to use; share it with usePageAlignment to reuse its cached bitmaps
+ */
+export function usePageThumbnails(renderer: ReturnType<typeof usePdfRenderer> = usePdfRenderer()) {
+  const thumbnails = shallowRef<PageThumbnails>({ left: {}, right: {} })
+  const isGenerating = ref(false)
+
+  // Incremented to abort a running generation
+  let generation = 0
+
+  /**
+   * Generates the missing thumbnails of both documents
+   * @param leftFile - First PDF
+   * @param rightFile - Second PDF
+   */
+  const loadThumbnails = async (leftFile: File, rightFile: File) => {
+    const currentGeneration = ++generation
+    isGenerating.value = true
+
+    try {
+      for (const [side, file] of [
+        ['left', leftFile],
+        ['right', rightFile],
+      ] as const) {
+        const pageCount = await renderer.getPageCount(file)
+
+        for (let page = 1; page <= pageCount; page++) {
+          if (currentGeneration !== generation) return
+          if (thumbnails.value[side][page]) continue
+
+          const url = await renderer.getPageThumbnail(file, page)
+          if (currentGeneration !== generation) return
+
+          thumbnails.value = {
+            ...thumbnails.value,
+            [side]: { ...thumbnails.value[side], [page]: url },
+          }
+        }
+      }
+    } catch (err) {
+      logger.error('Failed to generate page thumbnails:', err)
+    } finally {
+      if (currentGeneration === generation) {
+        isGenerating.value = false
+      }
+    }
+  }
+
+  /**
+   * Stops a running generation (e.g. before the shared renderer is needed elsewhere)
+   */
+  const cancelThumbnails = () => {
+    generation++
+    isGenerating.value = false
+  }
+
+  /**
+   * Stops any running generation and drops all thumbnails
+   */
+  const clearThumbnails = () => {
+    cancelThumbnails()
+    thumbnails.value = { left: {}, right: {} }
+  }
+
+  return {
+    thumbnails: readonly(thumbnails),
+    isGenerating: readonly(isGenerating),
+    loadThumbnails,
+    cancelThumbnails,
+    clearThumbnails,
+  }
+}
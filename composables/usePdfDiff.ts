@@ -5,11 +5,18 @@ import {
   overlayDiff,
   heatmapDiff,
   semanticDiff,
+  deltaEDiff,
+  ssimDiff,
+  edgesDiff,
   type DiffOptions,
 } from '~/lib/pdfDiffAlgorithms'
+import { type DiffSummary, type FilledDiffContext, postProcessDiff } from '~/lib/diffPostProcessing'
 import type { NormalizationStrategy } from './usePdfNormalization'
+import { createIgnoreMask } from '~/lib/ignoreMasks'
+import { computeDeltaHistogram, resolveThreshold, usesAutoThreshold } from '~/lib/deltaHistogram'
 import { usePdfNormalization } from './usePdfNormalization'
 import { WebGLDiffRenderer, isWebGL2Supported } from '~/lib/webgl-diff-renderer'
+import { resolvePalette } from '~/lib/palettes'
 import { logger } from '~/utils/logger'
 
 export type DiffMode =
@@ -19,27 +26,40 @@ export type DiffMode =
   | 'overlay'
   | 'heatmap'
   | 'semantic'
+  | 'deltaE'
+  | 'ssim'
+  | 'edges'
   | 'webgl'
 export type { DiffOptions }
 
+export interface DiffResult extends Partial<DiffSummary> {
+  differenceCount: number
+  totalPixels: number
+  percentDiff: number
+  ssim?: number // Mean structural similarity (ssim mode)
+  deltaHistogram?: number[] // Pixels by delta (see lib/deltaHistogram)
+  autoThreshold?: number // Threshold picked by the 'auto' threshold mode
+}
+
 export const usePdfDiff = () => {
   const { normalizeCanvases } = usePdfNormalization()
 
   /**
    * Compares two canvases pixel by pixel and creates a diff canvas
+   * Apart from WebGL rendering, the result carries the same stats as the worker's.
    * @param canvas1 - First canvas to compare
    * @param canvas2 - Second canvas to compare
    * @param diffCanvas - Canvas to render the diff result
-   * @param options - Diff options (mode, threshold, etc.)
+   * @param requestedOptions - Diff options (mode, threshold, etc.)
    * @param normalizationStrategy - Optional normalization strategy for handling different dimensions
    */
   const comparePdfs = (
     canvas1: HTMLCanvasElement,
     canvas2: HTMLCanvasElement,
     diffCanvas: HTMLCanvasElement,
-    options: DiffOptions,
+    requestedOptions: DiffOptions,
     normalizationStrategy?: NormalizationStrategy
-  ): { differenceCount: number; totalPixels: number; percentDiff: number } => {
+  ): DiffResult => {
     // Normalize canvases before comparison (fixes dimension mismatch issues)
     const strategy = normalizationStrategy ?? {
       type: 'largest' as const,
@@ -72,16 +92,41 @@ export const usePdfDiff = () => {
     const diffData = diffCtx.createImageData(width, height)
 
     let differenceCount = 0
-    const totalPixels = width * height
+    let ssim: number | undefined
+    const ignored = createIgnoreMask(requestedOptions.ignoreRegions, width, height)
+    const ignoreMask = ignored?.mask
+
+    // Delta histogram of the page, from which the 'auto' threshold is picked in the modes with one
+    const deltaHistogram = computeDeltaHistogram(
+      imageData1.data,
+      imageData2.data,
+      requestedOptions.mode === 'grayscale',
+      ignoreMask
+    )
+    const options = {
+      ...requestedOptions,
+      threshold: resolveThreshold(requestedOptions, deltaHistogram),
+    }
 
     // Process based on selected mode (using shared algorithms from lib/pdfDiffAlgorithms)
+    const context: FilledDiffContext = {
+      width,
+      originalData: new Uint8ClampedArray(width * height * 4),
+      changeMask: new Uint8Array(width * height),
+      ignoreMask,
+    }
     switch (options.mode) {
       case 'webgl': {
         // Use WebGL-accelerated rendering (3-5x faster)
         if (!isWebGL2Supported()) {
           logger.warn('WebGL 2 not supported, falling back to pixel mode')
-          differenceCount = pixelDiff(imageData1.data, imageData2.data, diffData.data, options)
-          diffCtx.putImageData(diffData, 0, 0)
+          differenceCount = pixelDiff(
+            imageData1.data,
+            imageData2.data,
+            diffData.data,
+            options,
+            context
+          )
           break
         }
 
@@ -91,6 +136,8 @@ export const usePdfDiff = () => {
             threshold: options.threshold,
             overlayOpacity: options.overlayOpacity,
             useGrayscale: options.useGrayscale,
+            ignoreRegions: options.ignoreRegions,
+            highlightColor: resolvePalette(options.palette, options.customPalette).highlight,
           })
           renderer.dispose()
 
@@ -98,39 +145,117 @@ export const usePdfDiff = () => {
           return result
         } catch (error) {
           logger.error('WebGL rendering failed, falling back to pixel mode:', error)
-          differenceCount = pixelDiff(imageData1.data, imageData2.data, diffData.data, options)
-          diffCtx.putImageData(diffData, 0, 0)
+          differenceCount = pixelDiff(
+            imageData1.data,
+            imageData2.data,
+            diffData.data,
+            options,
+            context
+          )
         }
         break
       }
       case 'pixel':
-        differenceCount = pixelDiff(imageData1.data, imageData2.data, diffData.data, options)
+        differenceCount = pixelDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
         break
       case 'threshold':
-        differenceCount = thresholdDiff(imageData1.data, imageData2.data, diffData.data, options)
+        differenceCount = thresholdDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
         break
       case 'grayscale':
-        differenceCount = grayscaleDiff(imageData1.data, imageData2.data, diffData.data, options)
+        differenceCount = grayscaleDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
         break
       case 'overlay':
-        differenceCount = overlayDiff(imageData1.data, imageData2.data, diffData.data, options)
+        differenceCount = overlayDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
         break
       case 'heatmap':
-        differenceCount = heatmapDiff(imageData1.data, imageData2.data, diffData.data, options)
+        differenceCount = heatmapDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
         break
       case 'semantic':
-        differenceCount = semanticDiff(imageData1.data, imageData2.data, diffData.data, options)
+        differenceCount = semanticDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
+        break
+      case 'deltaE':
+        differenceCount = deltaEDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
+        break
+      case 'ssim': {
+        const result = ssimDiff(imageData1.data, imageData2.data, diffData.data, options, context)
+        differenceCount = result.differenceCount
+        ssim = result.ssim
+        break
+      }
+      case 'edges':
+        differenceCount = edgesDiff(
+          imageData1.data,
+          imageData2.data,
+          diffData.data,
+          options,
+          context
+        )
         break
     }
 
-    // Put the diff data on the canvas (except for WebGL which renders directly)
-    if (options.mode !== 'webgl') {
-      diffCtx.putImageData(diffData, 0, 0)
-    }
+    // Noise suppression and the stats of what is left, as in the worker
+    const summary = postProcessDiff(
+      imageData1.data,
+      imageData2.data,
+      diffData.data,
+      differenceCount,
+      height,
+      options,
+      context,
+      ignored?.ignoredPixels
+    )
 
-    const percentDiff = (differenceCount / totalPixels) * 100
+    // Put the diff data on the canvas (WebGL returned above, as it renders directly)
+    diffCtx.putImageData(diffData, 0, 0)
 
-    return { differenceCount, totalPixels, percentDiff }
+    return {
+      ...summary,
+      ssim,
+      deltaHistogram,
+      autoThreshold: usesAutoThreshold(options) ? options.threshold : undefined,
+    }
   }
 
   return {
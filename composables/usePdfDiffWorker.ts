@@ -1,11 +1,42 @@
 import { ref, readonly, onUnmounted } from 'vue'
 import type { DiffOptions } from './usePdfDiff'
-import type { NormalizationStrategy } from './usePdfNormalization'
+import type { NormalizationStrategy, NormalizedDimensions } from './usePdfNormalization'
+import type { DiffRegion } from '~/lib/diffRegions'
+import type { DeltaStatistics } from '~/lib/deltaHistogram'
+import type { DensityGrid } from '~/lib/densityGrid'
+import type { Registration } from '~/lib/imageRegistration'
+import { clonePalette } from '~/lib/palettes'
 import { usePdfNormalization } from './usePdfNormalization'
+import { getCanvasPool } from '~/utils/canvas-pool'
 import { ErrorType, createAppError } from '~/utils/errorHandler'
+import { detectOffscreenCanvas } from '~/utils/feature-detection'
 import { logger } from '~/utils/logger'
 import PdfDiffWorker from '~/workers/pdf-diff.worker.ts?worker'
 
+export interface WorkerDiffResult {
+  differenceCount: number
+  totalPixels: number
+  percentDiff: number
+  ssim?: number // Mean structural similarity (ssim mode)
+  regions?: DiffRegion[] // Clusters of the changed pixels, in pixels of the diff canvas
+  rawDifferenceCount?: number // Before noise suppression
+  deltaHistogram?: number[] // Pixels by delta (see lib/deltaHistogram)
+  autoThreshold?: number // Threshold picked by the 'auto' threshold mode
+  deltaStatistics?: DeltaStatistics // How strongly the changed pixels differ
+  densityGrid?: DensityGrid // Changed pixels per grid cell
+  registration?: Registration | null // Placement of PDF 2 found by the 'auto' alignment
+  diffData: Uint8ClampedArray
+  originalData: Uint8ClampedArray
+}
+
+// Used when no normalization strategy is given
+const DEFAULT_STRATEGY: NormalizationStrategy = {
+  type: 'largest',
+  alignment: 'top-left',
+  backgroundColor: '#ffffff',
+  scaleToFit: false,
+}
+
 /**
  * Composable for using Web Worker for PDF diff computation
  * Offloads heavy computation from main thread to prevent UI blocking
@@ -13,7 +44,8 @@ import PdfDiffWorker from '~/workers/pdf-diff.worker.ts?worker'
 export function usePdfDiffWorker() {
   const worker = ref<Worker | null>(null)
   const isProcessing = ref(false)
-  const { normalizeCanvases } = usePdfNormalization()
+  const { normalizeCanvases, calculateNormalizedDimensions, estimateRegistration } =
+    usePdfNormalization()
 
   /**
    * Initialize the worker
@@ -37,63 +69,51 @@ export function usePdfDiffWorker() {
   }
 
   /**
-   * Compare PDFs using Web Worker
+   * Posts a comparison to the worker and draws the returned diff onto the diff canvas
    */
-  const comparePdfsAsync = (
-    canvas1: HTMLCanvasElement,
-    canvas2: HTMLCanvasElement,
+  const runWorkerDiff = (
+    message: Record<string, unknown>,
+    transfer: Transferable[],
+    width: number,
+    height: number,
     diffCanvas: HTMLCanvasElement,
-    options: DiffOptions,
-    normalizationStrategy?: NormalizationStrategy
-  ): Promise<{
-    differenceCount: number
-    totalPixels: number
-    percentDiff: number
-    diffData: Uint8ClampedArray
-    originalData: Uint8ClampedArray
-  }> => {
+    options: DiffOptions
+  ): Promise<WorkerDiffResult> => {
     return new Promise((resolve, reject) => {
       if (!initWorker() || !worker.value) {
         reject(new Error('Worker initialization failed'))
         return
       }
 
-      // Normalize canvases before comparison (fixes dimension mismatch issues)
-      const strategy = normalizationStrategy ?? {
-        type: 'largest' as const,
-        alignment: 'top-left' as const,
-        backgroundColor: '#ffffff',
-        scaleToFit: false,
-      }
-
-      const { normalizedCanvas1, normalizedCanvas2 } = normalizeCanvases(canvas1, canvas2, strategy)
-
-      const ctx1 = normalizedCanvas1.getContext('2d')
-      const ctx2 = normalizedCanvas2.getContext('2d')
       const diffCtx = diffCanvas.getContext('2d')
-
-      if (!ctx1 || !ctx2 || !diffCtx) {
+      if (!diffCtx) {
         reject(new Error('Failed to get canvas contexts'))
         return
       }
 
-      // Now both canvases have the same dimensions (normalized)
-      const width = normalizedCanvas1.width
-      const height = normalizedCanvas1.height
-
       // Set diff canvas dimensions
       diffCanvas.width = width
       diffCanvas.height = height
 
-      // Get image data from normalized canvases
-      const imageData1 = ctx1.getImageData(0, 0, width, height)
-      const imageData2 = ctx2.getImageData(0, 0, width, height)
-
       isProcessing.value = true
 
       // Set up worker message handler
       const handleMessage = (e: MessageEvent) => {
-        const { diffData, originalData, differenceCount, totalPixels, percentDiff } = e.data
+        const {
+          diffData,
+          originalData,
+          differenceCount,
+          totalPixels,
+          percentDiff,
+          ssim,
+          regions,
+          rawDifferenceCount,
+          deltaHistogram,
+          autoThreshold,
+          deltaStatistics,
+          densityGrid,
+          registration,
+        } = e.data
 
         // diffData and originalData are Uint8ClampedArray transferred from worker
         // No need to create new copies - use directly
@@ -110,6 +130,14 @@ export function usePdfDiffWorker() {
           differenceCount,
           totalPixels,
           percentDiff,
+          ssim,
+          regions,
+          rawDifferenceCount,
+          deltaHistogram,
+          autoThreshold,
+          deltaStatistics,
+          densityGrid,
+          registration,
           diffData, // Already Uint8ClampedArray, no copy needed
           originalData, // Already Uint8ClampedArray, no copy needed
         })
@@ -138,25 +166,170 @@ export function usePdfDiffWorker() {
 
       // Send data to worker
       // Use transferable objects for better performance
-      // Convert options to plain object to avoid cloning issues with Vue reactivity
-      worker.value.postMessage(
-        {
-          imageData1: imageData1.data,
-          imageData2: imageData2.data,
-          options: {
-            mode: options.mode,
-            threshold: options.threshold,
-            overlayOpacity: options.overlayOpacity,
-            useGrayscale: options.useGrayscale,
-          },
-          width,
-          height,
-        },
-        [imageData1.data.buffer, imageData2.data.buffer]
-      )
+      worker.value.postMessage(message, transfer)
     })
   }
 
+  /**
+   * Converts options to a plain object to avoid cloning issues with Vue reactivity
+   */
+  const toPlainOptions = (options: DiffOptions): DiffOptions => ({
+    mode: options.mode,
+    threshold: options.threshold,
+    thresholdMode: options.thresholdMode,
+    overlayOpacity: options.overlayOpacity,
+    useGrayscale: options.useGrayscale,
+    deltaEThreshold: options.deltaEThreshold,
+    ssimThreshold: options.ssimThreshold,
+    edgeThreshold: options.edgeThreshold,
+    semanticBackground: options.semanticBackground,
+    semanticBackgroundColor: options.semanticBackgroundColor && {
+      ...options.semanticBackgroundColor,
+    },
+    semanticBackgroundTolerance: options.semanticBackgroundTolerance,
+    ignoreAntialiasing: options.ignoreAntialiasing,
+    regionMergeDistance: options.regionMergeDistance,
+    ignoreRegions: options.ignoreRegions?.map((region) => ({ ...region })),
+    morphology: options.morphology,
+    morphologyKernelSize: options.morphologyKernelSize,
+    minRegionArea: options.minRegionArea,
+    densityCellSize: options.densityCellSize,
+    palette: options.palette,
+    customPalette: options.customPalette && clonePalette(options.customPalette),
+  })
+
+  /**
+   * Compare rendered pages given as ImageBitmaps using Web Worker
+   * Registration, normalization and pixel readback happen in the worker, so apart from drawing the
+   * result the whole comparison runs off the main thread. Where OffscreenCanvas is
+   * unavailable, the bitmaps are compared through canvases on the main thread instead.
+   * @param bitmap1 - First page (ownership passes to this function)
+   * @param bitmap2 - Second page (ownership passes to this function)
+   */
+  const compareBitmapsAsync = async (
+    bitmap1: ImageBitmap,
+    bitmap2: ImageBitmap,
+    diffCanvas: HTMLCanvasElement,
+    options: DiffOptions,
+    normalizationStrategy?: NormalizationStrategy
+  ): Promise<WorkerDiffResult> => {
+    const strategy = normalizationStrategy ?? DEFAULT_STRATEGY
+
+    if (!detectOffscreenCanvas()) {
+      const pool = getCanvasPool()
+      const canvas1 = pool.acquire(bitmap1.width, bitmap1.height)
+      const canvas2 = pool.acquire(bitmap2.width, bitmap2.height)
+      try {
+        canvas1.getContext('2d')?.drawImage(bitmap1, 0, 0)
+        canvas2.getContext('2d')?.drawImage(bitmap2, 0, 0)
+        return await comparePdfsAsync(canvas1, canvas2, diffCanvas, options, strategy)
+      } finally {
+        bitmap1.close()
+        bitmap2.close()
+        pool.release(canvas1)
+        pool.release(canvas2)
+      }
+    }
+
+    // Both pages end up with identical dimensions (normalized in the worker). With the 'auto'
+    // alignment the worker also registers PDF 2, which only moves it within these dimensions.
+    const dimensions = calculateNormalizedDimensions(bitmap1, bitmap2, strategy)
+    const toPlacement = (transform: NormalizedDimensions) => ({
+      offsetX: transform.offsetX,
+      offsetY: transform.offsetY,
+      width: transform.width,
+      height: transform.height,
+      scale: transform.scale,
+    })
+
+    return runWorkerDiff(
+      {
+        bitmap1,
+        bitmap2,
+        placement1: toPlacement(dimensions.canvas1Transform),
+        placement2: toPlacement(dimensions.canvas2Transform),
+        backgroundColor: strategy.backgroundColor,
+        register: strategy.alignment === 'auto',
+        options: toPlainOptions(options),
+        width: dimensions.targetWidth,
+        height: dimensions.targetHeight,
+      },
+      [bitmap1, bitmap2],
+      dimensions.targetWidth,
+      dimensions.targetHeight,
+      diffCanvas,
+      options
+    )
+  }
+
+  /**
+   * Compare PDFs using Web Worker
+   */
+  const comparePdfsAsync = async (
+    canvas1: HTMLCanvasElement,
+    canvas2: HTMLCanvasElement,
+    diffCanvas: HTMLCanvasElement,
+    options: DiffOptions,
+    normalizationStrategy?: NormalizationStrategy
+  ): Promise<WorkerDiffResult> => {
+    if (!initWorker() || !worker.value) {
+      throw new Error('Worker initialization failed')
+    }
+
+    // Normalize canvases before comparison (fixes dimension mismatch issues)
+    const strategy = normalizationStrategy ?? DEFAULT_STRATEGY
+
+    // Hand the pages to the worker as bitmaps, so normalizing and reading pixels
+    // happen off the main thread
+    if (detectOffscreenCanvas()) {
+      const [bitmap1, bitmap2] = await Promise.all([
+        createImageBitmap(canvas1),
+        createImageBitmap(canvas2),
+      ])
+      return compareBitmapsAsync(bitmap1, bitmap2, diffCanvas, options, strategy)
+    }
+
+    const registration =
+      strategy.alignment === 'auto' ? estimateRegistration(canvas1, canvas2) : undefined
+    const { normalizedCanvas1, normalizedCanvas2 } = normalizeCanvases(
+      canvas1,
+      canvas2,
+      strategy,
+      registration
+    )
+
+    const ctx1 = normalizedCanvas1.getContext('2d')
+    const ctx2 = normalizedCanvas2.getContext('2d')
+
+    if (!ctx1 || !ctx2) {
+      throw new Error('Failed to get canvas contexts')
+    }
+
+    // Now both canvases have the same dimensions (normalized)
+    const width = normalizedCanvas1.width
+    const height = normalizedCanvas1.height
+
+    // Get image data from normalized canvases
+    const imageData1 = ctx1.getImageData(0, 0, width, height)
+    const imageData2 = ctx2.getImageData(0, 0, width, height)
+
+    const result = await runWorkerDiff(
+      {
+        imageData1: imageData1.data,
+        imageData2: imageData2.data,
+        options: toPlainOptions(options),
+        width,
+        height,
+      },
+      [imageData1.data.buffer, imageData2.data.buffer],
+      width,
+      height,
+      diffCanvas,
+      options
+    )
+    return { ...result, registration }
+  }
+
   /**
    * Terminate the worker
    */
@@ -174,6 +347,7 @@ export function usePdfDiffWorker() {
 
   return {
     comparePdfsAsync,
+    compareBitmapsAsync,
     isProcessing: readonly(isProcessing),
     terminateWorker,
   }
@@ -1,7 +1,8 @@
 import { logger } from '~/utils/logger'
 import { createTwoFilesPatch } from 'diff'
 import { handleError } from '~/utils/errorHandler'
-import { loadPdfJs } from '~/utils/pdfjs-loader'
+import { isPasswordProtected, loadPdfDocument } from './usePdfPasswords'
+import { getFileHash, getPersistentCache } from '~/utils/persistent-cache'
 
 export interface PdfMetadataInfo {
   Title?: string
@@ -94,6 +95,20 @@ export const usePdfMetadata = () => {
     return `${file.name}:${file.size}:${file.lastModified}`
   }
 
+  /**
+   * Adds extracted metadata to the in-memory cache
+   */
+  const cacheMetadata = (cacheKey: string, metadata: PdfMetadata): number => {
+    const entrySize = estimateMetadataSize(metadata)
+    cacheByteSize += entrySize
+    metadataCache.set(cacheKey, metadata)
+    cacheAccessOrder.set(cacheKey, Date.now())
+
+    // Evict old entries if cache is too large
+    evictLRUEntries()
+    return entrySize
+  }
+
   /**
    * Extract metadata from a PDF file with caching
    */
@@ -109,12 +124,22 @@ export const usePdfMetadata = () => {
     }
 
     try {
-      // Lazy load PDF.js library
-      const pdfjsLib = await loadPdfJs()
+      // Then the persistent cache, keyed by content so renamed copies hit as well
+      // (password-protected documents are never persisted)
+      const persistentCache = isPasswordProtected(file) ? null : getPersistentCache()
+      const fileHash = persistentCache ? await getFileHash(file) : null
+      const persisted =
+        persistentCache && fileHash
+          ? await persistentCache.get<PdfMetadata>('metadata', fileHash)
+          : null
+      if (persisted) {
+        cacheMetadata(cacheKey, persisted)
+        logger.log('Using persisted metadata for:', file.name)
+        return persisted
+      }
 
-      const arrayBuffer = await file.arrayBuffer()
-      const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer })
-      const pdf = await loadingTask.promise
+      // Lazy loads PDF.js and asks for the password of protected PDFs
+      const pdf = await loadPdfDocument(file)
 
       const { info, metadata } = await pdf.getMetadata()
 
@@ -149,13 +174,17 @@ export const usePdfMetadata = () => {
       }
 
       // Store in cache with LRU tracking
-      const entrySize = estimateMetadataSize(result)
-      cacheByteSize += entrySize
-      metadataCache.set(cacheKey, result)
-      cacheAccessOrder.set(cacheKey, Date.now())
-
-      // Evict old entries if cache is too large
-      evictLRUEntries()
+      const entrySize = cacheMetadata(cacheKey, result)
+
+      // Persist without the PDF.js metadata object, which cannot be stored
+      if (persistentCache && fileHash && !isPasswordProtected(file)) {
+        persistentCache.put(
+          'metadata',
+          fileHash,
+          { ...result, raw: { info, metadata: null } },
+          entrySize
+        )
+      }
 
       logger.log(
         `Cached metadata for: ${file.name} (size: ${(entrySize / 1024).toFixed(1)}KB, total cache: ${(cacheByteSize / 1024).toFixed(1)}KB)`
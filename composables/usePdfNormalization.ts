@@ -3,6 +3,13 @@
  * Handles PDFs with different dimensions/trim boxes by aligning and scaling appropriately
  */
 
+import {
+  type Registration,
+  REGISTRATION_SAMPLE_SIZE,
+  drawRegistrationSample,
+  placeRegisteredPage,
+  registerPages,
+} from '~/lib/imageRegistration'
 import { getCanvasPool } from '~/utils/canvas-pool'
 
 export interface NormalizedDimensions {
@@ -14,7 +21,17 @@ export interface NormalizedDimensions {
 }
 
 export type NormalizationStrategyType = 'largest' | 'smallest' | 'first' | 'second' | 'custom'
-export type AlignmentType = 'top-left' | 'center' | 'top-center'
+// 'auto' registers PDF 2 onto PDF 1 (shift and small scale) from the rendered pages
+export type AlignmentType = 'top-left' | 'center' | 'top-center' | 'auto'
+
+// Anything with a size, e.g. a canvas or the dimensions of a page that is rendered in tiles
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+// A rendered page to register
+export type RegistrationSource = (HTMLCanvasElement | ImageBitmap) & ImageSize
 
 export interface NormalizationStrategy {
   type: NormalizationStrategyType
@@ -26,11 +43,14 @@ export interface NormalizationStrategy {
 export function usePdfNormalization() {
   /**
    * Calculate normalized dimensions for two canvases
+   * @param registration - Placement of PDF 2 found by estimateRegistration, applied with the
+   *                       'auto' alignment
    */
   const calculateNormalizedDimensions = (
-    canvas1: HTMLCanvasElement,
-    canvas2: HTMLCanvasElement,
-    strategy: NormalizationStrategy
+    canvas1: ImageSize,
+    canvas2: ImageSize,
+    strategy: NormalizationStrategy,
+    registration?: Registration | null
   ): {
     targetWidth: number
     targetHeight: number
@@ -66,7 +86,11 @@ export function usePdfNormalization() {
     // Calculate transforms for each canvas
     const canvas1Transform = calculateTransform(canvas1, targetWidth, targetHeight, strategy)
 
-    const canvas2Transform = calculateTransform(canvas2, targetWidth, targetHeight, strategy)
+    // A registered PDF 2 is placed relative to PDF 1, wherever that ended up
+    const canvas2Transform =
+      strategy.alignment === 'auto' && registration
+        ? placeRegisteredPage(canvas1Transform, canvas2, registration)
+        : calculateTransform(canvas2, targetWidth, targetHeight, strategy)
 
     return {
       targetWidth,
@@ -80,7 +104,7 @@ export function usePdfNormalization() {
    * Calculate transform for a single canvas
    */
   const calculateTransform = (
-    canvas: HTMLCanvasElement,
+    canvas: ImageSize,
     targetWidth: number,
     targetHeight: number,
     strategy: NormalizationStrategy
@@ -110,6 +134,7 @@ export function usePdfNormalization() {
         offsetY = 0
         break
       case 'top-left':
+      case 'auto': // Without a registration (or for PDF 1), pages start at the top-left
       default:
         offsetX = 0
         offsetY = 0
@@ -131,13 +156,14 @@ export function usePdfNormalization() {
   const normalizeCanvases = (
     canvas1: HTMLCanvasElement,
     canvas2: HTMLCanvasElement,
-    strategy: NormalizationStrategy
+    strategy: NormalizationStrategy,
+    registration?: Registration | null
   ): {
     normalizedCanvas1: HTMLCanvasElement
     normalizedCanvas2: HTMLCanvasElement
     dimensions: ReturnType<typeof calculateNormalizedDimensions>
   } => {
-    const dimensions = calculateNormalizedDimensions(canvas1, canvas2, strategy)
+    const dimensions = calculateNormalizedDimensions(canvas1, canvas2, strategy, registration)
 
     // Get canvas pool for reusable canvases (20-30% memory reduction)
     const pool = getCanvasPool()
@@ -174,9 +200,41 @@ export function usePdfNormalization() {
     }
   }
 
+  /**
+   * Whether one page is portrait and the other landscape (square pages match either)
+   */
+  const isOrientationSwapped = (size1: ImageSize, size2: ImageSize): boolean => {
+    const orientation = (size: ImageSize) => Math.sign(size.width - size.height)
+    return orientation(size1) * orientation(size2) < 0
+  }
+
+  /**
+   * Estimates how PDF 2 is shifted and scaled against PDF 1, for the 'auto' alignment
+   * Samples the pages through pooled canvases; the diff worker registers bitmaps itself.
+   * @returns The registration in pixels of the renders, or null if the pages do not match
+   */
+  const estimateRegistration = (
+    source1: RegistrationSource,
+    source2: RegistrationSource
+  ): Registration | null => {
+    const pool = getCanvasPool()
+    const canvas = pool.acquire(REGISTRATION_SAMPLE_SIZE, REGISTRATION_SAMPLE_SIZE)
+    try {
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) throw new Error('Failed to get canvas context for registration')
+      return registerPages(source1, source2, (page, scale, offsetX, offsetY) =>
+        drawRegistrationSample(ctx, page, scale, offsetX, offsetY)
+      )
+    } finally {
+      pool.release(canvas)
+    }
+  }
+
   return {
     calculateNormalizedDimensions,
     calculateTransform,
     normalizeCanvases,
+    isOrientationSwapped,
+    estimateRegistration,
   }
 }
@@ -0,0 +1,148 @@
+import { computed, shallowRef } from 'vue'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { loadPdfJs } from '~/utils/pdfjs-loader'
+import { logger } from '~/utils/logger'
+
+// A password prompt waiting for the user
+export interface PasswordRequest {
+  file: File
+  incorrect: boolean // True when the previous password was wrong
+}
+
+interface PendingPasswordRequest extends PasswordRequest {
+  promise: Promise<string | null>
+  resolve: (password: string | null) => void
+}
+
+// Passwords of unlocked documents, by file. Kept in memory only: never persisted,
+// and gone with the file once it is replaced
+const passwords = new WeakMap<File, string>()
+
+// Open prompts (at most one per file, shared by every load of that file)
+const pendingRequests = shallowRef<PendingPasswordRequest[]>([])
+
+/**
+ * Gets the password a document was unlocked with
+ * @returns The password, or undefined if the document has none (or is still locked)
+ */
+export const getDocumentPassword = (file: File): string | undefined => passwords.get(file)
+
+/**
+ * Whether a document was unlocked with a password; the contents of such documents
+ * must not be written to the persistent cache
+ */
+export const isPasswordProtected = (file: File): boolean => passwords.has(file)
+
+/**
+ * Asks the user for the password of a document, joining an open prompt for the same file
+ * @returns The password, or null if the user cancelled
+ */
+const requestPassword = (file: File, incorrect: boolean): Promise<string | null> => {
+  const pending = pendingRequests.value.find((request) => request.file === file)
+  if (pending) return pending.promise
+
+  let resolve!: (password: string | null) => void
+  const promise = new Promise<string | null>((r) => {
+    resolve = r
+  })
+  pendingRequests.value = [...pendingRequests.value, { file, incorrect, promise, resolve }]
+  return promise
+}
+
+/**
+ * Answers the open prompt for a document
+ */
+const answerPasswordRequest = (file: File, password: string | null) => {
+  const pending = pendingRequests.value.find((request) => request.file === file)
+  if (!pending) return
+
+  pendingRequests.value = pendingRequests.value.filter((request) => request !== pending)
+  pending.resolve(password)
+}
+
+/**
+ * Loads a PDF document with PDF.js, asking for the password of protected documents
+ * A document is only asked for once: later loads reuse the password given. A wrong
+ * password is asked for again.
+ * @param file - The PDF file to load
+ * @throws Error mentioning the password if the user cancels the prompt
+ */
+export const loadPdfDocument = async (file: File): Promise<PDFDocumentProxy> => {
+  const pdfjsLib = await loadPdfJs()
+  const data = await file.arrayBuffer()
+
+  let triedPassword = passwords.get(file)
+  const loadingTask = pdfjsLib.getDocument({ data, password: triedPassword })
+
+  const cancelled = new Promise<never>((_resolve, reject) => {
+    loadingTask.onPassword = async (updatePassword: (password: string) => void, reason: number) => {
+      // Another load of the same file may have been unlocked in the meantime
+      const knownPassword = passwords.get(file)
+      if (knownPassword !== undefined && knownPassword !== triedPassword) {
+        triedPassword = knownPassword
+        updatePassword(knownPassword)
+        return
+      }
+
+      const incorrect = reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD
+      if (incorrect) {
+        passwords.delete(file)
+        logger.log('Incorrect password for:', file.name)
+      }
+
+      const password = await requestPassword(file, incorrect)
+      if (password === null) {
+        reject(new Error('No password given for password-protected PDF'))
+        loadingTask.destroy()
+        return
+      }
+
+      triedPassword = password
+      passwords.set(file, password)
+      updatePassword(password)
+    }
+  })
+
+  return Promise.race([loadingTask.promise, cancelled])
+}
+
+/**
+ * Composable for the password prompts of protected PDFs
+ * Loads anywhere in the app (renderers, metadata) ask through here; a dialog answers
+ */
+export function usePdfPasswords() {
+  // Open prompts, without their internals
+  const passwordRequests = computed<PasswordRequest[]>(() =>
+    pendingRequests.value.map(({ file, incorrect }) => ({ file, incorrect }))
+  )
+
+  /**
+   * Answers the prompt for a document with a password
+   */
+  const submitPassword = (file: File, password: string) => {
+    answerPasswordRequest(file, password)
+  }
+
+  /**
+   * Cancels the prompt for a document, failing the loads waiting for it
+   */
+  const cancelPasswordRequest = (file: File) => {
+    answerPasswordRequest(file, null)
+  }
+
+  /**
+   * Opens a document once, so its password (if any) is asked for up front
+   * @throws Error mentioning the password if the user cancels the prompt
+   */
+  const unlockPdf = async (file: File): Promise<void> => {
+    const pdf = await loadPdfDocument(file)
+    await pdf.destroy()
+  }
+
+  return {
+    passwordRequests,
+    submitPassword,
+    cancelPasswordRequest,
+    unlockPdf,
+  }
+}
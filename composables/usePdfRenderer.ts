@@ -1,16 +1,31 @@
 import { ref, shallowRef, markRaw, onBeforeUnmount, readonly } from 'vue'
 import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist'
+import type { AnnotationRect, PdfAnnotation } from '~/lib/annotationDiff'
+import { type FormFieldType, type FormWidget, formatFieldValue } from '~/lib/formFieldDiff'
+import { getDocumentPassword, isPasswordProtected, loadPdfDocument } from './usePdfPasswords'
 import { logger } from '~/utils/logger'
 import { handleError } from '~/utils/errorHandler'
+import {
+  type PageRenderParams,
+  type WorkerRenderTask,
+  getPdfRenderClient,
+} from '~/utils/pdf-render-client'
+import { getCanvasPool } from '~/utils/canvas-pool'
 import { loadPdfJs } from '~/utils/pdfjs-loader'
+import { canvasToBlob, getFileHash, getPersistentCache } from '~/utils/persistent-cache'
 
 // Maximum number of PDFs to cache (LRU eviction)
 const MAX_CACHE_SIZE = 10
-// Maximum number of rendered bitmaps to cache per PDF (zoom levels)
-const MAX_BITMAPS_PER_PDF = 3
+// Maximum number of rendered bitmaps to cache per page (zoom levels)
+const MAX_BITMAPS_PER_PAGE = 3
+// Maximum number of distinct pages with cached bitmaps (LRU eviction across all PDFs)
+const MAX_BITMAP_PAGES = 20
 // Maximum canvas dimensions to prevent memory issues with very large PDFs
-const MAX_CANVAS_DIMENSION = 4096 // 4096x4096 is ~64MB for RGBA
-const MAX_CANVAS_PIXELS = 16 * 1024 * 1024 // 16 megapixels
+// (pages beyond these limits are compared tile by tile at full scale)
+export const MAX_CANVAS_DIMENSION = 4096 // 4096x4096 is ~64MB for RGBA
+export const MAX_CANVAS_PIXELS = 16 * 1024 * 1024 // 16 megapixels
+// Render scale for page thumbnails and page fingerprints
+export const THUMBNAIL_SCALE = 0.25
 
 // Bitmap cache entry structure
 interface BitmapCacheEntry {
@@ -21,23 +36,121 @@ interface BitmapCacheEntry {
   timestamp: number
 }
 
+// Cached PDF document with its lazily loaded pages
+interface PdfCacheEntry {
+  pdf: PDFDocumentProxy
+  pages: Map<number, PDFPageProxy>
+}
+
+/**
+ * Builds the cache key identifying a PDF file
+ */
+const getFileCacheKey = (file: File): string => file.name + file.size + file.lastModified
+
+// An optional content group (layer) of a PDF
+export interface PdfLayer {
+  id: string
+  name: string
+  visible: boolean // Visibility set by the document
+}
+
+// Layer visibility chosen by the user, by layer id; unlisted layers keep the document's setting
+export type LayerVisibility = Record<string, boolean>
+
+/**
+ * Builds a stable signature of layer visibility overrides ('' for none)
+ */
+export const getLayerSignature = (layers?: LayerVisibility): string =>
+  layers
+    ? Object.keys(layers)
+        .sort()
+        .map((id) => `${id}:${layers[id] ? 1 : 0}`)
+        .join(',')
+    : ''
+
+// How a page is drawn, on top of page, scale and size
+export interface PageRenderOptions {
+  layers?: LayerVisibility // Layer visibility overrides (default: the document's visibility)
+  annotations?: boolean // Draw annotations such as comments, highlights and stamps (default: true)
+  rotation?: number // Clockwise degrees (0, 90, 180 or 270) added to the page's own rotation
+}
+
+/**
+ * Normalizes a rotation in degrees to 0, 90, 180 or 270
+ */
+export const normalizeRotation = (degrees: number): number =>
+  (((Math.round(degrees / 90) * 90) % 360) + 360) % 360
+
+/**
+ * Builds a stable signature of render options ('' for the defaults)
+ */
+export const getRenderSignature = (options?: PageRenderOptions): string => {
+  const parts = [getLayerSignature(options?.layers)]
+  if (options?.annotations === false) parts.push('no-annotations')
+  const rotation = normalizeRotation(options?.rotation ?? 0)
+  if (rotation !== 0) parts.push(`rot${rotation}`)
+  return parts.filter(Boolean).join('~')
+}
+
+/**
+ * Builds the bitmap cache key for a single page of a PDF (with the given render options)
+ */
+const getBitmapCacheKey = (
+  fileKey: string,
+  pageNumber: number,
+  options?: PageRenderOptions
+): string => {
+  const signature = getRenderSignature(options)
+  return signature ? `${fileKey}#${pageNumber}~${signature}` : `${fileKey}#${pageNumber}`
+}
+
+/**
+ * Gets the rotation of a page as displayed: its own /Rotate plus the requested extra rotation
+ */
+const getViewportRotation = (page: PDFPageProxy, rotation = 0): number =>
+  normalizeRotation(page.rotate + rotation)
+
+/**
+ * Maps the widget data of PDF.js to a form field type
+ */
+const getFormFieldType = (widget: {
+  fieldType?: string | null
+  checkBox?: boolean
+  radioButton?: boolean
+}): FormFieldType => {
+  switch (widget.fieldType) {
+    case 'Tx':
+      return 'text'
+    case 'Btn':
+      if (widget.checkBox) return 'checkbox'
+      return widget.radioButton ? 'radio' : 'button'
+    case 'Ch':
+      return 'choice'
+    case 'Sig':
+      return 'signature'
+    default:
+      return 'unknown'
+  }
+}
+
 export const usePdfRenderer = () => {
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
   // Cache for loaded PDF documents to avoid reloading on zoom change
   // Use shallowRef to avoid deep reactivity on PDF.js objects
-  const pdfCache = shallowRef<Map<string, { pdf: PDFDocumentProxy; page: PDFPageProxy }>>(new Map())
+  const pdfCache = shallowRef<Map<string, PdfCacheEntry>>(new Map())
 
   // Track access order for LRU eviction (most recently used = end of array)
   const cacheAccessOrder = ref<string[]>([])
 
   // Cache for rendered bitmaps to avoid re-rendering at same zoom
-  // Key: PDF cache key, Value: array of bitmap entries (LRU sorted)
+  // Key: PDF cache key + page number, Value: array of bitmap entries (LRU sorted)
+  // Map insertion order doubles as page-level LRU order (most recently used = last)
   const bitmapCache = shallowRef<Map<string, BitmapCacheEntry[]>>(new Map())
 
-  // Track current render task for cancellation
-  let currentRenderTask: RenderTask | null = null
+  // Track current render task for cancellation (main thread or render worker)
+  let currentRenderTask: RenderTask | WorkerRenderTask | null = null
 
   /**
    * Rounds scale to zoom buckets (25% increments) to increase cache hits
@@ -101,7 +214,13 @@ export const usePdfRenderer = () => {
     const entries = bitmapCache.value.get(key)
     if (!entries) return null
 
-    return entries.find((entry) => entry.scale === bucketScale) || null
+    const entry = entries.find((e) => e.scale === bucketScale) || null
+    if (entry) {
+      // Move page to the end of the LRU order
+      bitmapCache.value.delete(key)
+      bitmapCache.value.set(key, entries)
+    }
+    return entry
   }
 
   /**
@@ -126,8 +245,10 @@ export const usePdfRenderer = () => {
     let entries = bitmapCache.value.get(key)
     if (!entries) {
       entries = []
-      bitmapCache.value.set(key, entries)
     }
+    // (Re-)insert so the page becomes the most recently used
+    bitmapCache.value.delete(key)
+    bitmapCache.value.set(key, entries)
 
     // Remove existing entry for this scale if present
     const existingIndex = entries.findIndex((e) => e.scale === bucketScale)
@@ -143,12 +264,66 @@ export const usePdfRenderer = () => {
     entries.sort((a, b) => a.timestamp - b.timestamp)
 
     // Evict oldest if over limit
-    while (entries.length > MAX_BITMAPS_PER_PDF) {
+    while (entries.length > MAX_BITMAPS_PER_PAGE) {
       const oldest = entries.shift()
       if (oldest) {
         oldest.bitmap.close()
       }
     }
+
+    // Evict least recently used pages if too many pages are cached
+    while (bitmapCache.value.size > MAX_BITMAP_PAGES) {
+      const lruKey = bitmapCache.value.keys().next().value as string
+      bitmapCache.value.get(lruKey)?.forEach((e) => e.bitmap.close())
+      bitmapCache.value.delete(lruKey)
+    }
+  }
+
+  /**
+   * Looks up a page render in the persistent cache, which survives reloads
+   * @returns The decoded render, or null on a miss or where the cache is unavailable
+   */
+  const loadPersistedBitmap = async (
+    file: File,
+    pageNumber: number,
+    scale: number,
+    options?: PageRenderOptions
+  ): Promise<ImageBitmap | null> => {
+    const cache = getPersistentCache()
+    if (!cache || isPasswordProtected(file)) return null
+
+    try {
+      const pageKey = getBitmapCacheKey(await getFileHash(file), pageNumber, options)
+      const key = `${pageKey}@${roundToZoomBucket(scale)}`
+      const blob = await cache.get<Blob>('bitmap', key)
+      return blob ? await createImageBitmap(blob) : null
+    } catch (err) {
+      logger.warn('Failed to restore persisted page render:', err)
+      return null
+    }
+  }
+
+  /**
+   * Stores a page render in the persistent cache in the background
+   * @param canvas - Canvas holding the render (captured immediately)
+   */
+  const persistBitmap = (
+    file: File,
+    pageNumber: number,
+    scale: number,
+    options: PageRenderOptions | undefined,
+    canvas: HTMLCanvasElement
+  ) => {
+    // Pages of password-protected documents never leave memory
+    const cache = getPersistentCache()
+    if (!cache || isPasswordProtected(file)) return
+
+    Promise.all([canvasToBlob(canvas), getFileHash(file)])
+      .then(([blob, hash]) => {
+        const key = `${getBitmapCacheKey(hash, pageNumber, options)}@${roundToZoomBucket(scale)}`
+        return cache.put('bitmap', key, blob, blob.size)
+      })
+      .catch((err) => logger.warn('Failed to persist page render:', err))
   }
 
   /**
@@ -166,11 +341,13 @@ export const usePdfRenderer = () => {
     }
     pdfCache.value.delete(key)
 
-    // Clear bitmap cache for this PDF
-    const bitmaps = bitmapCache.value.get(key)
-    if (bitmaps) {
-      bitmaps.forEach((entry) => entry.bitmap.close())
-      bitmapCache.value.delete(key)
+    // Clear bitmap cache for all pages of this PDF
+    const pagePrefix = `${key}#`
+    for (const [bitmapKey, bitmaps] of [...bitmapCache.value.entries()]) {
+      if (bitmapKey.startsWith(pagePrefix)) {
+        bitmaps.forEach((entry) => entry.bitmap.close())
+        bitmapCache.value.delete(bitmapKey)
+      }
     }
 
     // Remove from access order tracking
@@ -194,15 +371,139 @@ export const usePdfRenderer = () => {
   }
 
   /**
-   * Renders the first page of a PDF file to a canvas element
+   * Loads a PDF document, reusing the cached instance when available
+   * @param file - The PDF file to load
+   */
+  const loadDocument = async (file: File): Promise<PdfCacheEntry> => {
+    const cacheKey = getFileCacheKey(file)
+
+    // Check if PDF is already loaded in cache
+    const cached = pdfCache.value.get(cacheKey)
+    if (cached) {
+      logger.log('Using cached PDF document')
+      // Update LRU tracking
+      touchCacheEntry(cacheKey)
+      return cached
+    }
+
+    // Load the PDF document (lazy loads PDF.js and asks for the password of protected PDFs)
+    const pdf = await loadPdfDocument(file)
+    logger.log('PDF loaded, pages:', pdf.numPages)
+
+    // Check if cache is full and evict LRU entry
+    if (pdfCache.value.size >= MAX_CACHE_SIZE && cacheAccessOrder.value.length > 0) {
+      const lruKey = cacheAccessOrder.value[0] // Least recently used is at start
+      logger.log('Cache full, evicting LRU PDF:', lruKey)
+      evictPdf(lruKey)
+    }
+
+    // Cache the PDF with markRaw to prevent Vue reactivity issues
+    const entry: PdfCacheEntry = { pdf: markRaw(pdf), pages: new Map() }
+    pdfCache.value.set(cacheKey, entry)
+
+    // Track in LRU order
+    touchCacheEntry(cacheKey)
+
+    return entry
+  }
+
+  /**
+   * Loads a single page of a PDF, reusing the cached page when available
+   * @param file - The PDF file
+   * @param pageNumber - 1-based page number
+   */
+  const loadPage = async (file: File, pageNumber: number): Promise<PDFPageProxy> => {
+    const cached = await loadDocument(file)
+
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > cached.pdf.numPages) {
+      throw new Error(`Page ${pageNumber} is out of range (1-${cached.pdf.numPages})`)
+    }
+
+    let page = cached.pages.get(pageNumber)
+    if (!page) {
+      page = markRaw(await cached.pdf.getPage(pageNumber))
+      cached.pages.set(pageNumber, page)
+      logger.log(`Page ${pageNumber} loaded`)
+    }
+
+    return page
+  }
+
+  /**
+   * Builds the optional content config of a render with the chosen layer visibility
+   * @returns The config for page.render, or undefined to render with the document's visibility
+   */
+  const getOptionalContentConfig = async (
+    file: File,
+    layers?: LayerVisibility
+  ): Promise<Awaited<ReturnType<PDFDocumentProxy['getOptionalContentConfig']>> | undefined> => {
+    if (!layers || !getLayerSignature(layers)) return undefined
+
+    const { pdf } = await loadDocument(file)
+    const config = await pdf.getOptionalContentConfig()
+    for (const [id, visible] of Object.entries(layers)) {
+      config.setVisibility(id, visible)
+    }
+    return config
+  }
+
+  /**
+   * Picks the PDF.js annotation mode of a render
+   * Annotations are drawn from their appearance streams, form fields included
+   */
+  const getAnnotationMode = async (options?: PageRenderOptions): Promise<number> => {
+    const { AnnotationMode } = await loadPdfJs()
+    return options?.annotations === false ? AnnotationMode.DISABLE : AnnotationMode.ENABLE
+  }
+
+  /**
+   * Renders a page in the render worker, off the main thread
+   * @returns The rendered bitmap, or null if the worker is unavailable or failed,
+   *          in which case the caller renders on the main thread instead
+   */
+  const renderInWorker = async (
+    file: File,
+    params: PageRenderParams
+  ): Promise<ImageBitmap | null> => {
+    const client = getPdfRenderClient()
+    if (!client) return null
+
+    const task = client.render(file, getFileCacheKey(file), {
+      ...params,
+      password: getDocumentPassword(file),
+    })
+    currentRenderTask = task
+
+    try {
+      return await task.promise
+    } catch (err) {
+      // Cancellation is handled by the caller, like a cancelled PDF.js render
+      if (err instanceof Error && err.name === 'RenderingCancelledException') {
+        throw err
+      }
+      logger.warn('Worker render failed, rendering on the main thread:', err)
+      return null
+    } finally {
+      if (currentRenderTask === task) {
+        currentRenderTask = null
+      }
+    }
+  }
+
+  /**
+   * Renders a page of a PDF file to a canvas element
    * @param file - The PDF file to render
    * @param canvas - The canvas element to render to
    * @param scale - Scale factor for rendering (default: 1.5)
+   * @param pageNumber - 1-based page number to render (default: 1)
+   * @param options - Layers, annotations and extra rotation (default: as the document says)
    */
   const renderPdfToCanvas = async (
     file: File,
     canvas: HTMLCanvasElement,
-    scale: number = 1.5
+    scale: number = 1.5,
+    pageNumber: number = 1,
+    options?: PageRenderOptions
   ): Promise<void> => {
     // Cancel any in-progress render
     if (currentRenderTask) {
@@ -219,13 +520,12 @@ export const usePdfRenderer = () => {
     error.value = null
 
     try {
-      logger.log('Starting PDF render for:', file.name, 'at scale:', scale)
+      logger.log('Starting PDF render for:', file.name, 'page:', pageNumber, 'at scale:', scale)
 
-      let pdf, page
-      const cacheKey = file.name + file.size + file.lastModified
+      const bitmapKey = getBitmapCacheKey(getFileCacheKey(file), pageNumber, options)
 
       // Check bitmap cache first (fastest path - 5-20× faster than PDF.js render)
-      const cachedBitmap = findCachedBitmap(cacheKey, scale)
+      const cachedBitmap = findCachedBitmap(bitmapKey, scale)
       if (cachedBitmap) {
         logger.log('Bitmap cache HIT for scale:', scale, '(bucket:', cachedBitmap.scale, ')')
 
@@ -250,49 +550,30 @@ export const usePdfRenderer = () => {
 
       logger.log('Bitmap cache MISS - will render via PDF.js and cache result')
 
-      // Lazy load PDF.js library (only when actually needed)
-      const pdfjsLib = await loadPdfJs()
-      logger.log('PDF.js library loaded')
+      // Then the persistent cache, filled by earlier sessions
+      const persistedBitmap = await loadPersistedBitmap(file, pageNumber, scale, options)
+      if (persistedBitmap) {
+        canvas.width = persistedBitmap.width
+        canvas.height = persistedBitmap.height
 
-      // Check if PDF is already loaded in cache
-      if (pdfCache.value.has(cacheKey)) {
-        logger.log('Using cached PDF document')
-        const cached = pdfCache.value.get(cacheKey)!
-        pdf = cached.pdf
-        page = cached.page
-
-        // Update LRU tracking
-        touchCacheEntry(cacheKey)
-      } else {
-        // Convert file to ArrayBuffer
-        const arrayBuffer = await file.arrayBuffer()
-        logger.log('ArrayBuffer created, size:', arrayBuffer.byteLength)
-
-        // Load the PDF document
-        const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer })
-        pdf = await loadingTask.promise
-        logger.log('PDF loaded, pages:', pdf.numPages)
-
-        // Get the first page
-        page = await pdf.getPage(1)
-        logger.log('Page 1 loaded')
-
-        // Check if cache is full and evict LRU entry
-        if (pdfCache.value.size >= MAX_CACHE_SIZE && cacheAccessOrder.value.length > 0) {
-          const lruKey = cacheAccessOrder.value[0] // Least recently used is at start
-          logger.log('Cache full, evicting LRU PDF:', lruKey)
-          evictPdf(lruKey)
+        const context = canvas.getContext('2d')
+        if (!context) {
+          throw new Error('Failed to get canvas 2d context')
         }
 
-        // Cache the PDF and page with markRaw to prevent Vue reactivity issues
-        pdfCache.value.set(cacheKey, { pdf: markRaw(pdf), page: markRaw(page) })
+        context.clearRect(0, 0, canvas.width, canvas.height)
+        context.drawImage(persistedBitmap, 0, 0)
+        await cacheBitmap(bitmapKey, persistedBitmap, scale, canvas.width, canvas.height)
 
-        // Track in LRU order
-        touchCacheEntry(cacheKey)
+        logger.log('Bitmap restored from persistent cache for scale:', scale)
+        return
       }
 
-      // Calculate viewport with the specified scale
-      const viewport = page.getViewport({ scale })
+      const page = await loadPage(file, pageNumber)
+
+      // Calculate viewport with the specified scale and rotation
+      const rotation = getViewportRotation(page, options?.rotation)
+      const viewport = page.getViewport({ scale, rotation })
       logger.log('Viewport:', viewport.width, 'x', viewport.height)
 
       // Cap canvas dimensions to prevent memory issues
@@ -304,7 +585,7 @@ export const usePdfRenderer = () => {
 
       if (wasCapped) {
         logger.warn(
-          'Large PDF detected - canvas size has been reduced to prevent browser memory issues. Some quality may be lost.'
+          'Large PDF detected - preview canvas size has been reduced to prevent browser memory issues. The comparison runs tile by tile at full scale.'
         )
       }
 
@@ -321,17 +602,39 @@ export const usePdfRenderer = () => {
       // Clear canvas before rendering
       context.clearRect(0, 0, canvas.width, canvas.height)
 
-      // If dimensions were capped, we need to use a scaled viewport
+      // If dimensions were capped, we need to render at a reduced scale
+      const renderScale = wasCapped ? scale * (cappedWidth / viewport.width) : scale
+
+      // Rasterize in the render worker where supported; the bitmap goes straight to the cache
+      const workerBitmap = await renderInWorker(file, {
+        pageNumber,
+        scale: renderScale,
+        width: canvas.width,
+        height: canvas.height,
+        layers: options?.layers,
+        annotations: options?.annotations,
+        rotation: options?.rotation,
+      })
+      if (workerBitmap) {
+        context.drawImage(workerBitmap, 0, 0)
+        await cacheBitmap(bitmapKey, workerBitmap, scale, canvas.width, canvas.height)
+        persistBitmap(file, pageNumber, scale, options, canvas)
+        logger.log('PDF rendered in worker and cached for scale:', scale)
+        return
+      }
+
       const renderViewport = wasCapped
-        ? page.getViewport({
-            scale: scale * (cappedWidth / viewport.width),
-          })
+        ? page.getViewport({ scale: renderScale, rotation })
         : viewport
 
-      // Render the page
+      // Render the page (with the chosen layers and annotations)
+      const optionalContentConfig = await getOptionalContentConfig(file, options?.layers)
       const renderContext = {
         canvasContext: context,
         viewport: renderViewport,
+        annotationMode: await getAnnotationMode(options),
+        optionalContentConfigPromise:
+          optionalContentConfig && Promise.resolve(optionalContentConfig),
       }
 
       // Start rendering and track the task
@@ -344,7 +647,8 @@ export const usePdfRenderer = () => {
       // Create ImageBitmap from canvas and cache it for future use
       try {
         const bitmap = await createImageBitmap(canvas)
-        await cacheBitmap(cacheKey, bitmap, scale, canvas.width, canvas.height)
+        await cacheBitmap(bitmapKey, bitmap, scale, canvas.width, canvas.height)
+        persistBitmap(file, pageNumber, scale, options, canvas)
         logger.log('Bitmap cached for scale:', scale, '(bucket:', roundToZoomBucket(scale), ')')
       } catch (bitmapErr) {
         // Non-fatal: caching failed but render succeeded
@@ -362,6 +666,7 @@ export const usePdfRenderer = () => {
         file: file.name,
         fileSize: file.size,
         scale,
+        pageNumber,
         canvasDimensions: `${canvas.width}x${canvas.height}`,
       })
 
@@ -374,23 +679,301 @@ export const usePdfRenderer = () => {
   }
 
   /**
-   * Gets the dimensions of the first page of a PDF
+   * Renders a region of a page at full scale onto a canvas tile, without capping.
+   * The page is drawn with its top-left corner at (offsetX, offsetY) in canvas pixels;
+   * anything outside the canvas is clipped and existing canvas content outside the page
+   * is kept. Tiles are not bitmap-cached.
+   * @param file - The PDF file to render
+   * @param canvas - The tile canvas to render to (already sized)
+   * @param scale - Scale factor for rendering
+   * @param pageNumber - 1-based page number to render
+   * @param offsetX - Horizontal position of the page in the tile, in pixels
+   * @param offsetY - Vertical position of the page in the tile, in pixels
+   * @param options - Layers, annotations and extra rotation (default: as the document says)
+   */
+  const renderPdfTile = async (
+    file: File,
+    canvas: HTMLCanvasElement,
+    scale: number,
+    pageNumber: number,
+    offsetX: number,
+    offsetY: number,
+    options?: PageRenderOptions
+  ): Promise<void> => {
+    // Cancel any in-progress render
+    if (currentRenderTask) {
+      logger.log('Cancelling previous render task')
+      try {
+        await currentRenderTask.cancel()
+      } catch {
+        // Cancellation errors are expected, ignore them
+      }
+      currentRenderTask = null
+    }
+
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const context = canvas.getContext('2d')
+      if (!context) {
+        throw new Error('Failed to get canvas 2d context')
+      }
+
+      // Rendered with a transparent background, so drawing it keeps the padding colour
+      const workerBitmap = await renderInWorker(file, {
+        pageNumber,
+        scale,
+        width: canvas.width,
+        height: canvas.height,
+        offsetX,
+        offsetY,
+        transparent: true,
+        layers: options?.layers,
+        annotations: options?.annotations,
+        rotation: options?.rotation,
+      })
+      if (workerBitmap) {
+        context.drawImage(workerBitmap, 0, 0)
+        workerBitmap.close()
+        return
+      }
+
+      const page = await loadPage(file, pageNumber)
+      const rotation = getViewportRotation(page, options?.rotation)
+      const viewport = page.getViewport({ scale, offsetX, offsetY, rotation })
+      const optionalContentConfig = await getOptionalContentConfig(file, options?.layers)
+      const annotationMode = await getAnnotationMode(options)
+
+      // Transparent background so padding around the page keeps its fill colour
+      currentRenderTask = page.render({
+        canvasContext: context,
+        viewport,
+        annotationMode,
+        background: 'rgba(0, 0, 0, 0)',
+        optionalContentConfigPromise:
+          optionalContentConfig && Promise.resolve(optionalContentConfig),
+      })
+
+      await currentRenderTask.promise
+      currentRenderTask = null
+    } catch (err) {
+      // Tiles must not be diffed half-rendered, so cancellation is passed on to the caller
+      if (err instanceof Error && err.name === 'RenderingCancelledException') {
+        logger.log('Tile render was cancelled')
+        throw err
+      }
+
+      const appError = handleError(err as Error, {
+        file: file.name,
+        fileSize: file.size,
+        scale,
+        pageNumber,
+        canvasDimensions: `${canvas.width}x${canvas.height}`,
+      })
+
+      error.value = appError.userMessage
+      logger.error('PDF tile rendering error:', appError)
+      throw appError
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /**
+   * Renders a page to an ImageBitmap, e.g. to hand it to the diff worker without
+   * reading pixels on the main thread
+   * @param file - The PDF file to render
+   * @param scale - Scale factor for rendering (default: 1.5)
+   * @param pageNumber - 1-based page number, or null for a blank stand-in page (default: 1)
+   * @param options - Layers, annotations and extra rotation (default: as the document says)
+   * @returns Bitmap owned by the caller (close or transfer it when done)
+   */
+  const renderPageBitmap = async (
+    file: File,
+    scale: number = 1.5,
+    pageNumber: number | null = 1,
+    options?: PageRenderOptions
+  ): Promise<ImageBitmap> => {
+    const pool = getCanvasPool()
+    const canvas = pool.acquire(1, 1) // Size is set by the render
+
+    try {
+      if (pageNumber === null) {
+        await renderBlankPage(file, canvas, scale, options?.rotation)
+      } else {
+        await renderPdfToCanvas(file, canvas, scale, pageNumber, options)
+      }
+      return await createImageBitmap(canvas)
+    } finally {
+      pool.release(canvas)
+    }
+  }
+
+  /**
+   * Fills a canvas with a blank white page standing in for a page that does not
+   * exist in the document, sized like the document's last page
+   * @param file - The PDF file the page is missing from
+   * @param canvas - The canvas element to fill
+   * @param scale - Scale factor for dimensions (default: 1.5)
+   * @param rotation - Clockwise degrees added to the last page's own rotation (default: 0)
+   */
+  const renderBlankPage = async (
+    file: File,
+    canvas: HTMLCanvasElement,
+    scale: number = 1.5,
+    rotation: number = 0
+  ): Promise<void> => {
+    const pageCount = await getPageCount(file)
+    const { width, height } = await getPdfDimensions(file, scale, pageCount, rotation)
+
+    const capped = capCanvasDimensions(width, height)
+    canvas.width = capped.width
+    canvas.height = capped.height
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Failed to get canvas 2d context')
+    }
+
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  /**
+   * Gets the number of pages in a PDF
+   * @param file - The PDF file
+   * @returns Total page count
+   */
+  const getPageCount = async (file: File): Promise<number> => {
+    const { pdf } = await loadDocument(file)
+    return pdf.numPages
+  }
+
+  /**
+   * Gets the optional content groups (layers) of a PDF
+   * @param file - The PDF file
+   * @returns The layers with their default visibility, empty if the PDF has none
+   */
+  const getLayers = async (file: File): Promise<PdfLayer[]> => {
+    const { pdf } = await loadDocument(file)
+    const config = await pdf.getOptionalContentConfig()
+    const groups = config.getGroups() as Record<
+      string,
+      { name: string | null; visible: boolean }
+    > | null
+    if (!groups) return []
+
+    return Object.entries(groups).map(([id, group]) => ({
+      id,
+      name: group.name || id,
+      visible: group.visible,
+    }))
+  }
+
+  /**
+   * Gets the annotations of a page of a PDF (form fields and popups excluded)
+   * @param file - The PDF file
+   * @param pageNumber - 1-based page number
+   * @returns The annotations, in document order
+   */
+  const getPageAnnotations = async (file: File, pageNumber: number): Promise<PdfAnnotation[]> => {
+    const page = await loadPage(file, pageNumber)
+    const annotations = await page.getAnnotations()
+
+    return annotations
+      .filter((annotation) => !['Widget', 'Popup'].includes(annotation.subtype))
+      .map((annotation) => ({
+        id: String(annotation.id),
+        type: String(annotation.subtype),
+        author: annotation.titleObj?.str ?? '',
+        contents: annotation.contentsObj?.str ?? '',
+        rect: annotation.rect as AnnotationRect,
+        modified: annotation.modificationDate ?? null,
+      }))
+  }
+
+  /**
+   * Gets the form field widgets of all pages of a PDF
+   * Widget positions are given as fractions of their page as displayed (rotation included)
+   * @param file - The PDF file
+   * @returns The widgets, in page order (empty if the PDF has no form)
+   */
+  const getFormWidgets = async (file: File): Promise<FormWidget[]> => {
+    const { pdf } = await loadDocument(file)
+    const widgets: FormWidget[] = []
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await loadPage(file, pageNumber)
+      const viewport = page.getViewport({ scale: 1 })
+      const annotations = await page.getAnnotations()
+
+      for (const annotation of annotations) {
+        if (annotation.subtype !== 'Widget' || !annotation.fieldName) continue
+
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect)
+        widgets.push({
+          name: annotation.fieldName,
+          type: getFormFieldType(annotation),
+          value: formatFieldValue(annotation.fieldValue),
+          readOnly: !!annotation.readOnly,
+          required: !!annotation.required,
+          page: pageNumber,
+          box: {
+            x: Math.min(x1, x2) / viewport.width,
+            y: Math.min(y1, y2) / viewport.height,
+            width: Math.abs(x2 - x1) / viewport.width,
+            height: Math.abs(y2 - y1) / viewport.height,
+          },
+        })
+      }
+    }
+
+    return widgets
+  }
+
+  /**
+   * Extracts the plain text of a page of a PDF
+   * @param file - The PDF file
+   * @param pageNumber - 1-based page number
+   * @returns Text items of the page joined by spaces
+   */
+  const getPageText = async (file: File, pageNumber: number): Promise<string> => {
+    const page = await loadPage(file, pageNumber)
+    const content = await page.getTextContent()
+
+    return content.items.map((item) => ('str' in item ? item.str : '')).join(' ')
+  }
+
+  /**
+   * Renders a low-scale thumbnail of a page (served from the bitmap cache when possible)
+   * Calls on the same renderer instance must not overlap, as a new render cancels the previous one
+   * @param file - The PDF file
+   * @param pageNumber - 1-based page number
+   * @returns PNG data URL of the thumbnail
+   */
+  const getPageThumbnail = async (file: File, pageNumber: number): Promise<string> => {
+    const canvas = document.createElement('canvas')
+    await renderPdfToCanvas(file, canvas, THUMBNAIL_SCALE, pageNumber)
+    return canvas.toDataURL('image/png')
+  }
+
+  /**
+   * Gets the dimensions of a page of a PDF
    * @param file - The PDF file
    * @param scale - Scale factor for dimensions (default: 1.5)
+   * @param pageNumber - 1-based page number (default: 1)
+   * @param rotation - Clockwise degrees added to the page's own rotation (default: 0)
    * @returns Object with width and height
    */
   const getPdfDimensions = async (
     file: File,
-    scale: number = 1.5
+    scale: number = 1.5,
+    pageNumber: number = 1,
+    rotation: number = 0
   ): Promise<{ width: number; height: number }> => {
-    // Lazy load PDF.js library
-    const pdfjsLib = await loadPdfJs()
-
-    const arrayBuffer = await file.arrayBuffer()
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer })
-    const pdf = await loadingTask.promise
-    const page = await pdf.getPage(1)
-    const viewport = page.getViewport({ scale })
+    const page = await loadPage(file, pageNumber)
+    const viewport = page.getViewport({ scale, rotation: getViewportRotation(page, rotation) })
 
     return {
       width: viewport.width,
@@ -398,6 +981,17 @@ export const usePdfRenderer = () => {
     }
   }
 
+  /**
+   * Gets the rotation a PDF gives a page (its /Rotate entry, as applied by the viewport)
+   * @param file - The PDF file
+   * @param pageNumber - 1-based page number
+   * @returns Clockwise degrees: 0, 90, 180 or 270
+   */
+  const getPageRotation = async (file: File, pageNumber: number): Promise<number> => {
+    const page = await loadPage(file, pageNumber)
+    return page.getViewport({ scale: 1 }).rotation
+  }
+
   /**
    * Clears the PDF cache and properly destroys all PDFs to free memory
    */
@@ -447,7 +1041,17 @@ export const usePdfRenderer = () => {
 
   return {
     renderPdfToCanvas,
+    renderBlankPage,
+    renderPdfTile,
+    renderPageBitmap,
     getPdfDimensions,
+    getPageRotation,
+    getPageCount,
+    getLayers,
+    getPageAnnotations,
+    getFormWidgets,
+    getPageText,
+    getPageThumbnail,
     clearCache,
     isLoading: readonly(isLoading),
     error: readonly(error),
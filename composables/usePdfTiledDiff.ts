@@ -0,0 +1,504 @@
+import { ref, readonly } from 'vue'
+import type { DiffOptions } from './usePdfDiff'
+import { usePdfDiffWorker } from './usePdfDiffWorker'
+import {
+  type ImageSize,
+  type NormalizationStrategy,
+  type NormalizedDimensions,
+  usePdfNormalization,
+} from './usePdfNormalization'
+import {
+  type PageRenderOptions,
+  MAX_CANVAS_DIMENSION,
+  MAX_CANVAS_PIXELS,
+  usePdfRenderer,
+} from './usePdfRenderer'
+import {
+  type TileDiffResult,
+  type TileGrid,
+  type TileRect,
+  type TiledDiff,
+  DEFAULT_TILE_SIZE,
+  computeTileGrid,
+  exceedsCanvasLimits,
+  getCanvasFitScale,
+  mergeTileStats,
+} from '~/lib/tiling'
+import type { DiffRegion } from '~/lib/diffRegions'
+import type { DeltaStatistics } from '~/lib/deltaHistogram'
+import type { DensityGrid } from '~/lib/densityGrid'
+import {
+  computeDeltaHistogram,
+  resolveThreshold,
+  sumHistograms,
+  usesAutoThreshold,
+} from '~/lib/deltaHistogram'
+import { createIgnoreMask, cropIgnoreRegions } from '~/lib/ignoreMasks'
+import { getCanvasPool } from '~/utils/canvas-pool'
+import { logger } from '~/utils/logger'
+
+// The two pages to compare and how to compare them
+export interface TiledDiffRequest {
+  leftFile: File
+  rightFile: File
+  leftPage: number | null // null compares against a blank page
+  rightPage: number | null
+  scale: number
+  options: DiffOptions
+  strategy: NormalizationStrategy
+  leftRender?: PageRenderOptions // How each side is drawn (default: as the documents say)
+  rightRender?: PageRenderOptions
+}
+
+// Full-resolution layout of a tiled comparison
+export interface TileLayout extends TileGrid {
+  leftSize: ImageSize
+  rightSize: ImageSize
+  leftTransform: NormalizedDimensions
+  rightTransform: NormalizedDimensions
+}
+
+export interface TiledDiffResult extends TiledDiff {
+  differenceCount: number
+  totalPixels: number
+  percentDiff: number
+  ssim?: number // Mean structural similarity of the page (ssim mode)
+  regions?: DiffRegion[] // Clusters of changed pixels, in full-resolution pixels
+  rawDifferenceCount?: number // Before noise suppression
+  deltaHistogram?: number[] // Pixels of the page by delta
+  autoThreshold?: number // Threshold the 'auto' mode picked for the page, used by every tile
+  deltaStatistics?: DeltaStatistics // How strongly the changed pixels of the page differ
+  densityGrid?: DensityGrid // Changed pixels per grid cell, at full resolution
+  originalData: Uint8ClampedArray | null // Unhighlighted overview, when an overview was drawn
+}
+
+/**
+ * Composable for comparing pages that exceed the canvas limits
+ * Renders both pages tile by tile at full scale and diffs each tile pair in the worker,
+ * so memory use is bounded by the tile size rather than the page size
+ * @param renderer - Renderer to use for the tiles; tiles are rendered one after another
+ * @param compare - Worker comparison to diff each tile pair with
+ */
+export function usePdfTiledDiff(
+  renderer: ReturnType<typeof usePdfRenderer> = usePdfRenderer(),
+  compare: ReturnType<typeof usePdfDiffWorker>['comparePdfsAsync'] = usePdfDiffWorker()
+    .comparePdfsAsync,
+  tileSize: number = DEFAULT_TILE_SIZE
+) {
+  const isProcessing = ref(false)
+  const progress = ref(0) // 0-1, compared tiles of the current page
+
+  const { renderPdfTile, getPdfDimensions, getPageCount } = renderer
+  const { calculateNormalizedDimensions } = usePdfNormalization()
+
+  // Incremented per call; an older call stops once a newer one has started
+  let currentRun = 0
+
+  /**
+   * Gets the full-scale size of a page, or of the last page for a missing page
+   * (matching the blank stand-in drawn by renderBlankPage)
+   */
+  const getPageSize = async (
+    file: File,
+    page: number | null,
+    scale: number,
+    options?: PageRenderOptions
+  ): Promise<ImageSize> => {
+    const pageNumber = page ?? (await getPageCount(file))
+    return getPdfDimensions(file, scale, pageNumber, options?.rotation ?? 0)
+  }
+
+  /**
+   * Plans a tiled comparison of two pages
+   * @returns The tile layout, or null if the normalized pages fit in a single canvas
+   */
+  const getTileLayout = async (request: TiledDiffRequest): Promise<TileLayout | null> => {
+    const leftSize = await getPageSize(
+      request.leftFile,
+      request.leftPage,
+      request.scale,
+      request.leftRender
+    )
+    const rightSize = await getPageSize(
+      request.rightFile,
+      request.rightPage,
+      request.scale,
+      request.rightRender
+    )
+
+    const dimensions = calculateNormalizedDimensions(leftSize, rightSize, request.strategy)
+    if (
+      !exceedsCanvasLimits(
+        dimensions.targetWidth,
+        dimensions.targetHeight,
+        MAX_CANVAS_DIMENSION,
+        MAX_CANVAS_PIXELS
+      )
+    ) {
+      return null
+    }
+
+    return {
+      ...computeTileGrid(dimensions.targetWidth, dimensions.targetHeight, tileSize),
+      leftSize,
+      rightSize,
+      leftTransform: dimensions.canvas1Transform,
+      rightTransform: dimensions.canvas2Transform,
+    }
+  }
+
+  /**
+   * Renders the part of one (normalized) page that falls within a tile
+   */
+  const renderTileSide = async (
+    file: File,
+    page: number | null,
+    options: PageRenderOptions,
+    canvas: HTMLCanvasElement,
+    tile: TileRect,
+    transform: NormalizedDimensions,
+    request: TiledDiffRequest
+  ) => {
+    canvas.width = tile.width
+    canvas.height = tile.height
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Failed to get canvas 2d context for tile')
+    }
+
+    // Padding around the page, as in normalizeCanvases
+    ctx.fillStyle = request.strategy.backgroundColor
+    ctx.fillRect(0, 0, tile.width, tile.height)
+
+    // Position of the page within the tile
+    const x = transform.offsetX - tile.x
+    const y = transform.offsetY - tile.y
+    if (x >= tile.width || y >= tile.height || x + transform.width <= 0) return
+    if (y + transform.height <= 0) return
+
+    // White paper under the page content (and the blank stand-in for missing pages)
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(x, y, transform.width, transform.height)
+
+    if (page !== null) {
+      await renderPdfTile(file, canvas, request.scale * transform.scale, page, x, y, options)
+    }
+  }
+
+  /**
+   * Renders both sides of a tile pair at full scale
+   */
+  const renderTile = async (
+    request: TiledDiffRequest,
+    layout: TileLayout,
+    tile: TileRect,
+    canvas1: HTMLCanvasElement,
+    canvas2: HTMLCanvasElement
+  ) => {
+    await renderTileSide(
+      request.leftFile,
+      request.leftPage,
+      request.leftRender ?? {},
+      canvas1,
+      tile,
+      layout.leftTransform,
+      request
+    )
+    await renderTileSide(
+      request.rightFile,
+      request.rightPage,
+      request.rightRender ?? {},
+      canvas2,
+      tile,
+      layout.rightTransform,
+      request
+    )
+  }
+
+  /**
+   * Gets the options of a tile: ignore regions are drawn on the whole page, so they are mapped
+   * onto the tile
+   */
+  const getTileOptions = (options: DiffOptions, layout: TileLayout, tile: TileRect) => ({
+    ...options,
+    ignoreRegions: cropIgnoreRegions(options.ignoreRegions, {
+      x: tile.x / layout.width,
+      y: tile.y / layout.height,
+      width: tile.width / layout.width,
+      height: tile.height / layout.height,
+    }),
+  })
+
+  /**
+   * Renders and diffs a single tile pair at full scale
+   * @param options - Options of the page (see resolvePageOptions)
+   */
+  const diffTile = async (
+    request: TiledDiffRequest,
+    options: DiffOptions,
+    layout: TileLayout,
+    tile: TileRect,
+    canvas1: HTMLCanvasElement,
+    canvas2: HTMLCanvasElement,
+    diffCanvas: HTMLCanvasElement
+  ) => {
+    await renderTile(request, layout, tile, canvas1, canvas2)
+
+    // Both tiles already share the normalized geometry, so the default strategy is a no-op
+    return compare(canvas1, canvas2, diffCanvas, getTileOptions(options, layout, tile))
+  }
+
+  /**
+   * Counts the pixels of a tile pair by delta, for the 'auto' threshold of the page
+   */
+  const getTileHistogram = async (
+    request: TiledDiffRequest,
+    layout: TileLayout,
+    tile: TileRect,
+    canvas1: HTMLCanvasElement,
+    canvas2: HTMLCanvasElement
+  ) => {
+    await renderTile(request, layout, tile, canvas1, canvas2)
+
+    const ctx1 = canvas1.getContext('2d', { willReadFrequently: true })
+    const ctx2 = canvas2.getContext('2d', { willReadFrequently: true })
+    if (!ctx1 || !ctx2) {
+      throw new Error('Failed to get canvas 2d context for tile')
+    }
+
+    const { ignoreRegions } = getTileOptions(request.options, layout, tile)
+    return computeDeltaHistogram(
+      ctx1.getImageData(0, 0, tile.width, tile.height).data,
+      ctx2.getImageData(0, 0, tile.width, tile.height).data,
+      request.options.mode === 'grayscale',
+      createIgnoreMask(ignoreRegions, tile.width, tile.height)?.mask
+    )
+  }
+
+  /**
+   * Gets the options every tile of a page is compared with
+   * An 'auto' threshold is picked once for the page, from the summed histograms of its tiles,
+   * and passed to every tile as a manual one; a tile on its own would pick a cut-off of its own.
+   * @param onTile - Called after each tile of the histogram pass
+   * @returns The options, or null if superseded by a newer call
+   */
+  const resolvePageOptions = async (
+    request: TiledDiffRequest,
+    layout: TileLayout,
+    canvas1: HTMLCanvasElement,
+    canvas2: HTMLCanvasElement,
+    run: number,
+    onTile: () => void = () => {}
+  ): Promise<DiffOptions | null> => {
+    if (!usesAutoThreshold(request.options)) return request.options
+
+    const histograms: number[][] = []
+    for (const tile of layout.tiles) {
+      if (run !== currentRun) return null
+      histograms.push(await getTileHistogram(request, layout, tile, canvas1, canvas2))
+      onTile()
+    }
+    if (run !== currentRun) return null
+
+    return {
+      ...request.options,
+      thresholdMode: 'manual',
+      threshold: resolveThreshold(request.options, sumHistograms(histograms)),
+    }
+  }
+
+  /**
+   * Compares two pages tile by tile
+   * @param request - Pages and comparison settings
+   * @param layout - Tile layout from getTileLayout
+   * @param overviewCanvas - Optional canvas to stitch the diff into, scaled to fit the canvas limits
+   * @returns Stitched stats and per-tile stats, or null if superseded by a newer call
+   */
+  const compareTiled = async (
+    request: TiledDiffRequest,
+    layout: TileLayout,
+    overviewCanvas?: HTMLCanvasElement
+  ): Promise<TiledDiffResult | null> => {
+    const run = ++currentRun
+    isProcessing.value = true
+    progress.value = 0
+
+    const pool = getCanvasPool()
+    const canvas1 = pool.acquire(tileSize, tileSize)
+    const canvas2 = pool.acquire(tileSize, tileSize)
+    const tileDiffCanvas = pool.acquire(tileSize, tileSize)
+
+    const overviewScale = getCanvasFitScale(
+      layout.width,
+      layout.height,
+      MAX_CANVAS_DIMENSION,
+      MAX_CANVAS_PIXELS
+    )
+    const overviewWidth = Math.max(1, Math.round(layout.width * overviewScale))
+    const overviewHeight = Math.max(1, Math.round(layout.height * overviewScale))
+    const originalCanvas = overviewCanvas ? pool.acquire(overviewWidth, overviewHeight) : null
+
+    try {
+      let overviewCtx: CanvasRenderingContext2D | null = null
+      if (overviewCanvas) {
+        overviewCanvas.width = overviewWidth
+        overviewCanvas.height = overviewHeight
+        overviewCtx = overviewCanvas.getContext('2d')
+      }
+      const originalCtx = originalCanvas?.getContext('2d', { willReadFrequently: true }) ?? null
+
+      // The 'auto' threshold takes a histogram pass over the tiles before the comparison
+      const isAutoThreshold = usesAutoThreshold(request.options)
+      const steps = layout.tiles.length * (isAutoThreshold ? 2 : 1)
+      let completedSteps = 0
+      const options = await resolvePageOptions(request, layout, canvas1, canvas2, run, () => {
+        progress.value = ++completedSteps / steps
+      })
+      if (!options) return null
+
+      const tiles: TileDiffResult[] = []
+      for (const tile of layout.tiles) {
+        if (run !== currentRun) return null
+
+        const result = await diffTile(
+          request,
+          options,
+          layout,
+          tile,
+          canvas1,
+          canvas2,
+          tileDiffCanvas
+        )
+        if (run !== currentRun) return null
+
+        tiles.push({
+          ...tile,
+          differenceCount: result.differenceCount,
+          totalPixels: result.totalPixels,
+          percentDiff: result.percentDiff,
+          ssim: result.ssim,
+          regions: result.regions,
+          rawDifferenceCount: result.rawDifferenceCount,
+          deltaHistogram: result.deltaHistogram,
+          deltaStatistics: result.deltaStatistics,
+          densityGrid: result.densityGrid,
+        })
+
+        if (overviewCtx && originalCtx) {
+          // Rounded edges so neighbouring tiles meet without seams
+          const x = Math.round(tile.x * overviewScale)
+          const y = Math.round(tile.y * overviewScale)
+          const width = Math.round((tile.x + tile.width) * overviewScale) - x
+          const height = Math.round((tile.y + tile.height) * overviewScale) - y
+          overviewCtx.drawImage(tileDiffCanvas, x, y, width, height)
+
+          // The first tile canvas is free again, so use it to scale down the original
+          const tileCtx = canvas1.getContext('2d')
+          if (tileCtx) {
+            const original = tileCtx.createImageData(tile.width, tile.height)
+            original.data.set(result.originalData)
+            tileCtx.putImageData(original, 0, 0)
+            originalCtx.drawImage(canvas1, x, y, width, height)
+          }
+        }
+
+        progress.value = ++completedSteps / steps
+      }
+
+      const merged = mergeTileStats(tiles)
+      logger.log('Tiled comparison completed:', {
+        size: `${layout.width}x${layout.height}`,
+        tiles: tiles.length,
+        ...merged,
+      })
+
+      return {
+        ...merged,
+        autoThreshold: isAutoThreshold ? options.threshold : undefined,
+        width: layout.width,
+        height: layout.height,
+        rows: layout.rows,
+        cols: layout.cols,
+        tiles,
+        overviewScale,
+        originalData: originalCtx
+          ? originalCtx.getImageData(0, 0, overviewWidth, overviewHeight).data
+          : null,
+      }
+    } catch (err) {
+      // A newer call cancels the tile render of this one
+      if (run !== currentRun) return null
+      throw err
+    } finally {
+      pool.release(canvas1)
+      pool.release(canvas2)
+      pool.release(tileDiffCanvas)
+      if (originalCanvas) {
+        pool.release(originalCanvas)
+      }
+      if (run === currentRun) {
+        isProcessing.value = false
+      }
+    }
+  }
+
+  /**
+   * Renders the diff of a single tile at full resolution
+   * @param request - Pages and comparison settings
+   * @param tileIndex - Index of the tile in the layout
+   * @param diffCanvas - Canvas to draw the tile diff into
+   * @param pageThreshold - 'auto' threshold compareTiled picked for the page; without it the
+   *   histogram pass runs again
+   * @returns The worker result for the tile, or null if superseded or the pages no longer need tiling
+   */
+  const renderTileDiff = async (
+    request: TiledDiffRequest,
+    tileIndex: number,
+    diffCanvas: HTMLCanvasElement,
+    pageThreshold?: number
+  ) => {
+    const run = ++currentRun
+    const layout = await getTileLayout(request)
+    const tile = layout?.tiles[tileIndex]
+    if (!layout || !tile || run !== currentRun) return null
+
+    const pool = getCanvasPool()
+    const canvas1 = pool.acquire(tile.width, tile.height)
+    const canvas2 = pool.acquire(tile.width, tile.height)
+
+    try {
+      const options =
+        pageThreshold !== undefined && usesAutoThreshold(request.options)
+          ? { ...request.options, thresholdMode: 'manual' as const, threshold: pageThreshold }
+          : await resolvePageOptions(request, layout, canvas1, canvas2, run)
+      if (!options) return null
+
+      const result = await diffTile(request, options, layout, tile, canvas1, canvas2, diffCanvas)
+      return run === currentRun ? result : null
+    } catch (err) {
+      if (run !== currentRun) return null
+      throw err
+    } finally {
+      pool.release(canvas1)
+      pool.release(canvas2)
+    }
+  }
+
+  /**
+   * Stops the running tiled comparison after its current tile
+   */
+  const cancelTiledDiff = () => {
+    currentRun++
+    isProcessing.value = false
+  }
+
+  return {
+    getTileLayout,
+    compareTiled,
+    renderTileDiff,
+    cancelTiledDiff,
+    isProcessing: readonly(isProcessing),
+    progress: readonly(progress),
+  }
+}
@@ -0,0 +1,254 @@
+import { ref, readonly } from 'vue'
+import type { DiffOptions } from './usePdfDiff'
+import type { WorkerDiffResult } from './usePdfDiffWorker'
+import type { NormalizationStrategy } from './usePdfNormalization'
+import { type PageRenderOptions, getRenderSignature } from './usePdfRenderer'
+import { isPasswordProtected } from './usePdfPasswords'
+import { getCanvasPool } from '~/utils/canvas-pool'
+import {
+  type CacheUsage,
+  canvasToBlob,
+  getFileHash,
+  getPersistentCache,
+} from '~/utils/persistent-cache'
+import { logger } from '~/utils/logger'
+
+export type CachedDiffStats = Pick<
+  WorkerDiffResult,
+  | 'differenceCount'
+  | 'totalPixels'
+  | 'percentDiff'
+  | 'ssim'
+  | 'regions'
+  | 'registration'
+  | 'rawDifferenceCount'
+  | 'deltaHistogram'
+  | 'autoThreshold'
+  | 'deltaStatistics'
+  | 'densityGrid'
+>
+
+// A diff result as stored in the persistent cache
+interface CachedDiff {
+  stats: CachedDiffStats
+  diffImage: Blob | null // Absent for background page scans, which only keep the stats
+  originalImage: Blob | null
+}
+
+// Everything that determines the result of comparing two pages
+export interface DiffCacheParams {
+  leftFile: File
+  rightFile: File
+  leftPage: number | null
+  rightPage: number | null
+  scale: number
+  options: DiffOptions
+  strategy: NormalizationStrategy
+  leftRender?: PageRenderOptions
+  rightRender?: PageRenderOptions
+}
+
+/**
+ * Composable for the persistent (IndexedDB) cache
+ * Stores diff results of page pairs and exposes the cache usage and a clear control;
+ * rendered pages and metadata are cached by usePdfRenderer and usePdfMetadata
+ */
+export function usePersistentCache() {
+  const cache = getPersistentCache()
+  const usage = ref<CacheUsage | null>(null)
+  const isClearing = ref(false)
+
+  /**
+   * Builds the key of a diff result from the file contents and the comparison settings
+   * @returns The key, or null where the persistent cache is unavailable or either document
+   *          is password-protected (their contents are never persisted)
+   */
+  const createDiffCacheKey = async (params: DiffCacheParams): Promise<string | null> => {
+    if (!cache || isPasswordProtected(params.leftFile) || isPasswordProtected(params.rightFile)) {
+      return null
+    }
+
+    const [leftHash, rightHash] = await Promise.all([
+      getFileHash(params.leftFile),
+      getFileHash(params.rightFile),
+    ])
+    return JSON.stringify([
+      leftHash,
+      rightHash,
+      params.leftPage,
+      params.rightPage,
+      params.scale,
+      params.options,
+      params.strategy,
+      getRenderSignature(params.leftRender),
+      getRenderSignature(params.rightRender),
+    ])
+  }
+
+  /**
+   * Gets the cached stats of a diff (with or without its images)
+   */
+  const getCachedDiffStats = async (key: string): Promise<CachedDiffStats | null> => {
+    const cached = await cache?.get<CachedDiff>('diff', key)
+    return cached?.stats ?? null
+  }
+
+  /**
+   * Restores a cached diff onto the diff canvas
+   * @param key - Key from createDiffCacheKey
+   * @param diffCanvas - Canvas to draw the diff image into
+   * @returns The stats and unhighlighted image data, or null if no diff image is cached
+   */
+  const restoreCachedDiff = async (
+    key: string,
+    diffCanvas: HTMLCanvasElement
+  ): Promise<(CachedDiffStats & { originalData: Uint8ClampedArray }) | null> => {
+    const cached = await cache?.get<CachedDiff>('diff', key)
+    if (!cached?.diffImage || !cached.originalImage) return null
+
+    const bitmaps = await Promise.all([
+      createImageBitmap(cached.diffImage),
+      createImageBitmap(cached.originalImage),
+    ]).catch((err) => {
+      logger.warn('Failed to decode cached diff, comparing again:', err)
+      return null
+    })
+    if (!bitmaps) return null
+
+    const [diffBitmap, originalBitmap] = bitmaps
+    const pool = getCanvasPool()
+    const originalCanvas = pool.acquire(originalBitmap.width, originalBitmap.height)
+
+    try {
+      diffCanvas.width = diffBitmap.width
+      diffCanvas.height = diffBitmap.height
+      diffCanvas.getContext('2d')?.drawImage(diffBitmap, 0, 0)
+
+      const ctx = originalCanvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) return null
+      ctx.drawImage(originalBitmap, 0, 0)
+      const originalData = ctx.getImageData(0, 0, originalBitmap.width, originalBitmap.height).data
+
+      return { ...cached.stats, originalData }
+    } finally {
+      diffBitmap.close()
+      originalBitmap.close()
+      pool.release(originalCanvas)
+    }
+  }
+
+  /**
+   * Stores a diff result in the background
+   * @param key - Key from createDiffCacheKey
+   * @param stats - Stats of the diff
+   * @param diffCanvas - Diff to store alongside the stats (omit to keep the stats only)
+   * @param originalData - Unhighlighted image data matching the diff canvas
+   */
+  const cacheDiffResult = (
+    key: string,
+    stats: CachedDiffStats,
+    diffCanvas?: HTMLCanvasElement,
+    originalData?: Uint8ClampedArray
+  ) => {
+    if (!cache) return
+
+    const images = async (): Promise<Pick<CachedDiff, 'diffImage' | 'originalImage'>> => {
+      if (!diffCanvas || !originalData) return { diffImage: null, originalImage: null }
+
+      // The diff canvas is encoded right away, before it is redrawn
+      const diffImage = canvasToBlob(diffCanvas)
+
+      const pool = getCanvasPool()
+      const originalCanvas = pool.acquire(diffCanvas.width, diffCanvas.height)
+      try {
+        const ctx = originalCanvas.getContext('2d')
+        if (!ctx) return { diffImage: null, originalImage: null }
+        const original = ctx.createImageData(originalCanvas.width, originalCanvas.height)
+        original.data.set(originalData)
+        ctx.putImageData(original, 0, 0)
+        const originalImage = canvasToBlob(originalCanvas)
+        return { diffImage: await diffImage, originalImage: await originalImage }
+      } finally {
+        pool.release(originalCanvas)
+      }
+    }
+
+    images()
+      .then(({ diffImage, originalImage }) => {
+        const {
+          differenceCount,
+          totalPixels,
+          percentDiff,
+          ssim,
+          regions,
+          registration,
+          rawDifferenceCount,
+          deltaHistogram,
+          autoThreshold,
+          deltaStatistics,
+          densityGrid,
+        } = stats
+        const size =
+          (diffImage?.size ?? 0) +
+          (originalImage?.size ?? 0) +
+          256 +
+          (regions?.length ?? 0) * 64 +
+          (densityGrid?.percentChanged.length ?? 0) * 24
+        const entry: CachedDiff = {
+          stats: {
+            differenceCount,
+            totalPixels,
+            percentDiff,
+            ssim,
+            regions,
+            registration,
+            rawDifferenceCount,
+            deltaHistogram,
+            autoThreshold,
+            deltaStatistics,
+            densityGrid,
+          },
+          diffImage,
+          originalImage,
+        }
+        return cache.put('diff', key, entry, size)
+      })
+      .catch((err) => logger.warn('Failed to cache diff result:', err))
+  }
+
+  /**
+   * Reads the current size of the persistent cache
+   */
+  const refreshUsage = async () => {
+    usage.value = cache ? await cache.getUsage() : null
+  }
+
+  /**
+   * Removes all cached renders, metadata and diff results
+   */
+  const clearPersistentCache = async () => {
+    if (!cache) return
+
+    isClearing.value = true
+    try {
+      await cache.clear()
+    } catch (err) {
+      logger.error('Failed to clear persistent cache:', err)
+    } finally {
+      isClearing.value = false
+      await refreshUsage()
+    }
+  }
+
+  return {
+    isAvailable: cache !== null,
+    usage: readonly(usage),
+    isClearing: readonly(isClearing),
+    createDiffCacheKey,
+    getCachedDiffStats,
+    restoreCachedDiff,
+    cacheDiffResult,
+    refreshUsage,
+    clearPersistentCache,
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type PdfAnnotation,
+  diffAnnotations,
+  getChangedFields,
+  rectOverlap,
+} from '../annotationDiff'
+
+describe('annotationDiff', () => {
+  const createAnnotation = (overrides: Partial<PdfAnnotation> = {}): PdfAnnotation => ({
+    id: '10R',
+    type: 'Text',
+    author: 'Alice',
+    contents: 'Please check this figure',
+    rect: [100, 100, 120, 120],
+    modified: null,
+    ...overrides,
+  })
+
+  describe('rectOverlap', () => {
+    it('should be 1 for identical and 0 for disjoint rectangles', () => {
+      expect(rectOverlap([0, 0, 10, 10], [0, 0, 10, 10])).toBe(1)
+      expect(rectOverlap([0, 0, 10, 10], [20, 20, 30, 30])).toBe(0)
+    })
+
+    it('should be the intersection over union of overlapping rectangles', () => {
+      // 5x10 overlap of two 10x10 squares: 50 / 150
+      expect(rectOverlap([0, 0, 10, 10], [5, 0, 15, 10])).toBeCloseTo(1 / 3)
+    })
+  })
+
+  describe('getChangedFields', () => {
+    it('should ignore movements within the tolerance', () => {
+      const left = createAnnotation()
+      const right = createAnnotation({ rect: [100.5, 100, 120.5, 120] })
+
+      expect(getChangedFields(left, right)).toEqual([])
+    })
+
+    it('should list every changed field', () => {
+      const left = createAnnotation()
+      const right = createAnnotation({
+        author: 'Bob',
+        contents: 'Fixed',
+        rect: [200, 100, 220, 120],
+      })
+
+      expect(getChangedFields(left, right)).toEqual(['author', 'contents', 'rect'])
+    })
+  })
+
+  describe('diffAnnotations', () => {
+    it('should report identical annotations as unchanged', () => {
+      const changes = diffAnnotations([createAnnotation()], [createAnnotation()])
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0].type).toBe('unchanged')
+    })
+
+    it('should report added and removed annotations', () => {
+      const note = createAnnotation()
+      const stamp = createAnnotation({ id: '20R', type: 'Stamp', contents: 'Approved' })
+
+      const changes = diffAnnotations([note], [stamp])
+
+      expect(changes.map((change) => change.type)).toEqual(['removed', 'added'])
+      expect(changes[0].left).toBe(note)
+      expect(changes[1].right).toBe(stamp)
+    })
+
+    it('should match edited annotations by position when their ids differ', () => {
+      const left = createAnnotation({ id: '10R' })
+      const right = createAnnotation({ id: '42R', contents: 'Figure checked' })
+
+      const changes = diffAnnotations([left], [right])
+
+      expect(changes).toEqual([{ type: 'modified', left, right, changedFields: ['contents'] }])
+    })
+
+    it('should match moved annotations by their text', () => {
+      const left = createAnnotation({ id: '10R' })
+      const right = createAnnotation({ id: '42R', rect: [300, 400, 320, 420] })
+
+      const changes = diffAnnotations([left], [right])
+
+      expect(changes[0].type).toBe('modified')
+      expect(changes[0].changedFields).toEqual(['rect'])
+    })
+
+    it('should not match annotations of different types', () => {
+      const highlight = createAnnotation({ type: 'Highlight' })
+      const note = createAnnotation({ id: '11R' })
+
+      const changes = diffAnnotations([highlight], [note])
+
+      expect(changes.map((change) => change.type)).toEqual(['removed', 'added'])
+    })
+
+    it('should prefer the closest of several candidates', () => {
+      const left = createAnnotation({ contents: '' })
+      const far = createAnnotation({ id: '1R', contents: '', rect: [110, 110, 130, 130] })
+      const near = createAnnotation({ id: '2R', contents: '', rect: [101, 100, 121, 120] })
+
+      const changes = diffAnnotations([left], [far, near])
+
+      expect(changes[0].right).toBe(near)
+      expect(changes[1]).toMatchObject({ type: 'added', right: far })
+    })
+  })
+})
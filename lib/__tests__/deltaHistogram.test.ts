@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest'
+import type { DiffOptions } from '../pdfDiffAlgorithms'
+import {
+  DELTA_HISTOGRAM_BINS,
+  computeDeltaHistogram,
+  computeDeltaStatistics,
+  getSeverityBand,
+  mergeDeltaStatistics,
+  otsuThreshold,
+  resolveThreshold,
+  sumHistograms,
+} from '../deltaHistogram'
+
+describe('deltaHistogram', () => {
+  // Histogram with the given count at each delta
+  const createHistogram = (counts: Record<number, number>) => {
+    const histogram = new Array<number>(DELTA_HISTOGRAM_BINS).fill(0)
+    for (const [delta, count] of Object.entries(counts)) histogram[Number(delta)] = count
+    return histogram
+  }
+
+  describe('computeDeltaHistogram', () => {
+    const data1 = new Uint8ClampedArray([255, 255, 255, 255, 255, 255, 255, 255, 0, 0, 0, 255])
+    const data2 = new Uint8ClampedArray([
+      255, 255, 255, 255, 250, 255, 255, 255, 255, 255, 255, 255,
+    ])
+
+    it('should count pixels by the sum of their channel differences', () => {
+      const histogram = computeDeltaHistogram(data1, data2, false)
+
+      expect(histogram).toHaveLength(DELTA_HISTOGRAM_BINS)
+      expect(histogram[0]).toBe(1)
+      expect(histogram[5]).toBe(1)
+      expect(histogram[255]).toBe(1) // 765 falls into the last bin
+    })
+
+    it('should count pixels by their luminance difference in grayscale mode', () => {
+      const histogram = computeDeltaHistogram(data1, data2, true)
+
+      expect(histogram[1]).toBe(1) // 0.299 * 5
+      expect(histogram[255]).toBe(1)
+    })
+
+    it('should leave ignored pixels out', () => {
+      const histogram = computeDeltaHistogram(data1, data2, false, new Uint8Array([0, 0, 1]))
+
+      expect(histogram.reduce((sum, count) => sum + count, 0)).toBe(2)
+      expect(histogram[255]).toBe(0)
+    })
+  })
+
+  describe('computeDeltaStatistics', () => {
+    // A faint change, an untouched pixel and a black-to-white change
+    const data1 = new Uint8ClampedArray([200, 200, 200, 255, 9, 9, 9, 255, 0, 0, 0, 255])
+    const data2 = new Uint8ClampedArray([210, 200, 220, 255, 9, 9, 9, 255, 255, 255, 255, 255])
+
+    it('should summarize the deltas of the changed pixels only', () => {
+      const statistics = computeDeltaStatistics(data1, data2, new Uint8Array([1, 0, 1]), false)
+
+      expect(statistics.pixelCount).toBe(2)
+      expect(statistics.meanDelta).toBe((10 + 255) / 2) // Summed deltas 30 and 765, over 3
+      expect(statistics.maxDelta).toBe(255)
+      expect(statistics.channelDeltas).toEqual({ r: 132.5, g: 127.5, b: 137.5 })
+      expect(statistics.severityCounts).toEqual([1, 0, 0, 1])
+    })
+
+    it('should not cap summed deltas beyond the histogram range', () => {
+      // 100 per channel sums to 300, which the histogram counts in its last bin
+      const statistics = computeDeltaStatistics(
+        new Uint8ClampedArray([0, 0, 0, 255]),
+        new Uint8ClampedArray([100, 100, 100, 255]),
+        new Uint8Array([1]),
+        false
+      )
+
+      expect(statistics.meanDelta).toBe(100)
+      expect(statistics.maxDelta).toBe(100)
+      expect(statistics.severityCounts).toEqual([0, 0, 1, 0])
+    })
+
+    it('should use the luminance difference in grayscale mode', () => {
+      const statistics = computeDeltaStatistics(data1, data2, new Uint8Array([0, 0, 1]), true)
+
+      expect(statistics.maxDelta).toBeCloseTo(255)
+      expect(statistics.severityCounts).toEqual([0, 0, 0, 1])
+    })
+
+    it('should return zeros when nothing changed', () => {
+      const statistics = computeDeltaStatistics(data1, data2, new Uint8Array(3), false)
+
+      expect(statistics).toEqual({
+        pixelCount: 0,
+        meanDelta: 0,
+        maxDelta: 0,
+        channelDeltas: { r: 0, g: 0, b: 0 },
+        severityCounts: [0, 0, 0, 0],
+      })
+    })
+  })
+
+  describe('getSeverityBand', () => {
+    it('should find the band each delta falls into', () => {
+      expect([0, 31, 32, 95, 96, 191, 192, 255].map(getSeverityBand)).toEqual([
+        0, 0, 1, 1, 2, 2, 3, 3,
+      ])
+    })
+  })
+
+  describe('mergeDeltaStatistics', () => {
+    it('should weight the means by the changed pixels and add up the bands', () => {
+      const merged = mergeDeltaStatistics([
+        {
+          pixelCount: 1,
+          meanDelta: 100,
+          maxDelta: 100,
+          channelDeltas: { r: 30, g: 30, b: 40 },
+          severityCounts: [0, 0, 1, 0],
+        },
+        undefined,
+        {
+          pixelCount: 3,
+          meanDelta: 20,
+          maxDelta: 40,
+          channelDeltas: { r: 10, g: 2, b: 8 },
+          severityCounts: [2, 1, 0, 0],
+        },
+      ])
+
+      expect(merged).toEqual({
+        pixelCount: 4,
+        meanDelta: 40,
+        maxDelta: 100,
+        channelDeltas: { r: 15, g: 9, b: 16 },
+        severityCounts: [2, 1, 1, 0],
+      })
+    })
+
+    it('should return undefined when none is given', () => {
+      expect(mergeDeltaStatistics([undefined])).toBeUndefined()
+    })
+  })
+
+  describe('otsuThreshold', () => {
+    it('should split faint noise from real changes', () => {
+      const threshold = otsuThreshold(
+        createHistogram({ 0: 10000, 2: 300, 4: 200, 6: 100, 180: 50, 200: 40 })
+      )
+
+      expect(threshold).toBeGreaterThanOrEqual(6)
+      expect(threshold).toBeLessThan(180)
+    })
+
+    it('should return null when all differing pixels share one delta', () => {
+      expect(otsuThreshold(createHistogram({ 0: 100, 40: 20 }))).toBeNull()
+    })
+
+    it('should return null when the differences are anti-aliasing noise only', () => {
+      // One peak of faint deltas, thinning out towards larger ones
+      const counts: Record<number, number> = { 0: 100000 }
+      for (let delta = 1; delta < 60; delta++)
+        counts[delta] = Math.round(1000 * Math.exp(-delta / 6))
+
+      expect(otsuThreshold(createHistogram(counts))).toBeNull()
+    })
+
+    it('should return null when both groups are within the noise floor', () => {
+      expect(otsuThreshold(createHistogram({ 0: 10000, 2: 400, 16: 100 }))).toBeNull()
+    })
+
+    it('should return null when no pixel differs', () => {
+      expect(otsuThreshold(createHistogram({ 0: 100 }))).toBeNull()
+    })
+  })
+
+  describe('resolveThreshold', () => {
+    const histogram = createHistogram({ 3: 500, 150: 50 })
+    const defaultOptions: DiffOptions = {
+      mode: 'threshold',
+      threshold: 10,
+      overlayOpacity: 0.5,
+      useGrayscale: false,
+    }
+    const autoOptions: DiffOptions = { ...defaultOptions, thresholdMode: 'auto' }
+
+    it('should keep the slider value in manual mode', () => {
+      expect(resolveThreshold(defaultOptions, histogram)).toBe(10)
+    })
+
+    it('should pick the threshold from the histogram in auto mode', () => {
+      const threshold = resolveThreshold(autoOptions, histogram)
+
+      expect(threshold).toBeGreaterThanOrEqual(3)
+      expect(threshold).toBeLessThan(150)
+    })
+
+    it('should keep the slider value in modes without a pixel threshold', () => {
+      for (const mode of ['pixel', 'deltaE', 'ssim', 'edges'] as const) {
+        expect(resolveThreshold({ ...autoOptions, mode }, histogram)).toBe(10)
+      }
+    })
+
+    it('should fall back to the slider value when nothing differs', () => {
+      expect(resolveThreshold(autoOptions, createHistogram({ 0: 100 }))).toBe(10)
+    })
+
+    it('should fall back to the slider value when only noise differs', () => {
+      expect(resolveThreshold(autoOptions, createHistogram({ 1: 800, 2: 500, 3: 200 }))).toBe(10)
+    })
+  })
+
+  describe('sumHistograms', () => {
+    it('should add up the given histograms', () => {
+      const sum = sumHistograms([
+        createHistogram({ 0: 5, 9: 1 }),
+        undefined,
+        createHistogram({ 9: 2 }),
+      ])
+
+      expect(sum?.[0]).toBe(5)
+      expect(sum?.[9]).toBe(3)
+    })
+
+    it('should return undefined when none is given', () => {
+      expect(sumHistograms([undefined])).toBeUndefined()
+    })
+  })
+})
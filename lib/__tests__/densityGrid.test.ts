@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeDensityGrid,
+  getDensityCellRect,
+  mergeDensityGrids,
+  serializeDensityGrid,
+} from '../densityGrid'
+import { createMask } from '../../test/masks'
+
+describe('densityGrid', () => {
+  // 5x3 page: two full 2x2 cells and cropped cells on the right and bottom
+  const mask = createMask(['##..#', '#....', '..#..'])
+
+  describe('computeDensityGrid', () => {
+    it('should count the changed pixels of every cell', () => {
+      const grid = computeDensityGrid(mask, 5, 3, 2)
+
+      expect(grid).toMatchObject({ cellSize: 2, width: 5, height: 3, columns: 3, rows: 2 })
+      expect(grid.changedPixels).toEqual([3, 0, 1, 0, 1, 0])
+      expect(grid.totalPixels).toEqual([4, 4, 2, 2, 2, 1])
+      expect(grid.percentChanged).toEqual([75, 0, 50, 0, 50, 0])
+    })
+
+    it('should leave ignored pixels out of the cells', () => {
+      const ignoreMask = createMask(['#....', '#....', '.....'])
+      const grid = computeDensityGrid(mask, 5, 3, 2, ignoreMask)
+
+      expect(grid.changedPixels[0]).toBe(1)
+      expect(grid.totalPixels[0]).toBe(2)
+      expect(grid.percentChanged[0]).toBe(50)
+    })
+  })
+
+  describe('mergeDensityGrids', () => {
+    it('should place the cells of each tile in the page grid', () => {
+      const left = computeDensityGrid(createMask(['#...', '....']), 4, 2, 2)
+      const right = computeDensityGrid(createMask(['##', '##']), 2, 2, 2)
+
+      const merged = mergeDensityGrids(
+        [
+          { x: 0, y: 0, densityGrid: left },
+          { x: 4, y: 0, densityGrid: right },
+        ],
+        6,
+        2
+      )
+
+      expect(merged?.columns).toBe(3)
+      expect(merged?.changedPixels).toEqual([1, 0, 4])
+      expect(merged?.percentChanged).toEqual([25, 0, 100])
+    })
+
+    it('should return undefined when no tile has a grid', () => {
+      expect(mergeDensityGrids([{ x: 0, y: 0 }], 10, 10)).toBeUndefined()
+    })
+  })
+
+  describe('getDensityCellRect', () => {
+    it('should crop the cells in the last row and column', () => {
+      const grid = computeDensityGrid(mask, 5, 3, 2)
+
+      expect(getDensityCellRect(grid, 5)).toEqual({
+        row: 1,
+        column: 2,
+        x: 4,
+        y: 2,
+        width: 1,
+        height: 1,
+      })
+    })
+  })
+
+  describe('serializeDensityGrid', () => {
+    it('should write one CSV line per cell in reading order', () => {
+      const lines = serializeDensityGrid(computeDensityGrid(mask, 5, 3, 2))
+        .trim()
+        .split('\n')
+
+      expect(lines).toHaveLength(7)
+      expect(lines[0]).toBe(
+        'row,column,x,y,width,height,changed_pixels,compared_pixels,percent_changed'
+      )
+      expect(lines[1]).toBe('1,1,0,0,2,2,3,4,75.00')
+      expect(lines[6]).toBe('2,3,4,2,1,1,0,1,0.00')
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { type DiffOptions, pixelDiff } from '../pdfDiffAlgorithms'
+import { postProcessDiff } from '../diffPostProcessing'
+import { createMask } from '../../test/masks'
+
+describe('diffPostProcessing', () => {
+  const width = 7
+  const height = 6
+
+  // A 3x3 block with a stray pixel in the top-right corner, drawn black on white
+  const noisy = ['......#', '.......', '.###...', '.###...', '.###...', '.......']
+
+  const createImageData = (rows: string[]) => {
+    const data = new Uint8ClampedArray(width * height * 4).fill(255)
+    createMask(rows).forEach((value, pixel) => {
+      if (value) data.fill(0, pixel * 4, pixel * 4 + 3)
+    })
+    return data
+  }
+
+  const compare = (options: DiffOptions, ignoreMask?: Uint8Array, ignoredPixels?: number) => {
+    const data1 = createImageData([])
+    const data2 = createImageData(noisy)
+    const diffData = new Uint8ClampedArray(data1.length)
+    const context = {
+      width,
+      originalData: new Uint8ClampedArray(data1.length),
+      changeMask: new Uint8Array(width * height),
+      ignoreMask,
+    }
+    const differenceCount = pixelDiff(data1, data2, diffData, options, context)
+    const summary = postProcessDiff(
+      data1,
+      data2,
+      diffData,
+      differenceCount,
+      height,
+      options,
+      context,
+      ignoredPixels
+    )
+    return { summary, diffData, originalData: context.originalData }
+  }
+
+  const options: DiffOptions = {
+    mode: 'pixel',
+    threshold: 0,
+    overlayOpacity: 0.5,
+    useGrayscale: false,
+    regionMergeDistance: 0,
+  }
+
+  it('should summarize the changes as counted without suppression', () => {
+    const { summary } = compare(options)
+
+    expect(summary.differenceCount).toBe(10)
+    expect(summary.rawDifferenceCount).toBe(10)
+    expect(summary.totalPixels).toBe(42)
+    expect(summary.percentDiff).toBeCloseTo((10 / 42) * 100)
+    expect(summary.regions).toHaveLength(2)
+    expect(summary.deltaStatistics.pixelCount).toBe(10)
+    expect(summary.densityGrid.changedPixels.reduce((a, b) => a + b)).toBe(10)
+  })
+
+  it('should base the stats on the filtered mask and unhighlight discarded pixels', () => {
+    const { summary, diffData, originalData } = compare({ ...options, minRegionArea: 4 })
+
+    expect(summary.differenceCount).toBe(9)
+    expect(summary.rawDifferenceCount).toBe(10)
+    expect(summary.regions).toHaveLength(1)
+    expect(summary.deltaStatistics.pixelCount).toBe(9)
+    expect(summary.densityGrid.changedPixels.reduce((a, b) => a + b)).toBe(9)
+    expect([...diffData.slice(24, 27)]).toEqual([...originalData.slice(24, 27)])
+  })
+
+  it('should leave ignored pixels out of the total', () => {
+    const ignoreMask = createMask(['......#'.padEnd(width * height, '.')])
+
+    const { summary } = compare(options, ignoreMask, 1)
+
+    expect(summary.differenceCount).toBe(9)
+    expect(summary.totalPixels).toBe(41)
+    expect(summary.percentDiff).toBeCloseTo((9 / 41) * 100)
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_DIFF_REGIONS, classifyChange, findDiffRegions, numberRegions } from '../diffRegions'
+
+describe('diffRegions', () => {
+  // White images of the given size, with black pixels where PDF 1 or PDF 2 has content
+  const createImages = (width: number, height: number) => {
+    const data1 = new Uint8ClampedArray(width * height * 4).fill(255)
+    const data2 = new Uint8ClampedArray(width * height * 4).fill(255)
+    const mask = new Uint8Array(width * height)
+    const change = (x: number, y: number, side: 'left' | 'right' | 'both') => {
+      const pixel = y * width + x
+      if (side !== 'right') data1.fill(0, pixel * 4, pixel * 4 + 3)
+      if (side !== 'left') data2.fill(side === 'both' ? 128 : 0, pixel * 4, pixel * 4 + 3)
+      mask[pixel] = 1
+    }
+    return { data1, data2, mask, change }
+  }
+
+  describe('classifyChange', () => {
+    it('should tell added, removed and modified content apart', () => {
+      const { data1, data2, change } = createImages(3, 1)
+      change(0, 0, 'left')
+      change(1, 0, 'right')
+      change(2, 0, 'both')
+
+      expect(classifyChange(data1, data2, 0)).toBe('removed')
+      expect(classifyChange(data1, data2, 4)).toBe('added')
+      expect(classifyChange(data1, data2, 8)).toBe('modified')
+    })
+  })
+
+  describe('findDiffRegions', () => {
+    it('should find no regions without changes', () => {
+      const { data1, data2, mask } = createImages(4, 4)
+
+      expect(findDiffRegions(mask, data1, data2, 4, 4)).toEqual([])
+    })
+
+    it('should box a cluster and count its changed pixels', () => {
+      const { data1, data2, mask, change } = createImages(10, 10)
+      change(2, 3, 'right')
+      change(3, 3, 'right')
+      change(3, 4, 'right')
+
+      expect(findDiffRegions(mask, data1, data2, 10, 10, 0)).toEqual([
+        { id: 1, x: 2, y: 3, width: 2, height: 2, pixelCount: 3, type: 'added' },
+      ])
+    })
+
+    it('should merge clusters within the merge distance', () => {
+      const { data1, data2, mask, change } = createImages(20, 5)
+      change(2, 2, 'left')
+      change(6, 2, 'left') // Gap of 3 pixels
+      change(16, 2, 'left') // Gap of 9 pixels
+
+      const merged = findDiffRegions(mask, data1, data2, 20, 5, 4)
+      expect(merged.map(({ x, width }) => ({ x, width }))).toEqual([
+        { x: 2, width: 5 },
+        { x: 16, width: 1 },
+      ])
+
+      expect(findDiffRegions(mask, data1, data2, 20, 5, 0)).toHaveLength(3)
+    })
+
+    it('should number regions in reading order', () => {
+      const { data1, data2, mask, change } = createImages(10, 10)
+      change(8, 1, 'both')
+      change(1, 8, 'both')
+      change(1, 1, 'both')
+
+      const regions = findDiffRegions(mask, data1, data2, 10, 10, 0)
+
+      expect(regions.map(({ id, x, y }) => [id, x, y])).toEqual([
+        [1, 1, 1],
+        [2, 8, 1],
+        [3, 1, 8],
+      ])
+    })
+
+    it('should report the most frequent change type of a region', () => {
+      const { data1, data2, mask, change } = createImages(5, 1)
+      change(0, 0, 'left')
+      change(1, 0, 'right')
+      change(2, 0, 'right')
+
+      expect(findDiffRegions(mask, data1, data2, 5, 1, 0)[0].type).toBe('added')
+    })
+
+    it('should keep only the largest regions of scattered changes', () => {
+      const width = MAX_DIFF_REGIONS * 2 + 2
+      const { data1, data2, mask, change } = createImages(width, 3)
+      for (let x = 0; x < width; x += 2) change(x, 0, 'right')
+      change(width - 2, 1, 'right') // Makes the last region the largest
+
+      const regions = findDiffRegions(mask, data1, data2, width, 3, 0)
+
+      expect(regions).toHaveLength(MAX_DIFF_REGIONS)
+      expect(regions[regions.length - 1]).toMatchObject({ x: width - 2, pixelCount: 2 })
+    })
+  })
+
+  describe('numberRegions', () => {
+    it('should renumber regions from 1', () => {
+      const region = { x: 0, y: 0, width: 1, height: 1, pixelCount: 1, type: 'added' as const }
+
+      const regions = numberRegions([
+        { ...region, id: 7, y: 5 },
+        { ...region, id: 3 },
+      ])
+
+      expect(regions.map(({ id, y }) => [id, y])).toEqual([
+        [1, 0],
+        [2, 5],
+      ])
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type FormWidget,
+  diffFormFields,
+  formatFieldValue,
+  getChangedWidgetBoxes,
+  groupFormWidgets,
+  rotateWidgetBox,
+} from '../formFieldDiff'
+
+describe('formFieldDiff', () => {
+  const createWidget = (overrides: Partial<FormWidget> = {}): FormWidget => ({
+    name: 'insured.name',
+    type: 'text',
+    value: 'Jane Doe',
+    readOnly: false,
+    required: true,
+    page: 1,
+    box: { x: 0.1, y: 0.2, width: 0.3, height: 0.05 },
+    ...overrides,
+  })
+
+  describe('formatFieldValue', () => {
+    it('should format empty, single and multiple values', () => {
+      expect(formatFieldValue(null)).toBe('')
+      expect(formatFieldValue('Off')).toBe('Off')
+      expect(formatFieldValue(['Red', 'Blue'])).toBe('Red, Blue')
+    })
+  })
+
+  describe('groupFormWidgets', () => {
+    it('should merge the widgets of a field', () => {
+      const fields = groupFormWidgets([
+        createWidget({ name: 'plan', type: 'radio', value: '', page: 1 }),
+        createWidget({ name: 'plan', type: 'radio', value: 'Premium', page: 2 }),
+        createWidget({ name: 'insured.name' }),
+      ])
+
+      expect(fields.map((field) => field.name)).toEqual(['plan', 'insured.name'])
+      expect(fields[0].value).toBe('Premium')
+      expect(fields[0].widgets.map((widget) => widget.page)).toEqual([1, 2])
+    })
+  })
+
+  describe('diffFormFields', () => {
+    it('should report fields with equal properties as unchanged', () => {
+      const fields = groupFormWidgets([createWidget()])
+
+      expect(diffFormFields(fields, fields)[0]).toMatchObject({
+        status: 'unchanged',
+        changedProperties: [],
+      })
+    })
+
+    it('should list the changed properties', () => {
+      const left = groupFormWidgets([createWidget()])
+      const right = groupFormWidgets([createWidget({ value: 'John Doe', readOnly: true })])
+
+      expect(diffFormFields(left, right)[0]).toMatchObject({
+        name: 'insured.name',
+        status: 'changed',
+        changedProperties: ['value', 'readOnly'],
+      })
+    })
+
+    it('should report fields only in one document as removed or added', () => {
+      const left = groupFormWidgets([createWidget({ name: 'fax' })])
+      const right = groupFormWidgets([createWidget({ name: 'email' })])
+
+      const changes = diffFormFields(left, right)
+
+      expect(changes.map((change) => [change.name, change.status])).toEqual([
+        ['fax', 'removed'],
+        ['email', 'added'],
+      ])
+    })
+  })
+
+  describe('getChangedWidgetBoxes', () => {
+    it('should return the widgets of changed fields on the given page', () => {
+      const left = groupFormWidgets([
+        createWidget(),
+        createWidget({ name: 'policy', value: 'A-1', page: 2 }),
+      ])
+      const right = groupFormWidgets([
+        createWidget({ value: 'John Doe' }),
+        createWidget({ name: 'policy', value: 'A-1', page: 2 }),
+      ])
+      const changes = diffFormFields(left, right)
+
+      expect(getChangedWidgetBoxes(changes, 'right', 1)).toEqual([
+        { name: 'insured.name', status: 'changed', box: right[0].widgets[0].box },
+      ])
+      expect(getChangedWidgetBoxes(changes, 'right', 2)).toEqual([])
+      expect(getChangedWidgetBoxes(changes, 'left', null)).toEqual([])
+    })
+  })
+
+  describe('rotateWidgetBox', () => {
+    const box = { x: 0.1, y: 0.2, width: 0.3, height: 0.1 }
+
+    it('should turn boxes with their page', () => {
+      const quarter = rotateWidgetBox(box, 90)
+      expect(quarter.x).toBeCloseTo(0.7)
+      expect(quarter.y).toBeCloseTo(0.1)
+      expect(quarter.width).toBeCloseTo(0.1)
+      expect(quarter.height).toBeCloseTo(0.3)
+
+      const half = rotateWidgetBox(box, 180)
+      expect(half.x).toBeCloseTo(0.6)
+      expect(half.y).toBeCloseTo(0.7)
+    })
+
+    it('should return to the original box after a full turn', () => {
+      const turned = rotateWidgetBox(rotateWidgetBox(box, 90), 270)
+
+      expect(turned.x).toBeCloseTo(box.x)
+      expect(turned.y).toBeCloseTo(box.y)
+      expect(turned.width).toBeCloseTo(box.width)
+      expect(turned.height).toBeCloseTo(box.height)
+      expect(rotateWidgetBox(box, 0)).toBe(box)
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type IgnoreRegion,
+  MAX_IGNORE_REGIONS,
+  createIgnoreMask,
+  cropIgnoreRegions,
+  getIgnoreRegionPage,
+  getIgnoreRegionsForPair,
+  normalizeIgnoreRegion,
+  parseIgnoreMasks,
+  serializeIgnoreMasks,
+} from '../ignoreMasks'
+
+describe('ignoreMasks', () => {
+  const region = (overrides: Partial<IgnoreRegion> = {}): IgnoreRegion => ({
+    id: 'a',
+    x: 0.25,
+    y: 0.5,
+    width: 0.5,
+    height: 0.25,
+    page: null,
+    ...overrides,
+  })
+
+  describe('normalizeIgnoreRegion', () => {
+    it('should order the corners and clamp them to the image', () => {
+      expect(normalizeIgnoreRegion(0.75, 1.2, 0.25, 0.5, { page: 2, pdf: 1 }, 'a')).toEqual(
+        region({ height: 0.5, page: 2, pdf: 1 })
+      )
+    })
+
+    it('should drop regions too small to be meant', () => {
+      expect(normalizeIgnoreRegion(0.5, 0.5, 0.5005, 0.7, null, 'a')).toBeNull()
+    })
+  })
+
+  describe('getIgnoreRegionPage', () => {
+    it('should keep regions by the page in PDF 1, or in PDF 2 for inserted pages', () => {
+      expect(getIgnoreRegionPage({ leftPage: 3, rightPage: 5 })).toEqual({ page: 3, pdf: 1 })
+      expect(getIgnoreRegionPage({ leftPage: 3, rightPage: null })).toEqual({ page: 3, pdf: 1 })
+      expect(getIgnoreRegionPage({ leftPage: null, rightPage: 5 })).toEqual({ page: 5, pdf: 2 })
+    })
+  })
+
+  describe('getIgnoreRegionsForPair', () => {
+    const regions = [
+      region({ id: 'all' }),
+      region({ id: 'left2', page: 2, pdf: 1 }),
+      region({ id: 'left3', page: 3 }),
+      region({ id: 'right3', page: 3, pdf: 2 }),
+    ]
+    const ids = (pair: { leftPage: number | null; rightPage: number | null }) =>
+      getIgnoreRegionsForPair(regions, pair).map(({ id }) => id)
+
+    it('should pick the regions of the pages of the pair and those for every page', () => {
+      expect(ids({ leftPage: 2, rightPage: 3 })).toEqual(['all', 'left2', 'right3'])
+    })
+
+    it('should follow the pages when they are paired differently', () => {
+      // After a page was inserted in PDF 2, page 2 of PDF 1 is compared against page 3
+      expect(ids({ leftPage: 2, rightPage: 2 })).toEqual(['all', 'left2'])
+      expect(ids({ leftPage: null, rightPage: 3 })).toEqual(['all', 'right3'])
+      expect(ids({ leftPage: 3, rightPage: null })).toEqual(['all', 'left3'])
+    })
+  })
+
+  describe('createIgnoreMask', () => {
+    it('should return null without regions', () => {
+      expect(createIgnoreMask(undefined, 4, 4)).toBeNull()
+      expect(createIgnoreMask([], 4, 4)).toBeNull()
+    })
+
+    it('should cover every pixel a region touches', () => {
+      const result = createIgnoreMask([region({ x: 0.3, y: 0.5, width: 0.3, height: 0.25 })], 4, 4)
+
+      // x from 1.2 to 2.4 touches columns 1 and 2, y from 2 to 3 covers row 2
+      expect(result?.ignoredPixels).toBe(2)
+      expect([...(result?.mask ?? [])]).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 0, 0, 0, 0, 0])
+    })
+
+    it('should count overlapping regions once', () => {
+      const result = createIgnoreMask([region(), region({ id: 'b' })], 4, 4)
+
+      expect(result?.ignoredPixels).toBe(2)
+    })
+  })
+
+  describe('cropIgnoreRegions', () => {
+    it('should map regions onto a tile and drop those outside it', () => {
+      const regions = [
+        region({ x: 0.4, y: 0, width: 0.2, height: 0.1 }),
+        region({ id: 'b', y: 0.9 }),
+      ]
+
+      const cropped = cropIgnoreRegions(regions, { x: 0.5, y: 0, width: 0.5, height: 0.5 })
+
+      expect(cropped).toHaveLength(1)
+      expect(cropped?.[0].x).toBeCloseTo(0)
+      expect(cropped?.[0].width).toBeCloseTo(0.2)
+      expect(cropped?.[0].height).toBeCloseTo(0.2)
+    })
+  })
+
+  describe('serializeIgnoreMasks and parseIgnoreMasks', () => {
+    it('should round-trip regions', () => {
+      const regions = [region(), region({ id: 'b', page: 3 }), region({ id: 'c', page: 3, pdf: 2 })]
+
+      expect(parseIgnoreMasks(serializeIgnoreMasks(regions))).toEqual(regions)
+    })
+
+    it('should reject files that are not ignore masks', () => {
+      expect(() => parseIgnoreMasks('not json')).toThrow('not valid JSON')
+      expect(() => parseIgnoreMasks('{"version":1}')).toThrow('has no regions')
+      expect(() => parseIgnoreMasks('{"version":2,"regions":[]}')).toThrow('Unsupported')
+    })
+
+    it('should reject regions outside the page or with an invalid page', () => {
+      const file = (overrides: Partial<IgnoreRegion>) =>
+        JSON.stringify({ version: 1, regions: [region(overrides)] })
+
+      expect(() => parseIgnoreMasks(file({ x: 0.8 }))).toThrow('outside the page')
+      expect(() => parseIgnoreMasks(file({ page: 0 }))).toThrow('invalid page')
+      expect(() => parseIgnoreMasks(file({ page: 1, pdf: 3 as 1 }))).toThrow('invalid document')
+    })
+
+    it('should reject more regions on a page than drawing allows', () => {
+      const file = (pages: (number | null)[]) =>
+        serializeIgnoreMasks(pages.map((page, index) => region({ id: `r${index}`, page })))
+      const shared = new Array<null>(MAX_IGNORE_REGIONS - 1).fill(null)
+
+      expect(parseIgnoreMasks(file([...shared, 2, 3]))).toHaveLength(MAX_IGNORE_REGIONS + 1)
+      expect(() => parseIgnoreMasks(file([...shared, 2, 2]))).toThrow('regions on page 2 of PDF 1')
+      expect(() => parseIgnoreMasks(file([...shared, null, null]))).toThrow('for every page')
+    })
+
+    it('should give imported regions without an id one', () => {
+      const json = JSON.stringify({ version: 1, regions: [{ ...region(), id: undefined }] })
+
+      expect(parseIgnoreMasks(json)[0].id).toBe('imported-1')
+    })
+  })
+})
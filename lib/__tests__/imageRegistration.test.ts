@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type RegistrationSample,
+  estimateRegistration,
+  inkCentroid,
+  phaseCorrelate,
+  placeRegisteredPage,
+  scaleSample,
+  toRegistrationSample,
+} from '../imageRegistration'
+
+describe('imageRegistration', () => {
+  const SIZE = 128
+
+  // A page of a few filled rectangles (ink), shifted and scaled about the top-left corner
+  const createSample = (shiftX = 0, shiftY = 0, scale = 1): RegistrationSample => {
+    const blocks = [
+      [16, 12, 60, 8],
+      [16, 28, 44, 6],
+      [24, 48, 20, 20],
+      [72, 60, 28, 10],
+      [12, 88, 80, 4],
+      [96, 100, 8, 8],
+    ]
+    const data = new Float64Array(SIZE * SIZE)
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const sourceX = (x - shiftX) / scale
+        const sourceY = (y - shiftY) / scale
+        const inside = blocks.some(
+          ([bx, by, width, height]) =>
+            sourceX >= bx && sourceX < bx + width && sourceY >= by && sourceY < by + height
+        )
+        data[y * SIZE + x] = inside ? 255 : 0
+      }
+    }
+    return { data, size: SIZE }
+  }
+
+  describe('toRegistrationSample', () => {
+    it('should store ink at the top-left of a zero-padded grid', () => {
+      const rgba = new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255])
+
+      const sample = toRegistrationSample(rgba, 2, 1, 4)
+
+      expect(sample.size).toBe(4)
+      expect(sample.data[0]).toBeCloseTo(255)
+      expect(sample.data[1]).toBeCloseTo(0)
+      expect(sample.data.slice(2).every((ink) => ink === 0)).toBe(true)
+    })
+  })
+
+  describe('phaseCorrelate', () => {
+    it('should find the shift that moves the second sample onto the first', () => {
+      const translation = phaseCorrelate(createSample(3, -2), createSample())
+
+      expect(translation.x).toBeCloseTo(3, 0)
+      expect(translation.y).toBeCloseTo(-2, 0)
+      expect(translation.peak).toBeGreaterThan(0.5)
+    })
+
+    it('should report a perfect peak for identical samples', () => {
+      const translation = phaseCorrelate(createSample(), createSample())
+
+      expect(translation.x).toBeCloseTo(0)
+      expect(translation.y).toBeCloseTo(0)
+      expect(translation.peak).toBeGreaterThan(0.9)
+    })
+  })
+
+  describe('scaleSample', () => {
+    it('should scale about the top-left corner', () => {
+      const sample = { data: new Float64Array(16), size: 4 }
+      sample.data[1 * 4 + 1] = 100
+
+      const scaled = scaleSample(sample, 2)
+
+      expect(scaled.data[2 * 4 + 2]).toBeCloseTo(100)
+      expect(scaled.data[1 * 4 + 1]).toBeCloseTo(25)
+    })
+  })
+
+  describe('estimateRegistration', () => {
+    it('should find a small scale difference', () => {
+      const registration = estimateRegistration(createSample(0, 0, 1.015), createSample())
+
+      // Edges of the scaled blocks snap to whole cells, so the match is approximate
+      expect(registration!.scale).toBeGreaterThan(1.005)
+      expect(registration!.scale).toBeLessThan(1.02)
+      expect(Math.abs(registration!.x)).toBeLessThan(2)
+      expect(Math.abs(registration!.y)).toBeLessThan(2)
+    })
+
+    it('should keep an unscaled shift unscaled', () => {
+      const registration = estimateRegistration(createSample(2, 1), createSample())
+
+      expect(registration).toMatchObject({ scale: 1 })
+      expect(registration!.x).toBeCloseTo(2, 0)
+      expect(registration!.y).toBeCloseTo(1, 0)
+    })
+
+    it('should not register blank samples', () => {
+      const blank = { data: new Float64Array(SIZE * SIZE), size: SIZE }
+
+      expect(estimateRegistration(blank, blank)).toBeNull()
+    })
+  })
+
+  describe('placeRegisteredPage', () => {
+    it('should place PDF 2 relative to the placement of PDF 1', () => {
+      const placement = placeRegisteredPage(
+        { offsetX: 10, offsetY: 20, scale: 2 },
+        { width: 100, height: 50 },
+        { offsetX: 3, offsetY: -1, scale: 1.01, confidence: 0.9 }
+      )
+
+      expect(placement.scale).toBeCloseTo(2.02)
+      expect(placement.width).toBeCloseTo(202)
+      expect(placement.height).toBeCloseTo(101)
+      expect(placement).toMatchObject({ offsetX: 16, offsetY: 18 })
+    })
+  })
+
+  describe('inkCentroid', () => {
+    it('should find the centre of the ink, or the middle of a blank sample', () => {
+      const sample = { data: new Float64Array(16), size: 4 }
+      expect(inkCentroid(sample)).toEqual({ x: 2, y: 2 })
+
+      sample.data[1 * 4 + 3] = 10
+      sample.data[3 * 4 + 3] = 10
+      expect(inkCentroid(sample)).toEqual({ x: 3, y: 2 })
+    })
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { type LruEntry, getTotalSize, selectLruEvictions } from '../lruEviction'
+
+describe('lruEviction', () => {
+  const entries: LruEntry[] = [
+    { key: 'newest', size: 40, lastAccess: 300 },
+    { key: 'oldest', size: 30, lastAccess: 100 },
+    { key: 'middle', size: 50, lastAccess: 200 },
+  ]
+
+  it('should sum the entry sizes', () => {
+    expect(getTotalSize(entries)).toBe(120)
+    expect(getTotalSize([])).toBe(0)
+  })
+
+  it('should not evict anything within the quota', () => {
+    expect(selectLruEvictions(entries, 120)).toEqual([])
+  })
+
+  it('should evict the least recently used entries first', () => {
+    expect(selectLruEvictions(entries, 100)).toEqual(['oldest'])
+    expect(selectLruEvictions(entries, 60)).toEqual(['oldest', 'middle'])
+  })
+
+  it('should evict an entry larger than the whole quota', () => {
+    expect(selectLruEvictions([{ key: 'huge', size: 500, lastAccess: 1 }], 100)).toEqual(['huge'])
+  })
+})
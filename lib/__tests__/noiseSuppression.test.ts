@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyMorphology,
+  removeSmallRegions,
+  suppressNoise,
+  unhighlightSuppressedPixels,
+} from '../noiseSuppression'
+import { createMask } from '../../test/masks'
+
+describe('noiseSuppression', () => {
+  const toRows = (mask: Uint8Array, width: number) =>
+    Array.from({ length: mask.length / width }, (_, y) =>
+      Array.from(mask.slice(y * width, (y + 1) * width), (value) => (value ? '#' : '.')).join('')
+    )
+
+  // A 3x3 block with a stray pixel in the top-right corner
+  const noisy = ['......#', '.......', '.###...', '.###...', '.###...', '.......']
+
+  describe('applyMorphology', () => {
+    it('should remove specks and keep blocks when opening', () => {
+      expect(toRows(applyMorphology(createMask(noisy), 7, 6, 'open', 3), 7)).toEqual([
+        '.......',
+        '.......',
+        '.###...',
+        '.###...',
+        '.###...',
+        '.......',
+      ])
+    })
+
+    it('should fill small gaps when closing', () => {
+      const gap = ['.......', '.##.##.', '.##.##.', '.......']
+
+      expect(toRows(applyMorphology(createMask(gap), 7, 4, 'close', 3), 7)).toEqual([
+        '.......',
+        '.#####.',
+        '.#####.',
+        '.......',
+      ])
+    })
+
+    it('should grow and shrink changes', () => {
+      const mask = createMask(noisy)
+
+      expect(applyMorphology(mask, 7, 6, 'dilate', 3).reduce((a, b) => a + b)).toBe(29)
+      expect(toRows(applyMorphology(mask, 7, 6, 'erode', 3), 7)[3]).toBe('..#....')
+    })
+
+    it('should keep changes at the image border when opening', () => {
+      const mask = createMask(['###.', '###.', '###.'])
+
+      expect(applyMorphology(mask, 4, 3, 'open', 3)).toEqual(mask)
+    })
+
+    it('should leave the mask as is for a 1-pixel kernel', () => {
+      const mask = createMask(noisy)
+
+      expect(applyMorphology(mask, 7, 6, 'open', 1)).toBe(mask)
+    })
+  })
+
+  describe('removeSmallRegions', () => {
+    it('should discard connected changes below the minimum area', () => {
+      const mask = createMask(['#.....#', '......#', '.......', '.##....'])
+
+      expect(toRows(removeSmallRegions(mask, 7, 4, 2), 7)).toEqual([
+        '......#',
+        '......#',
+        '.......',
+        '.##....',
+      ])
+    })
+
+    it('should treat diagonal neighbours as connected', () => {
+      const mask = createMask(['#..', '.#.', '..#'])
+
+      expect(removeSmallRegions(mask, 3, 3, 3).reduce((a, b) => a + b)).toBe(3)
+    })
+  })
+
+  describe('suppressNoise', () => {
+    it('should return null without suppression', () => {
+      expect(suppressNoise(createMask(noisy), 7, 6, {})).toBeNull()
+      expect(suppressNoise(createMask(noisy), 7, 6, { morphology: 'none', minRegionArea: 1 })).toBe(
+        null
+      )
+    })
+
+    it('should filter a copy of the mask and count what is left', () => {
+      const mask = createMask(noisy)
+
+      const result = suppressNoise(mask, 7, 6, { minRegionArea: 4 })
+
+      expect(result?.differenceCount).toBe(9)
+      expect(mask[6]).toBe(1)
+    })
+
+    it('should not grow changes into ignored pixels', () => {
+      const ignoreMask = new Uint8Array(42)
+      ignoreMask.fill(1, 0, 7) // Top row
+
+      const result = suppressNoise(createMask(noisy), 7, 6, { morphology: 'dilate' }, ignoreMask)
+
+      expect(result?.differenceCount).toBe(27)
+      expect(result?.mask.slice(0, 7).every((value) => value === 0)).toBe(true)
+    })
+  })
+
+  describe('unhighlightSuppressedPixels', () => {
+    it('should redraw discarded changes from the original data', () => {
+      const diffData = new Uint8ClampedArray([255, 0, 0, 255, 255, 0, 0, 255])
+      const originalData = new Uint8ClampedArray([10, 20, 30, 255, 40, 50, 60, 255])
+
+      unhighlightSuppressedPixels(diffData, originalData, createMask(['##']), createMask(['.#']))
+
+      expect([...diffData]).toEqual([10, 20, 30, 255, 255, 0, 0, 255])
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type PageFingerprint,
+  alignPages,
+  createThumbnailSignature,
+  formatPagePair,
+  pageSimilarity,
+  sequentialPagePairs,
+  textSimilarity,
+  thumbnailSimilarity,
+  tokenizeText,
+  upsertManualPair,
+} from '../pageAlignment'
+
+describe('pageAlignment', () => {
+  // Helper to create a 4×4 thumbnail with a dark square at the given cell
+  const createThumbnail = (darkCell: number): Float32Array => {
+    const thumbnail = new Float32Array(16).fill(255)
+    thumbnail[darkCell] = 0
+    return thumbnail
+  }
+
+  const createPage = (pageNumber: number, text: string, darkCell = 0): PageFingerprint => ({
+    pageNumber,
+    text,
+    thumbnail: createThumbnail(darkCell),
+  })
+
+  const chapters = [
+    'Introduction to the quarterly report and overview of results',
+    'Revenue grew in every region except the northern territories',
+    'Operating costs were reduced through supplier consolidation',
+    'Outlook for next year and risks to the forecast',
+  ]
+
+  describe('sequentialPagePairs', () => {
+    it('should pair pages by number', () => {
+      expect(sequentialPagePairs(2, 2)).toEqual([
+        { leftPage: 1, rightPage: 1, status: 'matched' },
+        { leftPage: 2, rightPage: 2, status: 'matched' },
+      ])
+    })
+
+    it('should mark surplus pages as inserted or deleted', () => {
+      expect(sequentialPagePairs(1, 2)[1]).toEqual({
+        leftPage: null,
+        rightPage: 2,
+        status: 'inserted',
+      })
+      expect(sequentialPagePairs(3, 2)[2]).toEqual({
+        leftPage: 3,
+        rightPage: null,
+        status: 'deleted',
+      })
+    })
+  })
+
+  describe('manual pairs', () => {
+    it('should pin manual pairs and pair the remaining pages in order', () => {
+      // Appendix moved from page 2 to page 3
+      const pairs = sequentialPagePairs(3, 3, [{ leftPage: 2, rightPage: 3 }])
+
+      expect(pairs.map((pair) => [pair.leftPage, pair.rightPage])).toEqual([
+        [1, 1],
+        [2, 3],
+        [3, 2],
+      ])
+      expect(pairs[1].manual).toBe(true)
+    })
+
+    it('should replace manual pairs that share a page', () => {
+      const manual = upsertManualPair(
+        [
+          { leftPage: 1, rightPage: 2 },
+          { leftPage: 3, rightPage: 4 },
+        ],
+        { leftPage: 3, rightPage: 7 }
+      )
+
+      expect(manual).toEqual([
+        { leftPage: 1, rightPage: 2 },
+        { leftPage: 3, rightPage: 7 },
+      ])
+    })
+
+    it('should override automatic matching', () => {
+      const left = chapters.map((text, i) => createPage(i + 1, text, i))
+      const right = chapters.map((text, i) => createPage(i + 1, text, i))
+      const pairs = alignPages(left, right, undefined, [{ leftPage: 1, rightPage: 4 }])
+
+      expect(pairs.filter((pair) => pair.leftPage === 1)).toEqual([
+        { leftPage: 1, rightPage: 4, status: 'matched', manual: true },
+      ])
+      expect(pairs.filter((pair) => pair.leftPage === 4)).toEqual([
+        { leftPage: 4, rightPage: null, status: 'deleted' },
+      ])
+      expect(pairs.filter((pair) => pair.rightPage === 1)).toEqual([
+        { leftPage: null, rightPage: 1, status: 'inserted' },
+      ])
+    })
+  })
+
+  describe('formatPagePair', () => {
+    it('should label matched and unmatched pairs', () => {
+      expect(formatPagePair({ leftPage: 3, rightPage: 4, status: 'matched' })).toBe('3 ↔ 4')
+      expect(formatPagePair({ leftPage: null, rightPage: 2, status: 'inserted' })).toBe(
+        '– ↔ 2 (inserted)'
+      )
+      expect(formatPagePair({ leftPage: 3, rightPage: 7, status: 'matched', manual: true })).toBe(
+        '3 ↔ 7 (manual)'
+      )
+    })
+  })
+
+  describe('createThumbnailSignature', () => {
+    it('should average luminance per grid cell', () => {
+      // 2×2 image: black, white / white, white
+      const data = new Uint8ClampedArray([
+        0, 0, 0, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+      ])
+      const signature = createThumbnailSignature(data, 2, 2, 2)
+
+      expect(signature[0]).toBeCloseTo(0)
+      expect(signature[1]).toBeCloseTo(255)
+      expect(signature[3]).toBeCloseTo(255)
+    })
+  })
+
+  describe('textSimilarity', () => {
+    it('should ignore case and punctuation', () => {
+      expect(textSimilarity(tokenizeText('Hello, World!'), tokenizeText('hello world'))).toBe(1)
+    })
+
+    it('should return 0 for disjoint texts', () => {
+      expect(textSimilarity(tokenizeText('alpha beta'), tokenizeText('gamma delta'))).toBe(0)
+    })
+
+    it('should treat two empty texts as identical', () => {
+      expect(textSimilarity(new Set(), new Set())).toBe(1)
+    })
+  })
+
+  describe('thumbnailSimilarity', () => {
+    it('should return 1 for identical thumbnails', () => {
+      expect(thumbnailSimilarity(createThumbnail(5), createThumbnail(5))).toBeCloseTo(1)
+    })
+
+    it('should score different layouts low', () => {
+      expect(thumbnailSimilarity(createThumbnail(0), createThumbnail(15))).toBeLessThan(0.1)
+    })
+
+    it('should treat two blank pages as identical', () => {
+      const blank = new Float32Array(16).fill(255)
+      expect(thumbnailSimilarity(blank, blank)).toBe(1)
+    })
+  })
+
+  describe('pageSimilarity', () => {
+    it('should fall back to visual similarity for pages without text', () => {
+      expect(pageSimilarity(createPage(1, '', 3), createPage(1, '', 3))).toBeCloseTo(1)
+      expect(pageSimilarity(createPage(1, '', 0), createPage(1, '', 15))).toBeLessThan(0.1)
+    })
+  })
+
+  describe('alignPages', () => {
+    const left = chapters.map((text, i) => createPage(i + 1, text, i))
+
+    it('should match identical documents page by page', () => {
+      const right = chapters.map((text, i) => createPage(i + 1, text, i))
+      const pairs = alignPages(left, right)
+
+      expect(pairs).toHaveLength(4)
+      expect(pairs.every((pair) => pair.status === 'matched')).toBe(true)
+      expect(pairs.map((pair) => pair.rightPage)).toEqual([1, 2, 3, 4])
+    })
+
+    it('should detect an inserted cover page', () => {
+      const right = [
+        createPage(1, 'Annual report cover', 10),
+        ...chapters.map((text, i) => createPage(i + 2, text, i)),
+      ]
+      const pairs = alignPages(left, right)
+
+      expect(pairs[0]).toEqual({ leftPage: null, rightPage: 1, status: 'inserted' })
+      expect(pairs.slice(1).map((pair) => [pair.leftPage, pair.rightPage])).toEqual([
+        [1, 2],
+        [2, 3],
+        [3, 4],
+        [4, 5],
+      ])
+    })
+
+    it('should detect a deleted page', () => {
+      const right = [chapters[0], chapters[1], chapters[3]].map((text, i) =>
+        createPage(i + 1, text, [0, 1, 3][i])
+      )
+      const pairs = alignPages(left, right)
+
+      expect(pairs).toHaveLength(4)
+      expect(pairs[2]).toEqual({ leftPage: 3, rightPage: null, status: 'deleted' })
+      expect(pairs[3]).toMatchObject({ leftPage: 4, rightPage: 3, status: 'matched' })
+    })
+
+    it('should still match slightly edited pages', () => {
+      const right = chapters.map((text, i) =>
+        createPage(i + 1, i === 1 ? text.replace('northern', 'southern') : text, i)
+      )
+      const pairs = alignPages(left, right)
+
+      expect(pairs.every((pair) => pair.status === 'matched')).toBe(true)
+      expect(pairs[1].similarity).toBeLessThan(1)
+    })
+
+    it('should handle empty documents', () => {
+      expect(alignPages([], [])).toEqual([])
+      expect(alignPages(left.slice(0, 1), [])).toEqual([
+        { leftPage: 1, rightPage: null, status: 'deleted' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PALETTE_PRESETS,
+  VIRIDIS_STOPS,
+  clonePalette,
+  parseHexColor,
+  resolvePalette,
+  sampleColorScale,
+  toCssColor,
+  toHexColor,
+} from '../palettes'
+
+describe('palettes', () => {
+  describe('resolvePalette', () => {
+    it('should default to the classic palette', () => {
+      expect(resolvePalette()).toBe(PALETTE_PRESETS.classic)
+      expect(resolvePalette('custom')).toBe(PALETTE_PRESETS.classic)
+    })
+
+    it('should pick a preset or the custom colours', () => {
+      const custom = clonePalette(PALETTE_PRESETS.viridis)
+
+      expect(resolvePalette('okabeIto', custom)).toBe(PALETTE_PRESETS.okabeIto)
+      expect(resolvePalette('custom', custom)).toBe(custom)
+    })
+  })
+
+  describe('clonePalette', () => {
+    it('should copy the colours so editing the copy leaves the preset as it was', () => {
+      const copy = clonePalette(PALETTE_PRESETS.classic)
+      copy.added.r = 0
+
+      expect(copy).not.toEqual(PALETTE_PRESETS.classic)
+      expect(PALETTE_PRESETS.classic.added.r).toBe(34)
+    })
+  })
+
+  describe('sampleColorScale', () => {
+    it('should hit the stops and interpolate between them', () => {
+      expect(sampleColorScale(VIRIDIS_STOPS, 0)).toEqual(VIRIDIS_STOPS[0])
+      expect(sampleColorScale(VIRIDIS_STOPS, 0.5)).toEqual(VIRIDIS_STOPS[4])
+      expect(sampleColorScale(VIRIDIS_STOPS, 1)).toEqual(VIRIDIS_STOPS[8])
+      expect(
+        sampleColorScale(
+          [
+            { r: 0, g: 0, b: 0 },
+            { r: 100, g: 200, b: 50 },
+          ],
+          0.5
+        )
+      ).toEqual({
+        r: 50,
+        g: 100,
+        b: 25,
+      })
+    })
+
+    it('should clamp values outside the scale', () => {
+      expect(sampleColorScale(VIRIDIS_STOPS, -1)).toEqual(VIRIDIS_STOPS[0])
+      expect(sampleColorScale(VIRIDIS_STOPS, 2)).toEqual(VIRIDIS_STOPS[8])
+    })
+  })
+
+  describe('colour formats', () => {
+    it('should format colours for CSS and colour inputs', () => {
+      expect(toCssColor({ r: 0, g: 114, b: 178 })).toBe('rgb(0, 114, 178)')
+      expect(toHexColor({ r: 0, g: 114, b: 178 })).toBe('#0072b2')
+    })
+
+    it('should parse #rrggbb colours only', () => {
+      expect(parseHexColor('#D55E00')).toEqual({ r: 213, g: 94, b: 0 })
+      expect(parseHexColor('#fff')).toBeNull()
+      expect(parseHexColor('red')).toBeNull()
+    })
+  })
+})
@@ -7,7 +7,20 @@ import {
   overlayDiff,
   heatmapDiff,
   semanticDiff,
+  deltaEDiff,
+  deltaE2000,
+  rgbToLab,
+  ssimDiff,
+  isAntialiased,
+  ANTIALIASED_COLOR,
+  SHARED_EDGE_COLOR,
+  PAPER_WHITE,
+  detectBackgroundColor,
+  detectEdges,
+  edgesDiff,
+  getHeatmapColor,
 } from '../pdfDiffAlgorithms'
+import { PALETTE_PRESETS } from '../palettes'
 
 describe('pdfDiffAlgorithms', () => {
   // Helper to create test image data
@@ -42,7 +55,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(8)
       const originalData = new Uint8ClampedArray(8)
 
-      const count = pixelDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = pixelDiff(data1, data2, diffData, defaultOptions, { width: 2, originalData })
 
       expect(count).toBe(0)
       // First pixel should be preserved (identical)
@@ -63,7 +76,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(8)
       const originalData = new Uint8ClampedArray(8)
 
-      const count = pixelDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = pixelDiff(data1, data2, diffData, defaultOptions, { width: 2, originalData })
 
       expect(count).toBe(2) // Both pixels different
       // Different pixels should be red
@@ -72,13 +85,29 @@ describe('pdfDiffAlgorithms', () => {
       expect(diffData[2]).toBe(0) // B
     })
 
+    it('should mark the counted pixels in the change mask', () => {
+      const data1 = createImageData([
+        [255, 0, 0, 255],
+        [0, 255, 0, 255],
+      ])
+      const data2 = createImageData([
+        [255, 0, 0, 255],
+        [0, 0, 255, 255],
+      ])
+      const changeMask = new Uint8Array(2)
+
+      pixelDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, { width: 2, changeMask })
+
+      expect([...changeMask]).toEqual([0, 1])
+    })
+
     it('should populate originalData correctly', () => {
       const data1 = createImageData([[100, 150, 200, 255]])
       const data2 = createImageData([[100, 150, 200, 255]])
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      pixelDiff(data1, data2, diffData, defaultOptions, originalData)
+      pixelDiff(data1, data2, diffData, defaultOptions, { width: 1, originalData })
 
       expect(originalData[0]).toBe(100)
       expect(originalData[1]).toBe(150)
@@ -87,6 +116,46 @@ describe('pdfDiffAlgorithms', () => {
     })
   })
 
+  describe('anti-aliasing', () => {
+    // Three rows of a grey level gradient, an edge rendered one pixel apart in both images
+    const gray = (levels: number[]) => createImageData(levels.map((v) => [v, v, v, 255]))
+    const edge1 = gray(new Array(3).fill([0, 0, 128, 255, 255, 255]).flat())
+    const edge2 = gray(new Array(3).fill([0, 0, 0, 128, 255, 255]).flat())
+
+    it('should recognise pixels on a shifted edge as anti-aliased', () => {
+      expect(isAntialiased(edge1, edge2, 8, 6)).toBe(true)
+      expect(isAntialiased(edge1, edge2, 9, 6)).toBe(true)
+    })
+
+    it('should not treat a change within a flat area as anti-aliasing', () => {
+      const flat = gray(new Array(9).fill(255))
+      const dot = gray([255, 255, 255, 255, 0, 255, 255, 255, 255])
+
+      expect(isAntialiased(flat, dot, 4, 3)).toBe(false)
+    })
+
+    it('should exclude anti-aliased pixels from the count and mute them', () => {
+      const options: DiffOptions = { ...defaultOptions, ignoreAntialiasing: true }
+      const diffData = new Uint8ClampedArray(edge1.length)
+
+      const count = pixelDiff(edge1, edge2, diffData, options, { width: 6 })
+
+      expect(count).toBe(0)
+      expect([diffData[32], diffData[33], diffData[34]]).toEqual([
+        ANTIALIASED_COLOR.r,
+        ANTIALIASED_COLOR.g,
+        ANTIALIASED_COLOR.b,
+      ])
+    })
+
+    it('should count anti-aliased pixels unless asked to ignore them', () => {
+      const diffData = new Uint8ClampedArray(edge1.length)
+
+      expect(pixelDiff(edge1, edge2, diffData, defaultOptions, { width: 6 })).toBe(6)
+      expect(thresholdDiff(edge1, edge2, diffData, defaultOptions, { width: 6 })).toBe(6)
+    })
+  })
+
   describe('thresholdDiff', () => {
     it('should ignore differences below threshold', () => {
       const data1 = createImageData([[100, 100, 100, 255]])
@@ -99,7 +168,7 @@ describe('pdfDiffAlgorithms', () => {
         data2,
         diffData,
         { ...defaultOptions, threshold: 10 },
-        originalData
+        { width: 1, originalData }
       )
 
       expect(count).toBe(0) // Total diff of 6 is below threshold of 10
@@ -116,7 +185,7 @@ describe('pdfDiffAlgorithms', () => {
         data2,
         diffData,
         { ...defaultOptions, threshold: 10 },
-        originalData
+        { width: 1, originalData }
       )
 
       expect(count).toBe(1) // Above threshold
@@ -132,7 +201,10 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      const count = grayscaleDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = grayscaleDiff(data1, data2, diffData, defaultOptions, {
+        width: 1,
+        originalData,
+      })
 
       expect(count).toBe(1) // Different luminance
     })
@@ -143,7 +215,13 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      grayscaleDiff(data1, data2, diffData, { ...defaultOptions, useGrayscale: true }, originalData)
+      grayscaleDiff(
+        data1,
+        data2,
+        diffData,
+        { ...defaultOptions, useGrayscale: true },
+        { width: 1, originalData }
+      )
 
       // Should be grayscale
       expect(diffData[0]).toBe(diffData[1])
@@ -158,7 +236,13 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      overlayDiff(data1, data2, diffData, { ...defaultOptions, overlayOpacity: 0.5 }, originalData)
+      overlayDiff(
+        data1,
+        data2,
+        diffData,
+        { ...defaultOptions, overlayOpacity: 0.5 },
+        { width: 1, originalData }
+      )
 
       // Should preserve the color for identical pixels
       expect(diffData[0]).toBe(100)
@@ -172,7 +256,13 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      overlayDiff(data1, data2, diffData, { ...defaultOptions, overlayOpacity: 0.5 }, originalData)
+      overlayDiff(
+        data1,
+        data2,
+        diffData,
+        { ...defaultOptions, overlayOpacity: 0.5 },
+        { width: 1, originalData }
+      )
 
       // Should have red tint from difference
       expect(diffData[0]).toBeGreaterThan(0) // Has red component
@@ -185,8 +275,20 @@ describe('pdfDiffAlgorithms', () => {
       const diffData2 = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      overlayDiff(data1, data2, diffData1, { ...defaultOptions, overlayOpacity: 0.2 }, originalData)
-      overlayDiff(data1, data2, diffData2, { ...defaultOptions, overlayOpacity: 0.8 }, originalData)
+      overlayDiff(
+        data1,
+        data2,
+        diffData1,
+        { ...defaultOptions, overlayOpacity: 0.2 },
+        { width: 1, originalData }
+      )
+      overlayDiff(
+        data1,
+        data2,
+        diffData2,
+        { ...defaultOptions, overlayOpacity: 0.8 },
+        { width: 1, originalData }
+      )
 
       // Higher opacity should show more difference
       expect(diffData2[0]).toBeGreaterThan(diffData1[0])
@@ -200,7 +302,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      heatmapDiff(data1, data2, diffData, defaultOptions, originalData)
+      heatmapDiff(data1, data2, diffData, defaultOptions, { width: 1, originalData })
 
       // No difference should be blue (cool)
       expect(diffData[2]).toBeGreaterThan(diffData[0]) // More blue than red
@@ -212,7 +314,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      heatmapDiff(data1, data2, diffData, defaultOptions, originalData)
+      heatmapDiff(data1, data2, diffData, defaultOptions, { width: 1, originalData })
 
       // Large difference should be red (hot)
       expect(diffData[0]).toBeGreaterThan(diffData[2]) // More red than blue
@@ -230,7 +332,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(8)
       const originalData = new Uint8ClampedArray(8)
 
-      const count = heatmapDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = heatmapDiff(data1, data2, diffData, defaultOptions, { width: 2, originalData })
 
       expect(count).toBe(1) // One pixel different
     })
@@ -243,7 +345,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      semanticDiff(data1, data2, diffData, defaultOptions, originalData)
+      semanticDiff(data1, data2, diffData, defaultOptions, { width: 1, originalData })
 
       // Should detect as minor styling change (yellow)
       expect(diffData[0]).toBeGreaterThan(0) // Has red
@@ -256,10 +358,56 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      semanticDiff(data1, data2, diffData, defaultOptions, originalData)
+      semanticDiff(data1, data2, diffData, defaultOptions, { width: 1, originalData })
 
-      // Should detect as major structural change (red/magenta)
-      expect(diffData[0]).toBeGreaterThan(200) // Strong red for structural change
+      // Text on the opaque white page is an addition (green)
+      expect([...diffData]).toEqual([34, 197, 94, 255])
+    })
+
+    // 10x10 page of the given paper colour with its first pixel inked
+    const createPage = (paper: number[], ink?: number[]) =>
+      createImageData(Array.from({ length: 100 }, (_, i) => (i === 0 && ink ? ink : paper)))
+
+    it('should classify against the detected background of each document', () => {
+      const cream = [250, 240, 200, 255]
+      const grey = [230, 230, 230, 255]
+      const diffData = new Uint8ClampedArray(400)
+
+      // Text removed from a cream page; the other version is printed on grey paper
+      const count = semanticDiff(
+        createPage(cream, [0, 0, 0, 255]),
+        createPage(grey),
+        diffData,
+        defaultOptions,
+        { width: 10 }
+      )
+
+      expect(count).toBe(1)
+      expect([...diffData.slice(0, 4)]).toEqual([239, 68, 68, 255])
+    })
+
+    it('should use a custom background with its tolerance', () => {
+      const data1 = createPage([200, 200, 200, 255])
+      const data2 = createPage([200, 200, 200, 255], [170, 170, 170, 255])
+      const options: DiffOptions = {
+        ...defaultOptions,
+        semanticBackground: 'custom',
+        semanticBackgroundColor: { r: 200, g: 200, b: 200 },
+      }
+
+      expect(semanticDiff(data1, data2, new Uint8ClampedArray(400), options, { width: 10 })).toBe(1)
+      expect(
+        semanticDiff(
+          data1,
+          data2,
+          new Uint8ClampedArray(400),
+          {
+            ...options,
+            semanticBackgroundTolerance: 30,
+          },
+          { width: 10 }
+        )
+      ).toBe(0)
     })
 
     it('should count different pixels', () => {
@@ -274,12 +422,312 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(8)
       const originalData = new Uint8ClampedArray(8)
 
-      const count = semanticDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = semanticDiff(data1, data2, diffData, defaultOptions, { width: 2, originalData })
 
       expect(count).toBe(1) // One pixel different
     })
   })
 
+  describe('deltaEDiff', () => {
+    it('should convert sRGB to CIELAB', () => {
+      const white = rgbToLab(255, 255, 255)
+      expect(white[0]).toBeCloseTo(100, 2)
+      expect(white[1]).toBeCloseTo(0, 2)
+      expect(white[2]).toBeCloseTo(0, 2)
+
+      const red = rgbToLab(255, 0, 0)
+      expect(red[0]).toBeCloseTo(53.24, 1)
+      expect(red[1]).toBeCloseTo(80.09, 1)
+      expect(red[2]).toBeCloseTo(67.2, 1)
+    })
+
+    it('should match the CIEDE2000 reference data', () => {
+      // Pairs 1, 7 and 17 of the Sharma, Wu and Dalal test data
+      expect(deltaE2000([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(2.0425, 4)
+      expect(deltaE2000([50, 0, 0], [50, -1, 2])).toBeCloseTo(2.3669, 4)
+      expect(deltaE2000([50, 2.5, 0], [73, 25, -18])).toBeCloseTo(27.1492, 4)
+    })
+
+    it('should ignore colour changes below the ΔE threshold', () => {
+      const data1 = createImageData([[200, 100, 50, 255]])
+      const data2 = createImageData([[201, 100, 50, 255]])
+      const diffData = new Uint8ClampedArray(4)
+
+      const count = deltaEDiff(
+        data1,
+        data2,
+        diffData,
+        { ...defaultOptions, mode: 'deltaE' },
+        { width: 1 }
+      )
+
+      expect(count).toBe(0)
+      expect(diffData[0]).toBe(200)
+    })
+
+    it('should grade visible changes as noticeable or obvious', () => {
+      const data1 = createImageData([
+        [200, 100, 50, 255],
+        [255, 255, 255, 255],
+      ])
+      const data2 = createImageData([
+        [206, 100, 50, 255],
+        [0, 0, 0, 255],
+      ])
+      const diffData = new Uint8ClampedArray(8)
+      const originalData = new Uint8ClampedArray(8)
+
+      const count = deltaEDiff(
+        data1,
+        data2,
+        diffData,
+        { ...defaultOptions, mode: 'deltaE', deltaEThreshold: 1 },
+        { width: 2, originalData }
+      )
+
+      expect(count).toBe(2)
+      expect([diffData[0], diffData[1], diffData[2]]).toEqual([245, 158, 11]) // Noticeable
+      expect([diffData[4], diffData[5], diffData[6]]).toEqual([239, 68, 68]) // Obvious
+      expect(originalData[4]).toBe(255)
+    })
+  })
+
+  describe('ssimDiff', () => {
+    // 16x16 grey page with a 4x4 black square, optionally shifted right
+    const createPage = (shift = 0): Uint8ClampedArray => {
+      const pixels: number[][] = []
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) {
+          const inSquare = x >= 6 + shift && x < 10 + shift && y >= 6 && y < 10
+          pixels.push(inSquare ? [0, 0, 0, 255] : [200, 200, 200, 255])
+        }
+      }
+      return createImageData(pixels)
+    }
+
+    it('should score identical pages as 1 without differences', () => {
+      const diffData = new Uint8ClampedArray(16 * 16 * 4)
+
+      const result = ssimDiff(createPage(), createPage(), diffData, defaultOptions, { width: 16 })
+
+      expect(result.ssim).toBeCloseTo(1, 6)
+      expect(result.differenceCount).toBe(0)
+    })
+
+    it('should score and shade structural changes', () => {
+      const diffData = new Uint8ClampedArray(16 * 16 * 4)
+      const originalData = new Uint8ClampedArray(16 * 16 * 4)
+
+      const result = ssimDiff(createPage(), createPage(3), diffData, defaultOptions, {
+        width: 16,
+        originalData,
+      })
+
+      expect(result.ssim).toBeLessThan(0.9)
+      expect(result.differenceCount).toBeGreaterThan(0)
+      // Pixels around the moved square are shaded red; the far corner stays unshaded
+      const i = (7 * 16 + 8) * 4
+      expect(diffData[i]).toBeGreaterThan(diffData[i + 1])
+      expect(diffData[0]).toBe(diffData[1])
+      expect(originalData[i]).toBe(0)
+    })
+
+    it('should tolerate small changes below the local threshold', () => {
+      const page2 = createPage()
+      page2[(7 * 16 + 7) * 4] = 10 // One slightly different pixel inside the square
+      const diffData = new Uint8ClampedArray(16 * 16 * 4)
+
+      const result = ssimDiff(createPage(), page2, diffData, defaultOptions, { width: 16 })
+
+      expect(result.differenceCount).toBe(0)
+      expect(result.ssim).toBeLessThan(1)
+    })
+  })
+
+  describe('detectBackgroundColor', () => {
+    it('should find the most common colour', () => {
+      const page = createImageData(
+        Array.from({ length: 100 }, (_, i) => (i < 30 ? [0, 0, 0, 255] : [250, 240, 200, 255]))
+      )
+
+      expect(detectBackgroundColor(page)).toEqual({ r: 250, g: 240, b: 200 })
+    })
+
+    it('should fall back to white without a clear or measurable background', () => {
+      const noisy = createImageData(Array.from({ length: 100 }, (_, i) => [i * 2, i, 255 - i, 255]))
+
+      expect(detectBackgroundColor(noisy)).toEqual(PAPER_WHITE)
+      expect(detectBackgroundColor(createImageData([[0, 0, 0, 255]]))).toEqual(PAPER_WHITE)
+    })
+  })
+
+  describe('edgesDiff', () => {
+    // White 12x4 page with a black bar over the given columns
+    const createBarPage = (from: number, to: number) =>
+      createImageData(
+        Array.from({ length: 48 }, (_, i) =>
+          i % 12 >= from && i % 12 <= to ? [0, 0, 0, 255] : [255, 255, 255, 255]
+        )
+      )
+
+    it('should find one thin edge on each side of a bar', () => {
+      const luminance = Float32Array.from({ length: 12 }, (_, x) => (x >= 2 && x <= 4 ? 0 : 255))
+
+      expect([...detectEdges(luminance, 12, 1)]).toEqual([0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0])
+    })
+
+    it('should colour edges only in one page by page and count them', () => {
+      const diffData = new Uint8ClampedArray(192)
+      const changeMask = new Uint8Array(48)
+
+      const count = edgesDiff(createBarPage(2, 4), createBarPage(7, 9), diffData, defaultOptions, {
+        width: 12,
+        changeMask,
+      })
+
+      // Edges at columns 1 and 4 moved to 6 and 9, in every row
+      expect(count).toBe(16)
+      expect([...diffData.slice(4, 8)]).toEqual([239, 68, 68, 255])
+      expect([...diffData.slice(24, 28)]).toEqual([34, 197, 94, 255])
+      expect([...diffData.slice(0, 4)]).toEqual([255, 255, 255, 255])
+      expect(changeMask.reduce((a, b) => a + b)).toBe(16)
+    })
+
+    it('should draw edges within a pixel of each other as shared', () => {
+      const diffData = new Uint8ClampedArray(192)
+
+      const count = edgesDiff(createBarPage(2, 4), createBarPage(3, 5), diffData, defaultOptions, {
+        width: 12,
+      })
+
+      expect(count).toBe(0)
+      expect([...diffData.slice(4, 7)]).toEqual([
+        SHARED_EDGE_COLOR.r,
+        SHARED_EDGE_COLOR.g,
+        SHARED_EDGE_COLOR.b,
+      ])
+    })
+
+    it('should leave out the edges of ignored pixels', () => {
+      const ignoreMask = new Uint8Array(48)
+      for (let y = 0; y < 4; y++) ignoreMask.fill(1, y * 12, y * 12 + 6)
+
+      const count = edgesDiff(
+        createBarPage(2, 4),
+        createBarPage(7, 9),
+        new Uint8ClampedArray(192),
+        defaultOptions,
+        { width: 12, ignoreMask }
+      )
+
+      expect(count).toBe(8)
+    })
+  })
+
+  describe('ignore mask', () => {
+    // Two pixels that differ everywhere; the first one is masked
+    const data1 = createImageData([
+      [0, 0, 0, 255],
+      [0, 0, 0, 255],
+    ])
+    const data2 = createImageData([
+      [255, 255, 255, 255],
+      [255, 255, 255, 255],
+    ])
+    const ignoreMask = new Uint8Array([1, 0])
+    const diffs = {
+      pixel: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        pixelDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+      threshold: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        thresholdDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+      grayscale: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        grayscaleDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+      overlay: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        overlayDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+      heatmap: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        heatmapDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+      semantic: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        semanticDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+      deltaE: (diffData: Uint8ClampedArray, changeMask: Uint8Array) =>
+        deltaEDiff(data1, data2, diffData, defaultOptions, { width: 2, changeMask, ignoreMask }),
+    }
+
+    it.each(Object.entries(diffs))(
+      'should neither count nor mark masked pixels in %s mode',
+      (_, diff) => {
+        const diffData = new Uint8ClampedArray(8)
+        const changeMask = new Uint8Array(2)
+
+        expect(diff(diffData, changeMask)).toBe(1)
+        expect([...changeMask]).toEqual([0, 1])
+        // Masked pixel shows the first page faded (black becomes light grey)
+        expect([...diffData.slice(0, 4)]).toEqual([191, 191, 191, 255])
+      }
+    )
+
+    it('should leave masked pixels out of the SSIM score', () => {
+      // Grey 16x16 pages; the top-left pixel changes, which only windows within 3 pixels see
+      const page1 = createImageData(new Array(256).fill([200, 200, 200, 255]))
+      const page2 = createImageData(new Array(256).fill([200, 200, 200, 255]))
+      page2.fill(0, 0, 3)
+      const mask = new Uint8Array(256)
+      for (let y = 0; y < 4; y++) mask.fill(1, y * 16, y * 16 + 4)
+
+      const unmasked = ssimDiff(page1, page2, new Uint8ClampedArray(1024), defaultOptions, {
+        width: 16,
+      })
+      const masked = ssimDiff(page1, page2, new Uint8ClampedArray(1024), defaultOptions, {
+        width: 16,
+        ignoreMask: mask,
+      })
+
+      expect(unmasked.differenceCount).toBeGreaterThan(0)
+      expect(masked.differenceCount).toBe(0)
+      expect(masked.ssim).toBeCloseTo(1, 6)
+    })
+  })
+
+  describe('palettes', () => {
+    // Black content becomes empty (transparent): a removal in semantic mode
+    const data1 = createImageData([[0, 0, 0, 255]])
+    const data2 = new Uint8ClampedArray([255, 255, 255, 0])
+
+    it('should draw the classic colours by default', () => {
+      const diffData = new Uint8ClampedArray(4)
+
+      semanticDiff(data1, data2, diffData, defaultOptions, { width: 1 })
+
+      expect([...diffData]).toEqual([239, 68, 68, 255])
+    })
+
+    it('should draw semantic changes in the colours of the palette', () => {
+      const diffData = new Uint8ClampedArray(4)
+
+      semanticDiff(data1, data2, diffData, { ...defaultOptions, palette: 'okabeIto' }, { width: 1 })
+
+      expect([...diffData]).toEqual([230, 159, 0, 255])
+    })
+
+    it('should highlight differences in the custom colour', () => {
+      const customPalette = { ...PALETTE_PRESETS.classic, highlight: { r: 0, g: 0, b: 255 } }
+      const options: DiffOptions = { ...defaultOptions, palette: 'custom', customPalette }
+      const pixel = new Uint8ClampedArray(4)
+      const overlay = new Uint8ClampedArray(4)
+
+      pixelDiff(data1, data2, pixel, options, { width: 1 })
+      overlayDiff(data1, data2, overlay, options, { width: 1 })
+
+      expect([...pixel]).toEqual([0, 0, 255, 255])
+      expect([...overlay]).toEqual([0, 0, 128, 255])
+    })
+
+    it('should follow the heatmap scale of the palette', () => {
+      expect(getHeatmapColor(0, 'viridis')).toEqual({ r: 68, g: 1, b: 84 })
+      expect(getHeatmapColor(1, 'viridis')).toEqual({ r: 253, g: 231, b: 37 })
+      expect(getHeatmapColor(1)).toEqual({ r: 255, g: 0, b: 0 })
+    })
+  })
+
   describe('edge cases', () => {
     it('should handle empty arrays', () => {
       const data1 = new Uint8ClampedArray(0)
@@ -287,7 +735,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(0)
       const originalData = new Uint8ClampedArray(0)
 
-      const count = pixelDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = pixelDiff(data1, data2, diffData, defaultOptions, { width: 0, originalData })
 
       expect(count).toBe(0)
     })
@@ -298,7 +746,7 @@ describe('pdfDiffAlgorithms', () => {
       const diffData = new Uint8ClampedArray(4)
       const originalData = new Uint8ClampedArray(4)
 
-      const count = pixelDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = pixelDiff(data1, data2, diffData, defaultOptions, { width: 1, originalData })
 
       expect(count).toBe(1)
     })
@@ -317,7 +765,7 @@ describe('pdfDiffAlgorithms', () => {
       }
 
       const start = performance.now()
-      const count = pixelDiff(data1, data2, diffData, defaultOptions, originalData)
+      const count = pixelDiff(data1, data2, diffData, defaultOptions, { width: 1000, originalData })
       const duration = performance.now() - start
 
       expect(count).toBe(0)
@@ -337,42 +785,30 @@ describe('pdfDiffAlgorithms', () => {
       ])
 
       const counts = [
-        pixelDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, new Uint8ClampedArray(8)),
-        thresholdDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(8),
-          defaultOptions,
-          new Uint8ClampedArray(8)
-        ),
-        grayscaleDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(8),
-          defaultOptions,
-          new Uint8ClampedArray(8)
-        ),
-        overlayDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(8),
-          defaultOptions,
-          new Uint8ClampedArray(8)
-        ),
-        heatmapDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(8),
-          defaultOptions,
-          new Uint8ClampedArray(8)
-        ),
-        semanticDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(8),
-          defaultOptions,
-          new Uint8ClampedArray(8)
-        ),
+        pixelDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, {
+          width: 2,
+          originalData: new Uint8ClampedArray(8),
+        }),
+        thresholdDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, {
+          width: 2,
+          originalData: new Uint8ClampedArray(8),
+        }),
+        grayscaleDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, {
+          width: 2,
+          originalData: new Uint8ClampedArray(8),
+        }),
+        overlayDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, {
+          width: 2,
+          originalData: new Uint8ClampedArray(8),
+        }),
+        heatmapDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, {
+          width: 2,
+          originalData: new Uint8ClampedArray(8),
+        }),
+        semanticDiff(data1, data2, new Uint8ClampedArray(8), defaultOptions, {
+          width: 2,
+          originalData: new Uint8ClampedArray(8),
+        }),
       ]
 
       counts.forEach((count) => {
@@ -385,42 +821,30 @@ describe('pdfDiffAlgorithms', () => {
       const data2 = createImageData([[255, 255, 255, 255]])
 
       const counts = [
-        pixelDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, new Uint8ClampedArray(4)),
-        thresholdDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(4),
-          defaultOptions,
-          new Uint8ClampedArray(4)
-        ),
-        grayscaleDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(4),
-          defaultOptions,
-          new Uint8ClampedArray(4)
-        ),
-        overlayDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(4),
-          defaultOptions,
-          new Uint8ClampedArray(4)
-        ),
-        heatmapDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(4),
-          defaultOptions,
-          new Uint8ClampedArray(4)
-        ),
-        semanticDiff(
-          data1,
-          data2,
-          new Uint8ClampedArray(4),
-          defaultOptions,
-          new Uint8ClampedArray(4)
-        ),
+        pixelDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, {
+          width: 1,
+          originalData: new Uint8ClampedArray(4),
+        }),
+        thresholdDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, {
+          width: 1,
+          originalData: new Uint8ClampedArray(4),
+        }),
+        grayscaleDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, {
+          width: 1,
+          originalData: new Uint8ClampedArray(4),
+        }),
+        overlayDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, {
+          width: 1,
+          originalData: new Uint8ClampedArray(4),
+        }),
+        heatmapDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, {
+          width: 1,
+          originalData: new Uint8ClampedArray(4),
+        }),
+        semanticDiff(data1, data2, new Uint8ClampedArray(4), defaultOptions, {
+          width: 1,
+          originalData: new Uint8ClampedArray(4),
+        }),
       ]
 
       // All should detect at least one difference
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import type { DiffOptions } from '../pdfDiffAlgorithms'
+import { serializePageStats } from '../statsExport'
+
+describe('statsExport', () => {
+  describe('serializePageStats', () => {
+    const options: DiffOptions = {
+      mode: 'threshold',
+      threshold: 10,
+      overlayOpacity: 0.5,
+      useGrayscale: false,
+    }
+
+    it('should write one CSV line per page pair with its SSIM', () => {
+      const csv = serializePageStats(
+        [
+          { leftPage: 1, rightPage: 1, status: 'matched' },
+          { leftPage: null, rightPage: 2, status: 'inserted' },
+        ],
+        { 0: { differenceCount: 12, totalPixels: 400, percentDiff: 3, ssim: 0.9954321 } },
+        { ...options, mode: 'ssim', ssimThreshold: 0.9 }
+      )
+
+      expect(csv.trim().split('\n')).toEqual([
+        'pair,pdf1_page,pdf2_page,status,mode,threshold,ssim_threshold,auto_threshold,' +
+          'different_pixels,total_pixels,percent_diff,ssim',
+        '1,1,1,matched,ssim,,0.9,,12,400,3.0000,0.995432',
+        '2,,2,inserted,ssim,,0.9,,,,,',
+      ])
+    })
+
+    it('should leave the SSIM empty outside ssim mode', () => {
+      const csv = serializePageStats(
+        [{ leftPage: 1, rightPage: 1, status: 'matched' }],
+        { 0: { differenceCount: 0, totalPixels: 400, percentDiff: 0 } },
+        { ...options, mode: 'pixel' }
+      )
+
+      expect(csv.trim().split('\n')[1]).toBe('1,1,1,matched,pixel,,,,0,400,0.0000,')
+    })
+
+    it('should write the cut-off of the mode', () => {
+      const stats = { 0: { differenceCount: 0, totalPixels: 400, percentDiff: 0 } }
+      const pairs = [{ leftPage: 1, rightPage: 1, status: 'matched' as const }]
+      const row = (diffOptions: DiffOptions) =>
+        serializePageStats(pairs, stats, diffOptions).trim().split('\n')[1]
+
+      expect(row(options)).toBe('1,1,1,matched,threshold,10,,,0,400,0.0000,')
+      expect(row({ ...options, mode: 'deltaE', deltaEThreshold: 3.5 })).toBe(
+        '1,1,1,matched,deltaE,3.5,,,0,400,0.0000,'
+      )
+    })
+
+    it('should write the threshold picked for each page in auto mode', () => {
+      const csv = serializePageStats(
+        [
+          { leftPage: 1, rightPage: 1, status: 'matched' },
+          { leftPage: 2, rightPage: 2, status: 'matched' },
+        ],
+        {
+          0: { differenceCount: 5, totalPixels: 400, percentDiff: 1.25, autoThreshold: 42 },
+          1: { differenceCount: 0, totalPixels: 400, percentDiff: 0, autoThreshold: 10 },
+        },
+        { ...options, thresholdMode: 'auto' }
+      )
+
+      expect(csv.trim().split('\n').slice(1)).toEqual([
+        '1,1,1,matched,threshold,10,,42,5,400,1.2500,',
+        '2,2,2,matched,threshold,10,,10,0,400,0.0000,',
+      ])
+    })
+  })
+})
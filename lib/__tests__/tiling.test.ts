@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type TileDiffResult,
+  computeTileGrid,
+  exceedsCanvasLimits,
+  findChangedTile,
+  getCanvasFitScale,
+  mergeTileStats,
+} from '../tiling'
+
+describe('tiling', () => {
+  const createTileResult = (index: number, differenceCount: number): TileDiffResult => ({
+    index,
+    row: 0,
+    col: index,
+    x: index * 100,
+    y: 0,
+    width: 100,
+    height: 100,
+    differenceCount,
+    totalPixels: 10000,
+    percentDiff: differenceCount / 100,
+  })
+
+  describe('exceedsCanvasLimits', () => {
+    it('should check both the dimension and the pixel limit', () => {
+      expect(exceedsCanvasLimits(4096, 4096, 4096, 16 * 1024 * 1024)).toBe(false)
+      expect(exceedsCanvasLimits(4097, 100, 4096, 16 * 1024 * 1024)).toBe(true)
+      expect(exceedsCanvasLimits(3000, 3000, 4096, 4 * 1024 * 1024)).toBe(true)
+    })
+  })
+
+  describe('getCanvasFitScale', () => {
+    it('should not scale images that fit', () => {
+      expect(getCanvasFitScale(1000, 800, 4096, 16 * 1024 * 1024)).toBe(1)
+    })
+
+    it('should scale down to the most restrictive limit', () => {
+      expect(getCanvasFitScale(8192, 1000, 4096, 16 * 1024 * 1024)).toBe(0.5)
+      expect(getCanvasFitScale(4000, 4000, 4096, 4000 * 1000)).toBeCloseTo(0.5)
+    })
+  })
+
+  describe('computeTileGrid', () => {
+    it('should cover the image with row-major tiles', () => {
+      const grid = computeTileGrid(5000, 3000, 2048)
+
+      expect(grid.cols).toBe(3)
+      expect(grid.rows).toBe(2)
+      expect(grid.tiles).toHaveLength(6)
+      expect(grid.tiles[4]).toEqual({
+        index: 4,
+        row: 1,
+        col: 1,
+        x: 2048,
+        y: 2048,
+        width: 2048,
+        height: 952,
+      })
+    })
+
+    it('should crop the last column to the image width', () => {
+      const grid = computeTileGrid(5000, 3000, 2048)
+      const area = grid.tiles.reduce((sum, tile) => sum + tile.width * tile.height, 0)
+
+      expect(grid.tiles[2].width).toBe(904)
+      expect(area).toBe(5000 * 3000)
+    })
+
+    it('should round fractional sizes up to whole pixels', () => {
+      const grid = computeTileGrid(100.4, 50.6, 2048)
+
+      expect(grid.tiles).toEqual([{ index: 0, row: 0, col: 0, x: 0, y: 0, width: 101, height: 51 }])
+    })
+  })
+
+  describe('mergeTileStats', () => {
+    it('should sum counts and recompute the percentage', () => {
+      const merged = mergeTileStats([createTileResult(0, 100), createTileResult(1, 300)])
+
+      expect(merged).toEqual({ differenceCount: 400, totalPixels: 20000, percentDiff: 2 })
+    })
+
+    it('should handle an empty tile list', () => {
+      expect(mergeTileStats([])).toEqual({ differenceCount: 0, totalPixels: 0, percentDiff: 0 })
+    })
+
+    it('should average the SSIM of the tiles by their pixels', () => {
+      const merged = mergeTileStats([
+        { ...createTileResult(0, 0), ssim: 1 },
+        { ...createTileResult(1, 0), ssim: 0.9, totalPixels: 30000 },
+      ])
+
+      expect(merged.ssim).toBeCloseTo(0.925)
+    })
+
+    it('should sum the counts before noise suppression', () => {
+      const merged = mergeTileStats([
+        { ...createTileResult(0, 10), rawDifferenceCount: 25 },
+        createTileResult(1, 5), // Cached before noise suppression existed
+      ])
+
+      expect(merged.differenceCount).toBe(15)
+      expect(merged.rawDifferenceCount).toBe(30)
+    })
+
+    it('should sum the delta histograms', () => {
+      const histogram = Array.from({ length: 256 }, (_, delta) => (delta < 2 ? 1 : 0))
+      const tile = { ...createTileResult(0, 0), deltaHistogram: histogram }
+
+      const merged = mergeTileStats([tile, { ...tile, index: 1 }])
+      expect(merged.deltaHistogram?.slice(0, 3)).toEqual([2, 2, 0])
+    })
+
+    it('should move tile regions to page coordinates and renumber them', () => {
+      const region = { id: 1, x: 10, y: 20, width: 5, height: 5, pixelCount: 12 }
+      const merged = mergeTileStats([
+        { ...createTileResult(0, 12), regions: [{ ...region, y: 50, type: 'added' }] },
+        { ...createTileResult(1, 12), regions: [{ ...region, type: 'removed' }] },
+      ])
+
+      expect(merged.regions).toEqual([
+        { ...region, id: 1, x: 110, type: 'removed' },
+        { ...region, id: 2, y: 50, type: 'added' },
+      ])
+    })
+  })
+
+  describe('findChangedTile', () => {
+    const tiles = [0, 5, 0, 2].map((count, index) => createTileResult(index, count))
+
+    it('should find the next and previous changed tile, wrapping around', () => {
+      expect(findChangedTile(tiles, null, 1)).toBe(1)
+      expect(findChangedTile(tiles, 1, 1)).toBe(3)
+      expect(findChangedTile(tiles, 3, 1)).toBe(1)
+      expect(findChangedTile(tiles, 1, -1)).toBe(3)
+      expect(findChangedTile(tiles, null, -1)).toBe(3)
+    })
+
+    it('should return null when no other tile has changes', () => {
+      expect(findChangedTile([createTileResult(0, 0)], null, 1)).toBeNull()
+      expect(findChangedTile([createTileResult(0, 3)], 0, 1)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Annotation diff module
+ * Matches the annotations of two pages (comments, highlights, stamps, ...) by object id, then
+ * by overlap or text, and reports which were added, removed or modified.
+ */
+
+// [x1, y1, x2, y2] in PDF user space (points, origin at the bottom-left of the page)
+export type AnnotationRect = [number, number, number, number]
+
+export interface PdfAnnotation {
+  id: string // Object id within its document (shared by both documents after incremental saves)
+  type: string // Annotation subtype, e.g. 'Text', 'Highlight', 'Stamp'
+  author: string
+  contents: string
+  rect: AnnotationRect
+  modified: string | null // Modification date as given by the document
+}
+
+export type AnnotationChangeType = 'added' | 'removed' | 'modified' | 'unchanged'
+
+// Fields compared between matched annotations
+export type AnnotationField = 'author' | 'contents' | 'rect'
+
+export interface AnnotationChange {
+  type: AnnotationChangeType
+  left: PdfAnnotation | null // null for added annotations
+  right: PdfAnnotation | null // null for removed annotations
+  changedFields: AnnotationField[]
+}
+
+// Rectangles within this distance (in points) of each other count as unmoved
+export const DEFAULT_RECT_TOLERANCE = 1
+
+/**
+ * Intersection over union of two annotation rectangles (0-1)
+ */
+export function rectOverlap(a: AnnotationRect, b: AnnotationRect): number {
+  const width = Math.min(a[2], b[2]) - Math.max(a[0], b[0])
+  const height = Math.min(a[3], b[3]) - Math.max(a[1], b[1])
+  if (width <= 0 || height <= 0) return 0
+
+  const intersection = width * height
+  const area = (r: AnnotationRect) => (r[2] - r[0]) * (r[3] - r[1])
+  return intersection / (area(a) + area(b) - intersection)
+}
+
+/**
+ * Lists the compared fields that differ between two annotations
+ */
+export function getChangedFields(
+  left: PdfAnnotation,
+  right: PdfAnnotation,
+  rectTolerance = DEFAULT_RECT_TOLERANCE
+): AnnotationField[] {
+  const fields: AnnotationField[] = []
+  if (left.author !== right.author) fields.push('author')
+  if (left.contents !== right.contents) fields.push('contents')
+  if (left.rect.some((value, i) => Math.abs(value - right.rect[i]) > rectTolerance)) {
+    fields.push('rect')
+  }
+  return fields
+}
+
+/**
+ * How likely two annotations of the same type are the same annotation (0 = unrelated)
+ * Annotations match when they overlap or carry the same text
+ */
+const matchScore = (left: PdfAnnotation, right: PdfAnnotation): number => {
+  const overlap = rectOverlap(left.rect, right.rect)
+  const sameText = left.contents !== '' && left.contents === right.contents
+  if (overlap === 0 && !sameText) return 0
+
+  return overlap + (sameText ? 1 : 0) + (left.author === right.author ? 0.5 : 0)
+}
+
+/**
+ * Compares the annotations of two pages
+ * Annotations are matched by object id first (documents saved incrementally keep their ids),
+ * then by type, position and text. Unmatched annotations are added or removed.
+ * @param left - Annotations of the page in PDF 1
+ * @param right - Annotations of the page in PDF 2
+ * @param rectTolerance - Movement in points below which a rectangle counts as unchanged
+ * @returns One change per annotation, in PDF 1 order followed by added annotations
+ */
+export function diffAnnotations(
+  left: PdfAnnotation[],
+  right: PdfAnnotation[],
+  rectTolerance = DEFAULT_RECT_TOLERANCE
+): AnnotationChange[] {
+  const matches = new Map<PdfAnnotation, PdfAnnotation>()
+  const matchedRight = new Set<PdfAnnotation>()
+
+  // Same object id and type
+  for (const annotation of left) {
+    const match = right.find(
+      (other) =>
+        !matchedRight.has(other) && other.id === annotation.id && other.type === annotation.type
+    )
+    if (match) {
+      matches.set(annotation, match)
+      matchedRight.add(match)
+    }
+  }
+
+  // Best remaining candidates of the same type, strongest matches first
+  const candidates: { left: PdfAnnotation; right: PdfAnnotation; score: number }[] = []
+  for (const annotation of left) {
+    if (matches.has(annotation)) continue
+    for (const other of right) {
+      if (matchedRight.has(other) || other.type !== annotation.type) continue
+      const score = matchScore(annotation, other)
+      if (score > 0) candidates.push({ left: annotation, right: other, score })
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score)
+  for (const candidate of candidates) {
+    if (matches.has(candidate.left) || matchedRight.has(candidate.right)) continue
+    matches.set(candidate.left, candidate.right)
+    matchedRight.add(candidate.right)
+  }
+
+  const changes: AnnotationChange[] = left.map((annotation) => {
+    const match = matches.get(annotation)
+    if (!match) {
+      return { type: 'removed', left: annotation, right: null, changedFields: [] }
+    }
+
+    const changedFields = getChangedFields(annotation, match, rectTolerance)
+    return {
+      type: changedFields.length > 0 ? 'modified' : 'unchanged',
+      left: annotation,
+      right: match,
+      changedFields,
+    }
+  })
+
+  for (const annotation of right) {
+    if (!matchedRight.has(annotation)) {
+      changes.push({ type: 'added', left: null, right: annotation, changedFields: [] })
+    }
+  }
+
+  return changes
+}
@@ -0,0 +1,288 @@
+/**
+ * Delta histogram module
+ * Counts how much the pixels of two pages differ, on the scale the threshold slider uses, and
+ * picks the 'auto' threshold from it: Otsu's method over the differing pixels splits faint
+ * rendering noise from real changes, where the histogram has two such groups at all. Also
+ * summarizes how strongly the changed pixels differ.
+ */
+
+import type { DiffOptions } from './pdfDiffAlgorithms'
+
+// One bin per threshold value (0-255); larger deltas fall into the last bin
+export const DELTA_HISTOGRAM_BINS = 256
+
+// 'manual' uses the threshold slider, 'auto' picks the threshold of each page
+export type ThresholdMode = 'manual' | 'auto'
+
+// Modes that compare against options.threshold (pixel mode has none, the others their own)
+const THRESHOLD_DIFF_MODES: DiffOptions['mode'][] = [
+  'threshold',
+  'grayscale',
+  'overlay',
+  'heatmap',
+  'semantic',
+  'webgl',
+]
+
+// Share of the delta variance a split has to explain to count as two groups of pixels (Otsu's
+// separability measure; a flat histogram reaches 0.75, a single noise peak less)
+export const MIN_THRESHOLD_SEPARABILITY = 0.8
+
+// Deltas up to this are rendering noise (anti-aliasing, font hinting); a split whose upper group
+// lies within it only separates noise from noise
+export const AUTO_THRESHOLD_NOISE_FLOOR = 24
+
+export interface SeverityBand {
+  label: string
+  minDelta: number // Smallest normalized delta in the band (0-255)
+}
+
+// Bands of the changed pixels by delta, from the faintest; each runs up to the next one
+export const SEVERITY_BANDS: SeverityBand[] = [
+  { label: 'Faint', minDelta: 0 },
+  { label: 'Moderate', minDelta: 32 },
+  { label: 'Strong', minDelta: 96 },
+  { label: 'Severe', minDelta: 192 },
+]
+
+// How strongly the changed pixels of a comparison differ, on a 0-255 scale in every mode
+export interface DeltaStatistics {
+  pixelCount: number // Changed pixels described
+  meanDelta: number // Mean normalized delta of the changed pixels
+  maxDelta: number // Largest normalized delta of a changed pixel
+  channelDeltas: { r: number; g: number; b: number } // Mean difference of each channel, 0-255
+  severityCounts: number[] // Changed pixels in each of the SEVERITY_BANDS
+}
+
+/**
+ * Difference of the pixel at a byte offset as the threshold compares it: the luminance
+ * difference in grayscale mode, else the sum of the channel differences
+ */
+export function getPixelDelta(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  i: number,
+  grayscale: boolean
+): number {
+  if (grayscale) {
+    return Math.abs(
+      0.299 * (data1[i] - data2[i]) +
+        0.587 * (data1[i + 1] - data2[i + 1]) +
+        0.114 * (data1[i + 2] - data2[i + 2])
+    )
+  }
+  return (
+    Math.abs(data1[i] - data2[i]) +
+    Math.abs(data1[i + 1] - data2[i + 1]) +
+    Math.abs(data1[i + 2] - data2[i + 2])
+  )
+}
+
+/**
+ * Counts the pixels by their delta (ignored pixels are left out)
+ * @returns DELTA_HISTOGRAM_BINS counts, the last one for every delta of 255 or more
+ */
+export function computeDeltaHistogram(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  grayscale: boolean,
+  ignoreMask?: Uint8Array
+): number[] {
+  const counts = new Uint32Array(DELTA_HISTOGRAM_BINS)
+  for (let i = 0; i < data1.length; i += 4) {
+    if (ignoreMask?.[i / 4]) continue
+    const delta = getPixelDelta(data1, data2, i, grayscale)
+    counts[Math.min(DELTA_HISTOGRAM_BINS - 1, Math.floor(delta))]++
+  }
+  return Array.from(counts)
+}
+
+/**
+ * Gets the severity band of a delta
+ * @returns Index into SEVERITY_BANDS
+ */
+export function getSeverityBand(delta: number): number {
+  let band = 0
+  while (band + 1 < SEVERITY_BANDS.length && delta >= SEVERITY_BANDS[band + 1].minDelta) band++
+  return band
+}
+
+/**
+ * Summarizes the deltas of the changed pixels, normalized to 0-255: the luminance difference
+ * in grayscale mode, else the mean of the channel differences (the summed delta divided by 3)
+ * @param changeMask - Pixels the comparison counted as different (1 = changed)
+ */
+export function computeDeltaStatistics(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  changeMask: Uint8Array,
+  grayscale: boolean
+): DeltaStatistics {
+  let pixelCount = 0
+  let deltaTotal = 0
+  let maxDelta = 0
+  const channelTotals = [0, 0, 0]
+  const severityCounts = new Array<number>(SEVERITY_BANDS.length).fill(0)
+
+  for (let pixel = 0; pixel < changeMask.length; pixel++) {
+    if (!changeMask[pixel]) continue
+    const i = pixel * 4
+    const delta = getPixelDelta(data1, data2, i, grayscale) / (grayscale ? 1 : 3)
+
+    pixelCount++
+    deltaTotal += delta
+    maxDelta = Math.max(maxDelta, delta)
+    for (let channel = 0; channel < 3; channel++) {
+      channelTotals[channel] += Math.abs(data1[i + channel] - data2[i + channel])
+    }
+    severityCounts[getSeverityBand(delta)]++
+  }
+
+  const mean = (total: number) => (pixelCount > 0 ? total / pixelCount : 0)
+  return {
+    pixelCount,
+    meanDelta: mean(deltaTotal),
+    maxDelta,
+    channelDeltas: {
+      r: mean(channelTotals[0]),
+      g: mean(channelTotals[1]),
+      b: mean(channelTotals[2]),
+    },
+    severityCounts,
+  }
+}
+
+/**
+ * Combines the statistics of tiles (or pages), weighting the means by their changed pixels
+ * @returns The combination, or undefined if none is given
+ */
+export function mergeDeltaStatistics(
+  statistics: (DeltaStatistics | undefined)[]
+): DeltaStatistics | undefined {
+  const given = statistics.filter((entry): entry is DeltaStatistics => !!entry)
+  if (given.length === 0) return undefined
+
+  const pixelCount = given.reduce((sum, entry) => sum + entry.pixelCount, 0)
+  const mean = (value: (entry: DeltaStatistics) => number) =>
+    pixelCount > 0
+      ? given.reduce((sum, entry) => sum + value(entry) * entry.pixelCount, 0) / pixelCount
+      : 0
+
+  return {
+    pixelCount,
+    meanDelta: mean((entry) => entry.meanDelta),
+    maxDelta: Math.max(...given.map((entry) => entry.maxDelta)),
+    channelDeltas: {
+      r: mean((entry) => entry.channelDeltas.r),
+      g: mean((entry) => entry.channelDeltas.g),
+      b: mean((entry) => entry.channelDeltas.b),
+    },
+    severityCounts: SEVERITY_BANDS.map((_, band) =>
+      given.reduce((sum, entry) => sum + (entry.severityCounts[band] ?? 0), 0)
+    ),
+  }
+}
+
+/**
+ * Picks the threshold between noise and changes with Otsu's method, over the differing pixels
+ * only (identical pixels would outweigh everything else)
+ * @returns The threshold (pixels with a larger delta are changes), or null when no split stands
+ *   out: nothing differs, the differing pixels form a single peak, or even the larger ones are
+ *   within the noise floor
+ */
+export function otsuThreshold(histogram: number[]): number | null {
+  let total = 0
+  let weightedTotal = 0
+  for (let delta = 1; delta < histogram.length; delta++) {
+    total += histogram[delta]
+    weightedTotal += delta * histogram[delta]
+  }
+  if (total === 0) return null
+
+  let best = 0
+  let bestVariance = 0
+  let bestMeanAbove = 0
+  let below = 0
+  let weightedBelow = 0
+  for (let delta = 1; delta < histogram.length - 1; delta++) {
+    below += histogram[delta]
+    weightedBelow += delta * histogram[delta]
+    const above = total - below
+    if (below === 0 || above === 0) continue
+
+    // Between-class variance of splitting after this delta
+    const meanBelow = weightedBelow / below
+    const meanAbove = (weightedTotal - weightedBelow) / above
+    const variance = below * above * (meanBelow - meanAbove) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      best = delta
+      bestMeanAbove = meanAbove
+    }
+  }
+
+  // Between-class variance as computed above is total² times that of the split
+  const mean = weightedTotal / total
+  let spread = 0
+  for (let delta = 1; delta < histogram.length; delta++) {
+    spread += histogram[delta] * (delta - mean) ** 2
+  }
+  if (spread === 0 || bestVariance / (total * spread) < MIN_THRESHOLD_SEPARABILITY) return null
+  if (bestMeanAbove <= AUTO_THRESHOLD_NOISE_FLOOR) return null
+
+  return best
+}
+
+/**
+ * Whether a mode compares against options.threshold, so that 'auto' can pick it
+ */
+export function usesThreshold(mode: DiffOptions['mode']): boolean {
+  return THRESHOLD_DIFF_MODES.includes(mode)
+}
+
+/**
+ * Whether the threshold of a comparison is picked from its histogram
+ */
+export function usesAutoThreshold(options: DiffOptions): boolean {
+  return options.thresholdMode === 'auto' && usesThreshold(options.mode)
+}
+
+/**
+ * Gets the threshold to compare a page with: the slider value, or in 'auto' mode the one
+ * picked from its histogram (the slider value when no split stands out)
+ */
+export function resolveThreshold(options: DiffOptions, histogram?: number[]): number {
+  if (!usesAutoThreshold(options) || !histogram) return options.threshold
+  return otsuThreshold(histogram) ?? options.threshold
+}
+
+/**
+ * Scales the bars of a histogram to a height on a log scale, for the charts
+ * Identical pixels (delta 0) would dwarf every other bar, so they are left out, as are empty bins.
+ */
+export function getHistogramBars(
+  histogram: number[],
+  height: number
+): { delta: number; height: number }[] {
+  const maxCount = Math.max(1, ...histogram.slice(1))
+  return histogram.flatMap((count, delta) =>
+    delta > 0 && count > 0
+      ? [{ delta, height: Math.max(1, (Math.log1p(count) / Math.log1p(maxCount)) * height) }]
+      : []
+  )
+}
+
+/**
+ * Adds up histograms (of tiles or pages)
+ * @returns The sum, or undefined if none is given
+ */
+export function sumHistograms(histograms: (number[] | undefined)[]): number[] | undefined {
+  const given = histograms.filter((histogram): histogram is number[] => !!histogram)
+  if (given.length === 0) return undefined
+
+  const sum = new Array<number>(DELTA_HISTOGRAM_BINS).fill(0)
+  for (const histogram of given) {
+    for (let delta = 0; delta < sum.length; delta++) sum[delta] += histogram[delta] ?? 0
+  }
+  return sum
+}
@@ -0,0 +1,159 @@
+/**
+ * Density grid module
+ * Splits the compared page into square cells and counts the changed pixels of each, so dense
+ * pages read as a heat grid instead of scattered highlights. Cell sizes divide the tile size,
+ * so the grids of the tiles of an oversized page line up into one.
+ */
+
+export interface DensityGrid {
+  cellSize: number // Side of a cell in pixels (cells in the last row and column are cropped)
+  width: number // Size of the compared page in pixels
+  height: number
+  columns: number
+  rows: number
+  changedPixels: number[] // Per cell, row-major
+  totalPixels: number[] // Compared pixels per cell (ignored ones are left out)
+  percentChanged: number[] // Changed share of the compared pixels per cell, 0-100
+}
+
+export const DEFAULT_DENSITY_CELL_SIZE = 64
+
+// Cell sizes on offer; each divides DEFAULT_TILE_SIZE
+export const DENSITY_CELL_SIZES = [16, 32, 64, 128, 256]
+
+/**
+ * Creates an empty grid over a page
+ */
+function createDensityGrid(width: number, height: number, cellSize: number): DensityGrid {
+  const size = Math.max(1, Math.round(cellSize))
+  const columns = Math.max(1, Math.ceil(width / size))
+  const rows = Math.max(1, Math.ceil(height / size))
+
+  return {
+    cellSize: size,
+    width,
+    height,
+    columns,
+    rows,
+    changedPixels: new Array<number>(columns * rows).fill(0),
+    totalPixels: new Array<number>(columns * rows).fill(0),
+    percentChanged: new Array<number>(columns * rows).fill(0),
+  }
+}
+
+/**
+ * Fills in the percentages from the counts (in place)
+ */
+function updatePercentages(grid: DensityGrid): DensityGrid {
+  grid.percentChanged = grid.changedPixels.map((changed, cell) =>
+    grid.totalPixels[cell] > 0 ? (changed / grid.totalPixels[cell]) * 100 : 0
+  )
+  return grid
+}
+
+/**
+ * Counts the changed pixels of every cell
+ * @param changeMask - Pixels the comparison counted as different (1 = changed)
+ * @param ignoreMask - Pixels left out of the comparison (1 = ignored)
+ */
+export function computeDensityGrid(
+  changeMask: Uint8Array,
+  width: number,
+  height: number,
+  cellSize: number = DEFAULT_DENSITY_CELL_SIZE,
+  ignoreMask?: Uint8Array
+): DensityGrid {
+  const grid = createDensityGrid(width, height, cellSize)
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = Math.floor(y / grid.cellSize) * grid.columns
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x
+      if (ignoreMask?.[pixel]) continue
+      const cell = rowStart + Math.floor(x / grid.cellSize)
+      grid.totalPixels[cell]++
+      if (changeMask[pixel]) grid.changedPixels[cell]++
+    }
+  }
+
+  return updatePercentages(grid)
+}
+
+/**
+ * Combines the grids of the tiles of a page into the grid of the page
+ * A tile cell is added to the page cell holding its top-left corner, which is exact when the
+ * tiles start at multiples of the cell size.
+ * @returns The page grid, or undefined if no tile has one
+ */
+export function mergeDensityGrids(
+  tiles: { x: number; y: number; densityGrid?: DensityGrid }[],
+  width: number,
+  height: number
+): DensityGrid | undefined {
+  const first = tiles.find((tile) => tile.densityGrid)?.densityGrid
+  if (!first) return undefined
+
+  const grid = createDensityGrid(width, height, first.cellSize)
+  for (const { x, y, densityGrid } of tiles) {
+    if (!densityGrid) continue
+    for (let row = 0; row < densityGrid.rows; row++) {
+      const pageRow = Math.floor((y + row * densityGrid.cellSize) / grid.cellSize)
+      for (let column = 0; column < densityGrid.columns; column++) {
+        const pageColumn = Math.floor((x + column * densityGrid.cellSize) / grid.cellSize)
+        if (pageRow >= grid.rows || pageColumn >= grid.columns) continue
+        const cell = pageRow * grid.columns + pageColumn
+        const tileCell = row * densityGrid.columns + column
+        grid.changedPixels[cell] += densityGrid.changedPixels[tileCell]
+        grid.totalPixels[cell] += densityGrid.totalPixels[tileCell]
+      }
+    }
+  }
+
+  return updatePercentages(grid)
+}
+
+/**
+ * Gets the rectangle of a cell in pixels of the page
+ */
+export function getDensityCellRect(
+  grid: DensityGrid,
+  cell: number
+): { row: number; column: number; x: number; y: number; width: number; height: number } {
+  const row = Math.floor(cell / grid.columns)
+  const column = cell % grid.columns
+  const x = column * grid.cellSize
+  const y = row * grid.cellSize
+
+  return {
+    row,
+    column,
+    x,
+    y,
+    width: Math.min(grid.cellSize, grid.width - x),
+    height: Math.min(grid.cellSize, grid.height - y),
+  }
+}
+
+/**
+ * Serializes a grid as CSV, one line per cell in reading order (rows and columns 1-based)
+ */
+export function serializeDensityGrid(grid: DensityGrid): string {
+  const lines = ['row,column,x,y,width,height,changed_pixels,compared_pixels,percent_changed']
+  for (let cell = 0; cell < grid.changedPixels.length; cell++) {
+    const { row, column, x, y, width, height } = getDensityCellRect(grid, cell)
+    lines.push(
+      [
+        row + 1,
+        column + 1,
+        x,
+        y,
+        width,
+        height,
+        grid.changedPixels[cell],
+        grid.totalPixels[cell],
+        grid.percentChanged[cell].toFixed(2),
+      ].join(',')
+    )
+  }
+  return `${lines.join('\n')}\n`
+}
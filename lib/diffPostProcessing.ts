@@ -0,0 +1,80 @@
+/**
+ * Diff post-processing module
+ * What follows the diff algorithm on every path (the worker and the main-thread fallback):
+ * noise suppression of the change mask, then the stats, regions, delta statistics and density
+ * grid of the changes that are left, so both paths report the same numbers for a page.
+ */
+
+import type { DiffContext, DiffOptions } from './pdfDiffAlgorithms'
+import { type DiffRegion, findDiffRegions } from './diffRegions'
+import { type DeltaStatistics, computeDeltaStatistics } from './deltaHistogram'
+import { type DensityGrid, computeDensityGrid } from './densityGrid'
+import { suppressNoise, unhighlightSuppressedPixels } from './noiseSuppression'
+
+// Context the algorithm ran with; the change mask and original rendering must have been filled
+export type FilledDiffContext = DiffContext & {
+  originalData: Uint8ClampedArray
+  changeMask: Uint8Array
+}
+
+export interface DiffSummary {
+  differenceCount: number // After noise suppression
+  rawDifferenceCount: number // As counted by the algorithm
+  totalPixels: number // Compared pixels (ignored ones are left out)
+  percentDiff: number
+  regions: DiffRegion[] // Clusters of the changed pixels
+  deltaStatistics: DeltaStatistics // How strongly the changed pixels differ
+  densityGrid: DensityGrid // Changed pixels per grid cell
+}
+
+/**
+ * Filters the changes found by a diff algorithm and summarizes what is left
+ * Pixels the noise suppression discards are drawn without their highlight in diffData.
+ * @param differenceCount - Changed pixels as returned by the algorithm
+ * @param ignoredPixels - Pixels covered by the ignore mask of the context
+ */
+export function postProcessDiff(
+  imageData1: Uint8ClampedArray,
+  imageData2: Uint8ClampedArray,
+  diffData: Uint8ClampedArray,
+  differenceCount: number,
+  height: number,
+  options: DiffOptions,
+  context: FilledDiffContext,
+  ignoredPixels = 0
+): DiffSummary {
+  const { width, originalData, changeMask, ignoreMask } = context
+
+  // Noise suppression filters the change mask; stats and regions follow the filtered mask
+  const filtered = suppressNoise(changeMask, width, height, options, ignoreMask)
+  if (filtered) {
+    unhighlightSuppressedPixels(diffData, originalData, changeMask, filtered.mask)
+  }
+  const mask = filtered?.mask ?? changeMask
+  const filteredCount = filtered?.differenceCount ?? differenceCount
+
+  // Ignored pixels are left out of the total, so the percentage covers compared pixels only
+  const totalPixels = width * height - ignoredPixels
+
+  return {
+    differenceCount: filteredCount,
+    rawDifferenceCount: differenceCount,
+    totalPixels,
+    percentDiff: totalPixels > 0 ? (filteredCount / totalPixels) * 100 : 0,
+    regions: findDiffRegions(
+      mask,
+      imageData1,
+      imageData2,
+      width,
+      height,
+      options.regionMergeDistance
+    ),
+    deltaStatistics: computeDeltaStatistics(
+      imageData1,
+      imageData2,
+      mask,
+      options.mode === 'grayscale'
+    ),
+    densityGrid: computeDensityGrid(mask, width, height, options.densityCellSize, ignoreMask),
+  }
+}
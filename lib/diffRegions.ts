@@ -0,0 +1,150 @@
+/**
+ * Difference region module
+ * Groups the changed pixels of a comparison into connected regions, so a result can tell
+ * one changed paragraph apart from noise scattered across the page. Regions are numbered in
+ * reading order, across all tiles of an oversized page.
+ */
+
+import { dilateMask } from './noiseSuppression'
+
+// 'added': content only in PDF 2, 'removed': content only in PDF 1, 'modified': content in both
+export type DiffRegionType = 'added' | 'removed' | 'modified'
+
+// A cluster of changed pixels, in pixels of the compared image
+export interface DiffRegion {
+  id: number // 1-based, in reading order (top to bottom, then left to right)
+  x: number
+  y: number
+  width: number
+  height: number
+  pixelCount: number // Changed pixels in the region (not the area of its box)
+  type: DiffRegionType // Most frequent change type among its pixels
+}
+
+// Changed pixels up to this many pixels apart are merged into one region by default
+export const DEFAULT_REGION_MERGE_DISTANCE = 8
+
+// Beyond this many regions only the largest are kept, so confetti cannot flood the response
+export const MAX_DIFF_REGIONS = 500
+
+// Pixels brighter than this are treated as page background when classifying a change
+const BACKGROUND_BRIGHTNESS = 250
+
+const isContent = (data: Uint8ClampedArray, offset: number): boolean =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2] <=
+  BACKGROUND_BRIGHTNESS
+
+/**
+ * Classifies the change of a single pixel
+ * @param offset - Byte offset of the pixel in both images
+ */
+export function classifyChange(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  offset: number
+): DiffRegionType {
+  const content1 = isContent(data1, offset)
+  const content2 = isContent(data2, offset)
+  if (content1 && !content2) return 'removed'
+  if (!content1 && content2) return 'added'
+  return 'modified'
+}
+
+/**
+ * Finds the connected regions of changed pixels
+ * Pixels separated by at most mergeDistance unchanged pixels belong to the same region.
+ * @param changeMask - 1 for every changed pixel, one entry per pixel
+ * @param data1 - RGBA pixels of PDF 1, to classify the changes
+ * @param data2 - RGBA pixels of PDF 2
+ * @param mergeDistance - Largest gap in pixels that still joins two clusters
+ * @returns At most MAX_DIFF_REGIONS regions (the largest), numbered in reading order
+ */
+export function findDiffRegions(
+  changeMask: Uint8Array,
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mergeDistance: number = DEFAULT_REGION_MERGE_DISTANCE
+): DiffRegion[] {
+  // Dilating both clusters by half the gap makes them touch; the boxes still only cover
+  // changed pixels. Unvisited pixels are cleared as the search goes, so it needs a copy.
+  const radius = Math.ceil(Math.max(0, mergeDistance) / 2)
+  const unvisited = radius > 0 ? dilateMask(changeMask, width, height, radius) : changeMask.slice()
+  const stack = new Int32Array(width * height)
+  const regions: DiffRegion[] = []
+
+  for (let seed = 0; seed < changeMask.length; seed++) {
+    if (!changeMask[seed] || !unvisited[seed]) continue
+
+    let minX = width
+    let minY = height
+    let maxX = -1
+    let maxY = -1
+    let pixelCount = 0
+    const typeCounts: Record<DiffRegionType, number> = { added: 0, removed: 0, modified: 0 }
+
+    let top = 0
+    stack[top++] = seed
+    unvisited[seed] = 0
+
+    while (top > 0) {
+      const pixel = stack[--top]
+      const x = pixel % width
+      const y = (pixel - x) / width
+
+      if (changeMask[pixel]) {
+        pixelCount++
+        typeCounts[classifyChange(data1, data2, pixel * 4)]++
+        if (x < minX) minX = x
+        if (x > maxX) maxX = x
+        if (y < minY) minY = y
+        if (y > maxY) maxY = y
+      }
+
+      // 8-connected neighbours
+      for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+        for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+          const neighbour = ny * width + nx
+          if (unvisited[neighbour]) {
+            unvisited[neighbour] = 0
+            stack[top++] = neighbour
+          }
+        }
+      }
+    }
+
+    // Ties go to 'modified'
+    const type = (['added', 'removed'] as const).reduce<DiffRegionType>(
+      (dominant, candidate) =>
+        typeCounts[candidate] > typeCounts[dominant] ? candidate : dominant,
+      'modified'
+    )
+
+    regions.push({
+      id: 0,
+      x: minX,
+      y: minY,
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+      pixelCount,
+      type,
+    })
+  }
+
+  const kept =
+    regions.length > MAX_DIFF_REGIONS
+      ? [...regions].sort((a, b) => b.pixelCount - a.pixelCount).slice(0, MAX_DIFF_REGIONS)
+      : regions
+
+  return numberRegions(kept)
+}
+
+/**
+ * Sorts regions into reading order and numbers them from 1
+ */
+export function numberRegions(regions: DiffRegion[]): DiffRegion[] {
+  return [...regions]
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map((region, index) => ({ ...region, id: index + 1 }))
+}
@@ -0,0 +1,185 @@
+/**
+ * Form field diff module
+ * Compares the AcroForm fields of two documents by fully-qualified name, so filled-in
+ * values are compared even when the field appearances were never regenerated. Widget boxes
+ * locate the changed fields on the rendered pages.
+ */
+
+export type FormFieldType =
+  | 'text'
+  | 'checkbox'
+  | 'radio'
+  | 'button'
+  | 'choice'
+  | 'signature'
+  | 'unknown'
+
+// Position of a widget as fractions (0-1) of its page as displayed, origin at the top-left
+export interface WidgetBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A single widget (the visible part) of a form field, as read from a page
+export interface FormWidget {
+  name: string // Fully-qualified field name, e.g. 'insured.address.city'
+  type: FormFieldType
+  value: string // '' when empty; choices with several selections are joined by ', '
+  readOnly: boolean
+  required: boolean
+  page: number // 1-based
+  box: WidgetBox
+}
+
+// A form field with all of its widgets (radio groups and repeated fields have several)
+export interface PdfFormField {
+  name: string
+  type: FormFieldType
+  value: string
+  readOnly: boolean
+  required: boolean
+  widgets: { page: number; box: WidgetBox }[]
+}
+
+export type FormFieldChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+// Field properties compared between the two documents
+export type FormFieldProperty = 'value' | 'type' | 'readOnly' | 'required'
+
+export interface FormFieldChange {
+  name: string
+  status: FormFieldChangeStatus
+  left: PdfFormField | null // null for fields only in PDF 2
+  right: PdfFormField | null // null for fields only in PDF 1
+  changedProperties: FormFieldProperty[]
+}
+
+const COMPARED_PROPERTIES: FormFieldProperty[] = ['value', 'type', 'readOnly', 'required']
+
+/**
+ * Formats a raw PDF.js field value for comparison and display
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.map(formatFieldValue).join(', ')
+  return String(value)
+}
+
+/**
+ * Groups widgets into fields by fully-qualified name, in order of first appearance
+ * The field properties are taken from its first widget (PDF.js reports the field value
+ * on every widget).
+ */
+export function groupFormWidgets(widgets: FormWidget[]): PdfFormField[] {
+  const fields = new Map<string, PdfFormField>()
+
+  for (const widget of widgets) {
+    const field = fields.get(widget.name)
+    if (field) {
+      field.widgets.push({ page: widget.page, box: widget.box })
+      // A checked radio button or checkbox carries the value of the group
+      if (!field.value && widget.value) field.value = widget.value
+      continue
+    }
+
+    const { name, type, value, readOnly, required, page, box } = widget
+    fields.set(name, { name, type, value, readOnly, required, widgets: [{ page, box }] })
+  }
+
+  return [...fields.values()]
+}
+
+/**
+ * Compares the form fields of two documents by fully-qualified name
+ * @returns One change per field, in PDF 1 order followed by fields only in PDF 2
+ */
+export function diffFormFields(left: PdfFormField[], right: PdfFormField[]): FormFieldChange[] {
+  const rightByName = new Map(right.map((field) => [field.name, field]))
+  const leftNames = new Set(left.map((field) => field.name))
+
+  const changes: FormFieldChange[] = left.map((field) => {
+    const match = rightByName.get(field.name)
+    if (!match) {
+      return {
+        name: field.name,
+        status: 'removed',
+        left: field,
+        right: null,
+        changedProperties: [],
+      }
+    }
+
+    const changedProperties = COMPARED_PROPERTIES.filter(
+      (property) => field[property] !== match[property]
+    )
+    return {
+      name: field.name,
+      status: changedProperties.length > 0 ? 'changed' : 'unchanged',
+      left: field,
+      right: match,
+      changedProperties,
+    }
+  })
+
+  for (const field of right) {
+    if (!leftNames.has(field.name)) {
+      changes.push({
+        name: field.name,
+        status: 'added',
+        left: null,
+        right: field,
+        changedProperties: [],
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Gets the widget boxes of changed, added and removed fields on one page of one side
+ * @param changes - Result of diffFormFields
+ * @param side - 'left' for PDF 1, 'right' for PDF 2
+ * @param page - 1-based page shown on that side, or null for a blank page
+ */
+export function getChangedWidgetBoxes(
+  changes: FormFieldChange[],
+  side: 'left' | 'right',
+  page: number | null
+): { name: string; status: FormFieldChangeStatus; box: WidgetBox }[] {
+  if (page === null) return []
+
+  return changes.flatMap((change) => {
+    const field = change[side]
+    if (!field || change.status === 'unchanged') return []
+    return field.widgets
+      .filter((widget) => widget.page === page)
+      .map((widget) => ({ name: change.name, status: change.status, box: widget.box }))
+  })
+}
+
+/**
+ * Turns a widget box along with its page
+ * @param box - Position on the page as displayed
+ * @param rotation - Extra clockwise rotation of the page in degrees (0, 90, 180 or 270)
+ * @returns Position on the rotated page
+ */
+export function rotateWidgetBox(box: WidgetBox, rotation: number): WidgetBox {
+  switch (rotation) {
+    case 90:
+      return { x: 1 - box.y - box.height, y: box.x, width: box.height, height: box.width }
+    case 180:
+      return {
+        x: 1 - box.x - box.width,
+        y: 1 - box.y - box.height,
+        width: box.width,
+        height: box.height,
+      }
+    case 270:
+      return { x: box.y, y: 1 - box.x - box.width, width: box.height, height: box.width }
+    default:
+      return box
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Ignore mask module
+ * Rectangles the user marks as volatile (dates, page numbers, barcodes), left out of every
+ * comparison and its stats. Stored as fractions of the compared image so a mask drawn at one
+ * zoom level fits every other, and saved as JSON so a template can reuse them.
+ * A region for one page is kept by its page in a document, not by its place in the page
+ * alignment, so it stays on that page when pages are realigned, inserted or paired by hand.
+ */
+
+import type { PagePair } from './pageAlignment'
+
+// A rectangle to ignore, as fractions (0-1) of the compared image, origin at the top-left
+export interface IgnoreRegion {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+  page: number | null // 1-based page it applies to, or null for every page
+  pdf?: 1 | 2 // Document of the page (default: 1); 2 for pages only PDF 2 has
+}
+
+// Page a region is drawn on
+export interface IgnoreRegionPage {
+  page: number // 1-based
+  pdf: 1 | 2
+}
+
+// Format of exported masks; bumped when IgnoreRegion changes incompatibly
+export const IGNORE_MASK_FORMAT_VERSION = 1
+
+// Most regions the WebGL shader can test per pixel (a fixed-size uniform array)
+export const MAX_IGNORE_REGIONS = 16
+
+// Regions smaller than this fraction of the image on either side are dropped (stray clicks)
+export const MIN_IGNORE_REGION_SIZE = 0.002
+
+export interface IgnoreMaskFile {
+  version: number
+  regions: IgnoreRegion[]
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Builds a region from two corners in any order, clamped to the image
+ * @returns null if the rectangle is too small to be meant
+ */
+export function normalizeIgnoreRegion(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  page: IgnoreRegionPage | null,
+  id: string
+): IgnoreRegion | null {
+  const left = clamp01(Math.min(x1, x2))
+  const top = clamp01(Math.min(y1, y2))
+  const width = clamp01(Math.max(x1, x2)) - left
+  const height = clamp01(Math.max(y1, y2)) - top
+
+  if (width < MIN_IGNORE_REGION_SIZE || height < MIN_IGNORE_REGION_SIZE) return null
+  return { id, x: left, y: top, width, height, page: page?.page ?? null, pdf: page?.pdf }
+}
+
+/**
+ * Gets the page regions drawn on a pair are kept by: its page in PDF 1, or its page in PDF 2
+ * when the page was inserted
+ */
+export function getIgnoreRegionPage(
+  pair: Pick<PagePair, 'leftPage' | 'rightPage'>
+): IgnoreRegionPage | null {
+  if (pair.leftPage !== null) return { page: pair.leftPage, pdf: 1 }
+  if (pair.rightPage !== null) return { page: pair.rightPage, pdf: 2 }
+  return null
+}
+
+/**
+ * Gets the regions that apply to a page pair (those of either of its pages plus those for
+ * every page)
+ */
+export function getIgnoreRegionsForPair(
+  regions: IgnoreRegion[],
+  pair: Pick<PagePair, 'leftPage' | 'rightPage'>
+): IgnoreRegion[] {
+  return regions.filter(
+    (region) =>
+      region.page === null || region.page === (region.pdf === 2 ? pair.rightPage : pair.leftPage)
+  )
+}
+
+/**
+ * Maps regions onto a part of the image (a tile), dropping those outside it
+ * @param crop - The part, as fractions of the image
+ * @returns The regions as fractions of the part
+ */
+export function cropIgnoreRegions(
+  regions: IgnoreRegion[] | undefined,
+  crop: { x: number; y: number; width: number; height: number }
+): IgnoreRegion[] | undefined {
+  if (!regions || crop.width <= 0 || crop.height <= 0) return regions
+
+  return regions.flatMap((region) => {
+    const left = Math.max(region.x, crop.x)
+    const top = Math.max(region.y, crop.y)
+    const right = Math.min(region.x + region.width, crop.x + crop.width)
+    const bottom = Math.min(region.y + region.height, crop.y + crop.height)
+    if (right <= left || bottom <= top) return []
+
+    return [
+      {
+        ...region,
+        x: (left - crop.x) / crop.width,
+        y: (top - crop.y) / crop.height,
+        width: (right - left) / crop.width,
+        height: (bottom - top) / crop.height,
+      },
+    ]
+  })
+}
+
+/**
+ * Rasterizes regions into a mask with one entry per pixel (1 = ignored)
+ * A region covers every pixel it touches, so a mask never lets half a glyph through.
+ * @returns The mask and the number of ignored pixels, or null without regions
+ */
+export function createIgnoreMask(
+  regions: IgnoreRegion[] | undefined,
+  width: number,
+  height: number
+): { mask: Uint8Array; ignoredPixels: number } | null {
+  if (!regions || regions.length === 0 || width <= 0 || height <= 0) return null
+
+  const mask = new Uint8Array(width * height)
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x * width))
+    const top = Math.max(0, Math.floor(region.y * height))
+    const right = Math.min(width, Math.ceil((region.x + region.width) * width))
+    const bottom = Math.min(height, Math.ceil((region.y + region.height) * height))
+    for (let y = top; y < bottom; y++) mask.fill(1, y * width + left, y * width + right)
+  }
+
+  let ignoredPixels = 0
+  for (let i = 0; i < mask.length; i++) ignoredPixels += mask[i]
+
+  return ignoredPixels > 0 ? { mask, ignoredPixels } : null
+}
+
+/**
+ * Serializes regions for export
+ */
+export function serializeIgnoreMasks(regions: IgnoreRegion[]): string {
+  const file: IgnoreMaskFile = {
+    version: IGNORE_MASK_FORMAT_VERSION,
+    regions: regions.map(({ id, x, y, width, height, page, pdf }) => ({
+      id,
+      x,
+      y,
+      width,
+      height,
+      page,
+      pdf,
+    })),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+
+/**
+ * Parses exported regions
+ * @throws Error if the JSON is not an ignore mask file of a supported version, or if a page
+ *   would get more than MAX_IGNORE_REGIONS (more than drawing allows, and the WebGL shader tests)
+ */
+export function parseIgnoreMasks(json: string): IgnoreRegion[] {
+  let file: unknown
+  try {
+    file = JSON.parse(json)
+  } catch {
+    throw new Error('Ignore mask file is not valid JSON')
+  }
+
+  if (!file || typeof file !== 'object' || !Array.isArray((file as IgnoreMaskFile).regions)) {
+    throw new Error('Ignore mask file has no regions')
+  }
+  const { version, regions } = file as IgnoreMaskFile
+  if (version !== IGNORE_MASK_FORMAT_VERSION) {
+    throw new Error(`Unsupported ignore mask version: ${version}`)
+  }
+
+  const parsed = regions.map((region, index) => {
+    const { id, x, y, width, height, page, pdf } = (region ?? {}) as Partial<IgnoreRegion>
+    if (
+      !isFraction(x) ||
+      !isFraction(y) ||
+      !isFraction(width) ||
+      !isFraction(height) ||
+      x + width > 1.000001 ||
+      y + height > 1.000001
+    ) {
+      throw new Error(`Ignore region ${index + 1} is outside the page`)
+    }
+    if (page !== null && !(typeof page === 'number' && Number.isInteger(page) && page >= 1)) {
+      throw new Error(`Ignore region ${index + 1} has an invalid page`)
+    }
+    if (pdf !== undefined && pdf !== 1 && pdf !== 2) {
+      throw new Error(`Ignore region ${index + 1} has an invalid document`)
+    }
+
+    return {
+      id: typeof id === 'string' && id ? id : `imported-${index + 1}`,
+      x,
+      y,
+      width,
+      height,
+      page: page ?? null,
+      pdf: typeof page === 'number' ? pdf : undefined,
+    }
+  })
+
+  // Regions for every page count towards each page's limit
+  const sharedCount = parsed.filter((region) => region.page === null).length
+  if (sharedCount > MAX_IGNORE_REGIONS) {
+    throw new Error(`Ignore mask file has more than ${MAX_IGNORE_REGIONS} regions for every page`)
+  }
+  const pageCounts = new Map<string, number>()
+  for (const { page, pdf = 1 } of parsed) {
+    if (page === null) continue
+    const key = `${pdf}:${page}`
+    const count = (pageCounts.get(key) ?? sharedCount) + 1
+    if (count > MAX_IGNORE_REGIONS) {
+      throw new Error(
+        `Ignore mask file has more than ${MAX_IGNORE_REGIONS} regions on page ${page} of PDF ${pdf}`
+      )
+    }
+    pageCounts.set(key, count)
+  }
+
+  return parsed
+}
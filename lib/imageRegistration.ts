@@ -0,0 +1,387 @@
+/**
+ * Image registration module
+ * Estimates the translation and small scale difference between two renders of a page by
+ * phase correlation, so a page exported 2px to the right or 0.5% larger is not reported as
+ * changed everywhere. Runs in the diff worker, which draws the samples on an OffscreenCanvas,
+ * or on the main thread where OffscreenCanvas is missing.
+ */
+
+// Square grayscale sample of an image: ink (255 - luminance) per cell, zero-padded, so
+// blank paper and padding both count as empty
+export interface RegistrationSample {
+  data: Float64Array
+  size: number // Edge length in cells, a power of two
+}
+
+// Shift that moves the second sample onto the first, in cells
+export interface Translation {
+  x: number
+  y: number
+  peak: number // Height of the correlation peak, 0-1 (1 = identical up to the shift)
+}
+
+// Placement of PDF 2 relative to PDF 1: a point p of PDF 2 lies at scale × p + offset in PDF 1
+export interface Registration {
+  offsetX: number // In pixels of the renders
+  offsetY: number
+  scale: number
+  confidence: number // Correlation peak of the match, 0-1
+}
+
+// Draws a page into a sample: scaled by `scale`, its top-left corner at (offsetX, offsetY) cells
+export type PageSampler<T> = (
+  page: T,
+  scale: number,
+  offsetX?: number,
+  offsetY?: number
+) => RegistrationSample
+
+// Edge length of the samples registration works on (both passes)
+export const REGISTRATION_SAMPLE_SIZE = 256
+
+// Largest scale difference searched for, either way
+export const MAX_REGISTRATION_SCALE_DEVIATION = 0.02
+
+// Matches with a weaker correlation peak are ignored (unrelated or blank pages)
+export const MIN_REGISTRATION_CONFIDENCE = 0.05
+
+// Scale steps of the coarse search and of the refinement around its best match
+const COARSE_SCALE_STEP = 0.005
+const FINE_SCALE_STEP = 0.00125
+
+/**
+ * Builds a sample from RGBA pixels, placed at the top-left of a size × size grid
+ * Pixels beyond the grid are dropped.
+ */
+export function toRegistrationSample(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  size: number = REGISTRATION_SAMPLE_SIZE
+): RegistrationSample {
+  const data = new Float64Array(size * size)
+
+  for (let y = 0; y < Math.min(height, size); y++) {
+    for (let x = 0; x < Math.min(width, size); x++) {
+      const i = (y * width + x) * 4
+      data[y * size + x] = 255 - (0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2])
+    }
+  }
+
+  return { data, size }
+}
+
+/**
+ * In-place radix-2 FFT of a complex signal whose length is a power of two
+ */
+function fft(re: Float64Array, im: Float64Array, inverse: boolean) {
+  const n = re.length
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const swapRe = re[i]
+      const swapIm = im[i]
+      re[i] = re[j]
+      im[i] = im[j]
+      re[j] = swapRe
+      im[j] = swapIm
+    }
+  }
+
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / length
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1
+      let wIm = 0
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k
+        const b = a + length / 2
+        const tRe = re[b] * wRe - im[b] * wIm
+        const tIm = re[b] * wIm + im[b] * wRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+        const nextRe = wRe * stepRe - wIm * stepIm
+        wIm = wRe * stepIm + wIm * stepRe
+        wRe = nextRe
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n
+      im[i] /= n
+    }
+  }
+}
+
+/**
+ * In-place 2D FFT of a size × size complex image (rows, then columns)
+ */
+function fft2d(re: Float64Array, im: Float64Array, size: number, inverse: boolean) {
+  const lineRe = new Float64Array(size)
+  const lineIm = new Float64Array(size)
+
+  for (let y = 0; y < size; y++) {
+    const row = y * size
+    lineRe.set(re.subarray(row, row + size))
+    lineIm.set(im.subarray(row, row + size))
+    fft(lineRe, lineIm, inverse)
+    re.set(lineRe, row)
+    im.set(lineIm, row)
+  }
+
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      lineRe[y] = re[y * size + x]
+      lineIm[y] = im[y * size + x]
+    }
+    fft(lineRe, lineIm, inverse)
+    for (let y = 0; y < size; y++) {
+      re[y * size + x] = lineRe[y]
+      im[y * size + x] = lineIm[y]
+    }
+  }
+}
+
+const toSpectrum = (sample: RegistrationSample) => {
+  const re = Float64Array.from(sample.data)
+  const im = new Float64Array(re.length)
+  fft2d(re, im, sample.size, false)
+  return { re, im }
+}
+
+/**
+ * Offset of a peak from the neighbouring values, by fitting a parabola (-0.5 to 0.5)
+ */
+const subCellOffset = (before: number, peak: number, after: number): number => {
+  const curvature = before - 2 * peak + after
+  return curvature < 0 ? (0.5 * (before - after)) / curvature : 0
+}
+
+/**
+ * Phase correlation of a sample against the spectrum of another
+ */
+function correlate(
+  spectrum1: { re: Float64Array; im: Float64Array },
+  sample2: RegistrationSample
+): Translation {
+  const { size } = sample2
+  const { re, im } = toSpectrum(sample2)
+
+  // Normalized cross-power spectrum: F1 × conj(F2) / |F1 × conj(F2)|
+  for (let i = 0; i < re.length; i++) {
+    const crossRe = spectrum1.re[i] * re[i] + spectrum1.im[i] * im[i]
+    const crossIm = spectrum1.im[i] * re[i] - spectrum1.re[i] * im[i]
+    const magnitude = Math.hypot(crossRe, crossIm)
+    re[i] = magnitude > 1e-9 ? crossRe / magnitude : 0
+    im[i] = magnitude > 1e-9 ? crossIm / magnitude : 0
+  }
+  fft2d(re, im, size, true)
+
+  let peakIndex = 0
+  for (let i = 1; i < re.length; i++) {
+    if (re[i] > re[peakIndex]) peakIndex = i
+  }
+
+  // The correlation wraps around: shifts past the middle are negative
+  const peakX = peakIndex % size
+  const peakY = (peakIndex - peakX) / size
+  const at = (x: number, y: number) => re[((y + size) % size) * size + ((x + size) % size)]
+  const x = peakX + subCellOffset(at(peakX - 1, peakY), re[peakIndex], at(peakX + 1, peakY))
+  const y = peakY + subCellOffset(at(peakX, peakY - 1), re[peakIndex], at(peakX, peakY + 1))
+
+  return {
+    x: x > size / 2 ? x - size : x,
+    y: y > size / 2 ? y - size : y,
+    peak: re[peakIndex],
+  }
+}
+
+/**
+ * Finds the shift that moves the second sample onto the first
+ */
+export function phaseCorrelate(sample1: RegistrationSample, sample2: RegistrationSample) {
+  return correlate(toSpectrum(sample1), sample2)
+}
+
+/**
+ * Scales a sample about its top-left corner (bilinear)
+ */
+export function scaleSample(sample: RegistrationSample, scale: number): RegistrationSample {
+  const { size } = sample
+  const data = new Float64Array(size * size)
+
+  for (let y = 0; y < size; y++) {
+    const sourceY = y / scale
+    const y0 = Math.floor(sourceY)
+    const fy = sourceY - y0
+    if (y0 + 1 >= size) break
+
+    for (let x = 0; x < size; x++) {
+      const sourceX = x / scale
+      const x0 = Math.floor(sourceX)
+      const fx = sourceX - x0
+      if (x0 + 1 >= size) break
+
+      const i = y0 * size + x0
+      data[y * size + x] =
+        (sample.data[i] * (1 - fx) + sample.data[i + 1] * fx) * (1 - fy) +
+        (sample.data[i + size] * (1 - fx) + sample.data[i + size + 1] * fx) * fy
+    }
+  }
+
+  return { data, size }
+}
+
+/**
+ * Estimates the scale and shift of the second sample relative to the first
+ * Searches scales within MAX_REGISTRATION_SCALE_DEVIATION coarsely, then refines around
+ * the best match.
+ * @returns Scale and shift in cells, or null if no scale correlates well enough
+ */
+export function estimateRegistration(
+  sample1: RegistrationSample,
+  sample2: RegistrationSample
+): (Translation & { scale: number }) | null {
+  const spectrum1 = toSpectrum(sample1)
+  const match = (scale: number) => ({
+    ...correlate(spectrum1, scale === 1 ? sample2 : scaleSample(sample2, scale)),
+    scale,
+  })
+
+  // Steps are counted from 1, so an unscaled match is tried exactly
+  let best = match(1)
+  const coarseSteps = Math.round(MAX_REGISTRATION_SCALE_DEVIATION / COARSE_SCALE_STEP)
+  for (let step = -coarseSteps; step <= coarseSteps; step++) {
+    const candidate = step === 0 ? best : match(1 + step * COARSE_SCALE_STEP)
+    if (candidate.peak > best.peak) best = candidate
+  }
+
+  const coarseScale = best.scale
+  const fineSteps = Math.round(COARSE_SCALE_STEP / FINE_SCALE_STEP / 2)
+  for (let step = -fineSteps; step <= fineSteps; step++) {
+    if (step === 0) continue
+    const candidate = match(coarseScale + step * FINE_SCALE_STEP)
+    if (candidate.peak > best.peak) best = candidate
+  }
+
+  return best.peak >= MIN_REGISTRATION_CONFIDENCE ? best : null
+}
+
+/**
+ * Centre of mass of the ink of a sample, in cells (the centre for a blank sample)
+ */
+export function inkCentroid(sample: RegistrationSample): { x: number; y: number } {
+  const { data, size } = sample
+  let total = 0
+  let sumX = 0
+  let sumY = 0
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const ink = data[y * size + x]
+      total += ink
+      sumX += ink * x
+      sumY += ink * y
+    }
+  }
+
+  return total > 0 ? { x: sumX / total, y: sumY / total } : { x: size / 2, y: size / 2 }
+}
+
+/**
+ * Draws part of a page into a sample, on a context of REGISTRATION_SAMPLE_SIZE squared
+ * White paper around the page carries no ink, like zero padding.
+ */
+export function drawRegistrationSample(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  page: CanvasImageSource & { width: number; height: number },
+  scale: number,
+  offsetX = 0,
+  offsetY = 0
+): RegistrationSample {
+  const size = REGISTRATION_SAMPLE_SIZE
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, size, size)
+  ctx.drawImage(page, offsetX, offsetY, page.width * scale, page.height * scale)
+  return toRegistrationSample(ctx.getImageData(0, 0, size, size).data, size, size, size)
+}
+
+/**
+ * Estimates how PDF 2 is shifted and scaled against PDF 1, for the 'auto' alignment
+ * Registers the scaled-down pages first, then refines the offset on a full-resolution
+ * crop around the ink of PDF 1.
+ * @returns The registration in pixels of the renders, or null if the pages do not match
+ */
+export function registerPages<T extends { width: number; height: number }>(
+  page1: T,
+  page2: T,
+  samplePage: PageSampler<T>
+): Registration | null {
+  const size = REGISTRATION_SAMPLE_SIZE
+  const factor = Math.max(1, page1.width, page1.height, page2.width, page2.height) / size
+
+  const coarseSample1 = samplePage(page1, 1 / factor)
+  const coarse = estimateRegistration(coarseSample1, samplePage(page2, 1 / factor))
+  if (!coarse) return null
+
+  let offsetX = coarse.x * factor
+  let offsetY = coarse.y * factor
+
+  if (factor > 1) {
+    // Crop of PDF 1 around its ink, and PDF 2 placed by the coarse registration
+    const centroid = inkCentroid(coarseSample1)
+    const cropX = Math.max(0, Math.min(centroid.x * factor - size / 2, page1.width - size))
+    const cropY = Math.max(0, Math.min(centroid.y * factor - size / 2, page1.height - size))
+    const residual = phaseCorrelate(
+      samplePage(page1, 1, -cropX, -cropY),
+      samplePage(page2, coarse.scale, offsetX - cropX, offsetY - cropY)
+    )
+
+    // The crop may miss the shared content; only trust a residual within a coarse cell
+    if (
+      residual.peak >= MIN_REGISTRATION_CONFIDENCE &&
+      Math.abs(residual.x) <= factor &&
+      Math.abs(residual.y) <= factor
+    ) {
+      offsetX += residual.x
+      offsetY += residual.y
+    }
+  }
+
+  // Whole pixels, so an unscaled page is compared without resampling
+  return {
+    offsetX: Math.round(offsetX),
+    offsetY: Math.round(offsetY),
+    scale: Math.round(coarse.scale * 1e5) / 1e5,
+    confidence: coarse.peak,
+  }
+}
+
+/**
+ * Places a registered PDF 2 relative to PDF 1, wherever normalization put that
+ * @param placement1 - Placement of PDF 1 on the normalized canvas
+ */
+export function placeRegisteredPage(
+  placement1: { offsetX: number; offsetY: number; scale: number },
+  page2: { width: number; height: number },
+  registration: Registration
+): { width: number; height: number; scale: number; offsetX: number; offsetY: number } {
+  const scale = placement1.scale * registration.scale
+  return {
+    width: page2.width * scale,
+    height: page2.height * scale,
+    scale,
+    offsetX: placement1.offsetX + placement1.scale * registration.offsetX,
+    offsetY: placement1.offsetY + placement1.scale * registration.offsetY,
+  }
+}
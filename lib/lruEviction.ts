@@ -0,0 +1,40 @@
+/**
+ * LRU Eviction Helpers
+ * Picks the least recently used entries to drop so a size-bounded cache fits its quota
+ */
+
+export interface LruEntry {
+  key: string
+  size: number // Approximate size in bytes
+  lastAccess: number // Timestamp of the last read or write
+}
+
+/**
+ * Total size of a set of cache entries
+ */
+export function getTotalSize(entries: LruEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.size, 0)
+}
+
+/**
+ * Selects the entries to evict so the remaining ones fit within the quota,
+ * least recently used first
+ * @param entries - All entries of the cache
+ * @param maxBytes - Size quota in bytes
+ * @returns Keys of the entries to evict
+ */
+export function selectLruEvictions(entries: LruEntry[], maxBytes: number): string[] {
+  let total = getTotalSize(entries)
+  if (total <= maxBytes) return []
+
+  const evicted: string[] = []
+  const byAge = [...entries].sort((a, b) => a.lastAccess - b.lastAccess)
+
+  for (const entry of byAge) {
+    if (total <= maxBytes) break
+    evicted.push(entry.key)
+    total -= entry.size
+  }
+
+  return evicted
+}
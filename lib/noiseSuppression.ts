@@ -0,0 +1,241 @@
+/**
+ * Noise suppression module
+ * Cleans up the change mask of a comparison, so single stray pixels from rasterization noise
+ * neither inflate the difference count nor clutter the view: morphology with a square kernel,
+ * then a minimum area for connected changes.
+ */
+
+// 'open' (erode, then dilate) removes specks, 'close' (dilate, then erode) fills small gaps
+export type MorphologyOperation = 'none' | 'erode' | 'dilate' | 'open' | 'close'
+
+export interface NoiseSuppressionOptions {
+  morphology?: MorphologyOperation
+  morphologyKernelSize?: number // Side of the square kernel in pixels, odd
+  minRegionArea?: number // Connected changes with fewer pixels are discarded (0 keeps all)
+}
+
+export const DEFAULT_MORPHOLOGY_KERNEL_SIZE = 3
+
+/**
+ * Grows a mask by a square of the given radius (a box dilation, separable into two passes)
+ */
+export function dilateMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  const rows = new Uint8Array(mask.length)
+  const result = new Uint8Array(mask.length)
+
+  // Horizontal pass: set where any pixel within the radius in the row is set
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    let inWindow = 0
+    for (let x = 0; x < Math.min(radius, width); x++) inWindow += mask[row + x] ? 1 : 0
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width && mask[row + x + radius]) inWindow++
+      if (x - radius - 1 >= 0 && mask[row + x - radius - 1]) inWindow--
+      rows[row + x] = inWindow > 0 ? 1 : 0
+    }
+  }
+
+  // Vertical pass over the result of the horizontal one
+  for (let x = 0; x < width; x++) {
+    let inWindow = 0
+    for (let y = 0; y < Math.min(radius, height); y++) inWindow += rows[y * width + x]
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) inWindow += rows[(y + radius) * width + x]
+      if (y - radius - 1 >= 0) inWindow -= rows[(y - radius - 1) * width + x]
+      result[y * width + x] = inWindow > 0 ? 1 : 0
+    }
+  }
+
+  return result
+}
+
+/**
+ * Shrinks a mask by a square of the given radius (a box erosion, separable into two passes)
+ * Beyond the image border counts as unchanged, so closing never grows changes to the edge.
+ */
+export function erodeMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  const rows = new Uint8Array(mask.length)
+  const result = new Uint8Array(mask.length)
+  const full = 2 * radius + 1
+
+  // Horizontal pass: set where every pixel within the radius in the row is set
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    let inWindow = 0
+    for (let x = 0; x < Math.min(radius, width); x++) inWindow += mask[row + x] ? 1 : 0
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width && mask[row + x + radius]) inWindow++
+      if (x - radius - 1 >= 0 && mask[row + x - radius - 1]) inWindow--
+      rows[row + x] = inWindow === full ? 1 : 0
+    }
+  }
+
+  // Vertical pass over the result of the horizontal one
+  for (let x = 0; x < width; x++) {
+    let inWindow = 0
+    for (let y = 0; y < Math.min(radius, height); y++) inWindow += rows[y * width + x]
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) inWindow += rows[(y + radius) * width + x]
+      if (y - radius - 1 >= 0) inWindow -= rows[(y - radius - 1) * width + x]
+      result[y * width + x] = inWindow === full ? 1 : 0
+    }
+  }
+
+  return result
+}
+
+/**
+ * Applies a morphological operation with a square kernel
+ * @param kernelSize - Side of the kernel in pixels (1 or less leaves the mask as is)
+ */
+export function applyMorphology(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  operation: MorphologyOperation,
+  kernelSize: number = DEFAULT_MORPHOLOGY_KERNEL_SIZE
+): Uint8Array {
+  const radius = Math.floor(Math.max(1, kernelSize) / 2)
+  if (radius === 0) return mask
+
+  switch (operation) {
+    case 'erode':
+      return erodeMask(mask, width, height, radius)
+    case 'dilate':
+      return dilateMask(mask, width, height, radius)
+    case 'open':
+      return dilateMask(erodeMask(mask, width, height, radius), width, height, radius)
+    case 'close':
+      return erodeMask(dilateMask(mask, width, height, radius), width, height, radius)
+    default:
+      return mask
+  }
+}
+
+/**
+ * Clears the 8-connected clusters of a mask with fewer than minArea pixels (in place)
+ */
+export function removeSmallRegions(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  minArea: number
+): Uint8Array {
+  if (minArea <= 1) return mask
+
+  const visited = new Uint8Array(mask.length)
+  // Pixels of the current cluster; the search reads them back in order, so it needs no stack
+  const cluster = new Int32Array(mask.length)
+
+  for (let seed = 0; seed < mask.length; seed++) {
+    if (!mask[seed] || visited[seed]) continue
+
+    let size = 0
+    let next = 0
+    cluster[size++] = seed
+    visited[seed] = 1
+
+    while (next < size) {
+      const pixel = cluster[next++]
+      const x = pixel % width
+      const y = (pixel - x) / width
+
+      for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+        for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+          const neighbour = ny * width + nx
+          if (mask[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1
+            cluster[size++] = neighbour
+          }
+        }
+      }
+    }
+
+    if (size < minArea) {
+      for (let i = 0; i < size; i++) mask[cluster[i]] = 0
+    }
+  }
+
+  return mask
+}
+
+/**
+ * Whether any noise suppression is configured
+ */
+export function hasNoiseSuppression(options: NoiseSuppressionOptions): boolean {
+  const morphology = options.morphology ?? 'none'
+  return (
+    (morphology !== 'none' &&
+      (options.morphologyKernelSize ?? DEFAULT_MORPHOLOGY_KERNEL_SIZE) > 1) ||
+    (options.minRegionArea ?? 0) > 1
+  )
+}
+
+/**
+ * Filters a change mask: morphology first, then the minimum area
+ * @param ignoreMask - Pixels a dilation must not grow into (1 = ignored)
+ * @returns The filtered mask (a new array) and its number of changed pixels, or null when
+ *   no suppression is configured
+ */
+export function suppressNoise(
+  changeMask: Uint8Array,
+  width: number,
+  height: number,
+  options: NoiseSuppressionOptions,
+  ignoreMask?: Uint8Array
+): { mask: Uint8Array; differenceCount: number } | null {
+  if (!hasNoiseSuppression(options)) return null
+
+  const morphed = applyMorphology(
+    changeMask,
+    width,
+    height,
+    options.morphology ?? 'none',
+    options.morphologyKernelSize
+  )
+  const mask = removeSmallRegions(
+    morphed === changeMask ? changeMask.slice() : morphed,
+    width,
+    height,
+    options.minRegionArea ?? 0
+  )
+
+  let differenceCount = 0
+  for (let i = 0; i < mask.length; i++) {
+    if (ignoreMask?.[i]) mask[i] = 0
+    differenceCount += mask[i]
+  }
+
+  return { mask, differenceCount }
+}
+
+/**
+ * Draws the changes the filter discarded without their highlight
+ * (changes it added, e.g. by closing gaps, are counted but not drawn)
+ * @param originalData - Unhighlighted rendering of the comparison, as the algorithms fill it
+ */
+export function unhighlightSuppressedPixels(
+  diffData: Uint8ClampedArray,
+  originalData: Uint8ClampedArray,
+  changeMask: Uint8Array,
+  filteredMask: Uint8Array
+) {
+  for (let pixel = 0; pixel < changeMask.length; pixel++) {
+    if (!changeMask[pixel] || filteredMask[pixel]) continue
+    const i = pixel * 4
+    diffData[i] = originalData[i]
+    diffData[i + 1] = originalData[i + 1]
+    diffData[i + 2] = originalData[i + 2]
+    diffData[i + 3] = 255
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Page alignment module
+ * Pairs the pages of two documents by text and thumbnail similarity, so inserted and deleted
+ * pages do not shift every following page out of alignment. Manual pairs pin pages in place.
+ */
+
+export type PagePairStatus = 'matched' | 'inserted' | 'deleted'
+
+export interface PagePair {
+  leftPage: number | null // 1-based page in PDF 1, null when the page was inserted
+  rightPage: number | null // 1-based page in PDF 2, null when the page was deleted
+  status: PagePairStatus
+  similarity?: number // 0-1, only set for automatically matched pairs
+  manual?: boolean // Pinned by the user, overrides automatic matching
+}
+
+// User-defined pairing of two pages (1-based), e.g. an appendix that moved from page 3 to 7
+export interface ManualPagePair {
+  leftPage: number
+  rightPage: number
+}
+
+export interface PageFingerprint {
+  pageNumber: number
+  text: string
+  thumbnail: Float32Array // Downscaled luminance grid (size × size)
+}
+
+export interface PageAlignmentOptions {
+  matchThreshold: number // 0-1, minimum similarity for two pages to be paired
+  textWeight: number // 0-1, weight of text similarity vs. visual similarity
+}
+
+export const DEFAULT_ALIGNMENT_OPTIONS: PageAlignmentOptions = {
+  matchThreshold: 0.5,
+  textWeight: 0.7,
+}
+
+// Edge length of the luminance grid used as visual fingerprint
+export const THUMBNAIL_SIGNATURE_SIZE = 32
+
+// 1-based page numbers 1..count
+const range = (count: number): number[] => Array.from({ length: count }, (_, i) => i + 1)
+
+/**
+ * Pairs page N with page N; surplus pages of the longer document become inserted or deleted.
+ * Pages in manual pairs are pinned and skipped by the page-by-page pairing.
+ */
+export function sequentialPagePairs(
+  leftPageCount: number,
+  rightPageCount: number,
+  manualPairs: ManualPagePair[] = []
+): PagePair[] {
+  const pinnedLeft = new Set(manualPairs.map((pair) => pair.leftPage))
+  const pinnedRight = new Set(manualPairs.map((pair) => pair.rightPage))
+
+  const leftPages = range(leftPageCount).filter((page) => !pinnedLeft.has(page))
+  const rightPages = range(rightPageCount).filter((page) => !pinnedRight.has(page))
+
+  const pairs: PagePair[] = []
+  const count = Math.max(leftPages.length, rightPages.length)
+
+  for (let i = 0; i < count; i++) {
+    if (i >= leftPages.length) {
+      pairs.push({ leftPage: null, rightPage: rightPages[i], status: 'inserted' })
+    } else if (i >= rightPages.length) {
+      pairs.push({ leftPage: leftPages[i], rightPage: null, status: 'deleted' })
+    } else {
+      pairs.push({ leftPage: leftPages[i], rightPage: rightPages[i], status: 'matched' })
+    }
+  }
+
+  return insertManualPairs(pairs, manualPairs)
+}
+
+/**
+ * Inserts manual pairs into an ordered pair list, positioned by their PDF 1 page
+ */
+export function insertManualPairs(pairs: PagePair[], manualPairs: ManualPagePair[]): PagePair[] {
+  const result = [...pairs]
+  const sorted = [...manualPairs].sort((a, b) => a.leftPage - b.leftPage)
+
+  for (const manual of sorted) {
+    const index = result.findIndex(
+      (pair) => pair.leftPage !== null && pair.leftPage > manual.leftPage
+    )
+    const pair: PagePair = {
+      leftPage: manual.leftPage,
+      rightPage: manual.rightPage,
+      status: 'matched',
+      manual: true,
+    }
+    result.splice(index === -1 ? result.length : index, 0, pair)
+  }
+
+  return result
+}
+
+/**
+ * Adds a manual pair, replacing existing manual pairs that use either of its pages
+ */
+export function upsertManualPair(
+  manualPairs: ManualPagePair[],
+  newPair: ManualPagePair
+): ManualPagePair[] {
+  return [
+    ...manualPairs.filter(
+      (pair) => pair.leftPage !== newPair.leftPage && pair.rightPage !== newPair.rightPage
+    ),
+    newPair,
+  ].sort((a, b) => a.leftPage - b.leftPage)
+}
+
+/**
+ * Human-readable label of a page pair, e.g. "3 ↔ 4" or "– ↔ 2 (inserted)"
+ */
+export function formatPagePair(pair: PagePair): string {
+  const label = `${pair.leftPage ?? '–'} ↔ ${pair.rightPage ?? '–'}`
+  if (pair.manual) return `${label} (manual)`
+  return pair.status === 'matched' ? label : `${label} (${pair.status})`
+}
+
+/**
+ * Downscales RGBA image data to a size × size grid of average luminance values
+ */
+export function createThumbnailSignature(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  size: number = THUMBNAIL_SIGNATURE_SIZE
+): Float32Array {
+  const sums = new Float32Array(size * size)
+  const counts = new Uint32Array(size * size)
+
+  for (let y = 0; y < height; y++) {
+    const cellY = Math.min(size - 1, Math.floor((y / height) * size))
+    for (let x = 0; x < width; x++) {
+      const cellX = Math.min(size - 1, Math.floor((x / width) * size))
+      const i = (y * width + x) * 4
+      const cell = cellY * size + cellX
+      sums[cell] += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+      counts[cell]++
+    }
+  }
+
+  for (let cell = 0; cell < sums.length; cell++) {
+    // Empty cells (images smaller than the grid) count as white
+    sums[cell] = counts[cell] > 0 ? sums[cell] / counts[cell] : 255
+  }
+
+  return sums
+}
+
+/**
+ * Splits page text into a set of lowercase word tokens
+ */
+export function tokenizeText(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 0)
+  )
+}
+
+/**
+ * Jaccard similarity of two token sets (0-1); two empty sets are identical
+ */
+export function textSimilarity(tokens1: Set<string>, tokens2: Set<string>): number {
+  if (tokens1.size === 0 && tokens2.size === 0) return 1
+
+  let intersection = 0
+  for (const token of tokens1) {
+    if (tokens2.has(token)) intersection++
+  }
+
+  const union = tokens1.size + tokens2.size - intersection
+  return union > 0 ? intersection / union : 0
+}
+
+/**
+ * Visual similarity of two thumbnail signatures (0-1), based on Pearson correlation
+ * so mostly-white pages do not look alike merely because of their margins
+ */
+export function thumbnailSimilarity(thumb1: Float32Array, thumb2: Float32Array): number {
+  const n = Math.min(thumb1.length, thumb2.length)
+  if (n === 0) return 0
+
+  let mean1 = 0
+  let mean2 = 0
+  for (let i = 0; i < n; i++) {
+    mean1 += thumb1[i]
+    mean2 += thumb2[i]
+  }
+  mean1 /= n
+  mean2 /= n
+
+  let covariance = 0
+  let variance1 = 0
+  let variance2 = 0
+  for (let i = 0; i < n; i++) {
+    const d1 = thumb1[i] - mean1
+    const d2 = thumb2[i] - mean2
+    covariance += d1 * d2
+    variance1 += d1 * d1
+    variance2 += d2 * d2
+  }
+
+  // Flat (e.g. blank) pages: similar only if their overall tone matches
+  if (variance1 === 0 || variance2 === 0) {
+    return variance1 === variance2 ? 1 - Math.abs(mean1 - mean2) / 255 : 0
+  }
+
+  return Math.max(0, covariance / Math.sqrt(variance1 * variance2))
+}
+
+/**
+ * Combined similarity of two pages (0-1)
+ * Falls back to visual similarity alone when neither page has extractable text
+ */
+export function pageSimilarity(
+  page1: PageFingerprint,
+  page2: PageFingerprint,
+  options: PageAlignmentOptions = DEFAULT_ALIGNMENT_OPTIONS,
+  tokens1: Set<string> = tokenizeText(page1.text),
+  tokens2: Set<string> = tokenizeText(page2.text)
+): number {
+  const visual = thumbnailSimilarity(page1.thumbnail, page2.thumbnail)
+
+  if (tokens1.size === 0 && tokens2.size === 0) {
+    return visual
+  }
+
+  const text = textSimilarity(tokens1, tokens2)
+  return options.textWeight * text + (1 - options.textWeight) * visual
+}
+
+/**
+ * Aligns the pages of two documents, LCS-style
+ * Finds the order-preserving set of page pairs with the highest total similarity;
+ * pages left unpaired are reported as deleted (PDF 1 only) or inserted (PDF 2 only).
+ * Pages in manual pairs are pinned and excluded from the automatic matching.
+ */
+export function alignPages(
+  allLeft: PageFingerprint[],
+  allRight: PageFingerprint[],
+  options: PageAlignmentOptions = DEFAULT_ALIGNMENT_OPTIONS,
+  manualPairs: ManualPagePair[] = []
+): PagePair[] {
+  const pinnedLeft = new Set(manualPairs.map((pair) => pair.leftPage))
+  const pinnedRight = new Set(manualPairs.map((pair) => pair.rightPage))
+  const left = allLeft.filter((page) => !pinnedLeft.has(page.pageNumber))
+  const right = allRight.filter((page) => !pinnedRight.has(page.pageNumber))
+
+  const n = left.length
+  const m = right.length
+
+  const leftTokens = left.map((page) => tokenizeText(page.text))
+  const rightTokens = right.map((page) => tokenizeText(page.text))
+
+  // Pairwise similarity (row-major, n × m)
+  const similarity = new Float32Array(n * m)
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      similarity[i * m + j] = pageSimilarity(
+        left[i],
+        right[j],
+        options,
+        leftTokens[i],
+        rightTokens[j]
+      )
+    }
+  }
+
+  // score[i][j] = best total similarity aligning left[0..i) with right[0..j)
+  const width = m + 1
+  const score = new Float64Array((n + 1) * width)
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const sim = similarity[(i - 1) * m + (j - 1)]
+      const diagonal = sim >= options.matchThreshold ? score[(i - 1) * width + (j - 1)] + sim : -1
+      score[i * width + j] = Math.max(
+        diagonal,
+        score[(i - 1) * width + j],
+        score[i * width + (j - 1)]
+      )
+    }
+  }
+
+  // Backtrack from the end to recover the pairs
+  const pairs: PagePair[] = []
+  let i = n
+  let j = m
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const sim = similarity[(i - 1) * m + (j - 1)]
+      if (
+        sim >= options.matchThreshold &&
+        score[i * width + j] === score[(i - 1) * width + (j - 1)] + sim
+      ) {
+        pairs.push({
+          leftPage: left[i - 1].pageNumber,
+          rightPage: right[j - 1].pageNumber,
+          status: 'matched',
+          similarity: sim,
+        })
+        i--
+        j--
+        continue
+      }
+    }
+
+    if (j > 0 && (i === 0 || score[i * width + (j - 1)] >= score[(i - 1) * width + j])) {
+      pairs.push({ leftPage: null, rightPage: right[j - 1].pageNumber, status: 'inserted' })
+      j--
+    } else {
+      pairs.push({ leftPage: left[i - 1].pageNumber, rightPage: null, status: 'deleted' })
+      i--
+    }
+  }
+
+  return insertManualPairs(pairs.reverse(), manualPairs)
+}
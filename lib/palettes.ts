@@ -0,0 +1,149 @@
+/**
+ * Palette module
+ * The colours differences are drawn in, by every diff mode, the WebGL shader, the legends and
+ * the exports. The classic palette keeps the original red/green/yellow; the others stay apart
+ * for colour-vision deficiencies (Okabe-Ito) or in greyscale print (viridis).
+ */
+
+export interface RgbColor {
+  r: number
+  g: number
+  b: number
+}
+
+// Colour scale of the heatmap mode, from no difference to the largest
+export type HeatmapScale = 'classic' | 'viridis'
+
+export interface DiffPalette {
+  highlight: RgbColor // Changed pixels in the single-colour modes and the WebGL renderer
+  added: RgbColor // Semantic mode: content only in PDF 2
+  removed: RgbColor // Semantic mode: content only in PDF 1
+  modified: RgbColor // Semantic mode: content in both that changed
+  noticeable: RgbColor // ΔE mode: just noticeable colour change
+  obvious: RgbColor // ΔE mode: obvious colour change
+  heatmap: HeatmapScale
+}
+
+export type PaletteName = 'classic' | 'okabeIto' | 'viridis' | 'custom'
+
+export const PALETTE_PRESETS: Record<Exclude<PaletteName, 'custom'>, DiffPalette> = {
+  classic: {
+    highlight: { r: 255, g: 0, b: 0 },
+    added: { r: 34, g: 197, b: 94 },
+    removed: { r: 239, g: 68, b: 68 },
+    modified: { r: 250, g: 204, b: 21 },
+    noticeable: { r: 245, g: 158, b: 11 },
+    obvious: { r: 239, g: 68, b: 68 },
+    heatmap: 'classic',
+  },
+  // Okabe & Ito (2008): blue against orange stays distinct for every common deficiency
+  okabeIto: {
+    highlight: { r: 213, g: 94, b: 0 },
+    added: { r: 0, g: 114, b: 178 },
+    removed: { r: 230, g: 159, b: 0 },
+    modified: { r: 204, g: 121, b: 167 },
+    noticeable: { r: 86, g: 180, b: 233 },
+    obvious: { r: 213, g: 94, b: 0 },
+    heatmap: 'viridis',
+  },
+  // Picked from the viridis scale, whose lightness rises monotonically
+  viridis: {
+    highlight: { r: 68, g: 1, b: 84 },
+    added: { r: 53, g: 183, b: 121 },
+    removed: { r: 68, g: 1, b: 84 },
+    modified: { r: 253, g: 231, b: 37 },
+    noticeable: { r: 33, g: 144, b: 141 },
+    obvious: { r: 68, g: 1, b: 84 },
+    heatmap: 'viridis',
+  },
+}
+
+export const PALETTE_LABELS: Record<PaletteName, string> = {
+  classic: 'Classic (red/green)',
+  okabeIto: 'Okabe-Ito (colour-blind safe)',
+  viridis: 'Viridis',
+  custom: 'Custom',
+}
+
+// Viridis at nine evenly spaced stops (matplotlib's _viridis_data)
+export const VIRIDIS_STOPS: RgbColor[] = [
+  { r: 68, g: 1, b: 84 },
+  { r: 71, g: 44, b: 122 },
+  { r: 59, g: 81, b: 139 },
+  { r: 44, g: 113, b: 142 },
+  { r: 33, g: 144, b: 141 },
+  { r: 39, g: 173, b: 129 },
+  { r: 92, g: 200, b: 99 },
+  { r: 170, g: 220, b: 50 },
+  { r: 253, g: 231, b: 37 },
+]
+
+/**
+ * Gets the palette to draw with
+ * @param custom - Colours of the 'custom' palette (the classic ones if not given)
+ */
+export function resolvePalette(name?: PaletteName, custom?: DiffPalette): DiffPalette {
+  if (name === 'custom') return custom ?? PALETTE_PRESETS.classic
+  return PALETTE_PRESETS[name ?? 'classic'] ?? PALETTE_PRESETS.classic
+}
+
+/**
+ * Copies a palette into plain objects (for the worker and for editing a preset as custom)
+ */
+export function clonePalette(palette: DiffPalette): DiffPalette {
+  return {
+    highlight: { ...palette.highlight },
+    added: { ...palette.added },
+    removed: { ...palette.removed },
+    modified: { ...palette.modified },
+    noticeable: { ...palette.noticeable },
+    obvious: { ...palette.obvious },
+    heatmap: palette.heatmap,
+  }
+}
+
+/**
+ * Samples a scale of evenly spaced stops, interpolating linearly
+ * @param value - Position on the scale (0-1, clamped)
+ */
+export function sampleColorScale(stops: RgbColor[], value: number): RgbColor {
+  const position = Math.min(1, Math.max(0, value)) * (stops.length - 1)
+  const index = Math.min(Math.floor(position), stops.length - 2)
+  const t = position - index
+  const from = stops[index]
+  const to = stops[index + 1]
+
+  return {
+    r: Math.round(from.r + (to.r - from.r) * t),
+    g: Math.round(from.g + (to.g - from.g) * t),
+    b: Math.round(from.b + (to.b - from.b) * t),
+  }
+}
+
+/**
+ * Formats a colour for CSS and canvas fill styles
+ */
+export function toCssColor({ r, g, b }: RgbColor): string {
+  return `rgb(${r}, ${g}, ${b})`
+}
+
+/**
+ * Formats a colour as #rrggbb (the value of an <input type="color">)
+ */
+export function toHexColor({ r, g, b }: RgbColor): string {
+  return `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * Parses a #rrggbb colour
+ * @returns null if the string is not one
+ */
+export function parseHexColor(hex: string): RgbColor | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim())
+  if (!match) return null
+  return {
+    r: parseInt(match[1], 16),
+    g: parseInt(match[2], 16),
+    b: parseInt(match[3], 16),
+  }
+}
@@ -2,29 +2,258 @@
  * Shared PDF diff algorithms module
  * Used by both main thread (usePdfDiff) and Web Worker (pdf-diff.worker)
  * This prevents code duplication and ensures consistency between implementations
+ *
+ * Every algorithm takes the same DiffContext and returns the number of different pixels.
+ * When given a change mask (one entry per pixel), it sets the entry of every pixel it counted
+ * to 1. Pixels set in an ignore mask (see lib/ignoreMasks) are drawn faded and never compared
+ * or counted.
+ * Highlights are drawn in the colours of the palette in the options (see lib/palettes).
  */
 
+import type { IgnoreRegion } from './ignoreMasks'
+import type { ThresholdMode } from './deltaHistogram'
+import { type MorphologyOperation, dilateMask } from './noiseSuppression'
+import {
+  type DiffPalette,
+  type HeatmapScale,
+  type PaletteName,
+  type RgbColor,
+  VIRIDIS_STOPS,
+  resolvePalette,
+  sampleColorScale,
+} from './palettes'
+
 export interface DiffOptions {
-  mode: 'pixel' | 'threshold' | 'grayscale' | 'overlay' | 'heatmap' | 'semantic' | 'webgl'
+  mode:
+    | 'pixel'
+    | 'threshold'
+    | 'grayscale'
+    | 'overlay'
+    | 'heatmap'
+    | 'semantic'
+    | 'deltaE'
+    | 'ssim'
+    | 'edges'
+    | 'webgl'
   threshold: number // 0-255, tolerance for pixel differences
+  thresholdMode?: ThresholdMode // 'auto' picks the threshold of each page (default: 'manual')
   overlayOpacity: number // 0-1, for overlay mode
   useGrayscale: boolean
+  deltaEThreshold?: number // ΔE2000 tolerance for deltaE mode (default: DELTA_E_JUST_NOTICEABLE)
+  ssimThreshold?: number // 0-1, local SSIM below which ssim mode counts a pixel (default: 0.95)
+  edgeThreshold?: number // Sobel magnitude of an edge in edges mode (default: EDGE_THRESHOLD)
+  semanticBackground?: SemanticBackground // Page background semantic mode compares against
+  semanticBackgroundColor?: RgbColor // Background of both documents when 'custom'
+  semanticBackgroundTolerance?: number // 0-255, largest channel difference still background
+  ignoreAntialiasing?: boolean // Mute anti-aliased edges (pixel and threshold modes)
+  regionMergeDistance?: number // Gap in pixels that still joins changes into one region
+  ignoreRegions?: IgnoreRegion[] // Rectangles left out of the comparison (this page's only)
+  morphology?: MorphologyOperation // Noise suppression of the change mask
+  morphologyKernelSize?: number // Odd side of the morphology kernel in pixels
+  minRegionArea?: number // Connected changes with fewer pixels are discarded
+  densityCellSize?: number // Side of the density grid cells in pixels
+  palette?: PaletteName // Colours of the highlights (default: 'classic')
+  customPalette?: DiffPalette // Colours of the 'custom' palette
+}
+
+// What every algorithm gets besides the pages, the diff output and the options
+export interface DiffContext {
+  width: number // Width of the images in pixels
+  originalData?: Uint8ClampedArray // Filled with the first page without highlights (animation)
+  changeMask?: Uint8Array // Entries of the counted pixels are set to 1
+  ignoreMask?: Uint8Array // Pixels left out of the comparison (1 = ignored)
 }
 
+// 'auto' detects the background of each page from its most common colour, 'custom' uses the
+// colour in the options for both documents
+export type SemanticBackground = 'auto' | 'custom'
+
+// Anti-aliased edge pixels, drawn muted and left out of the difference count
+export const ANTIALIASED_COLOR = { r: 203, g: 213, b: 225 }
+
+// Ignored pixels show the first page at this fraction of its contrast
+const IGNORED_CONTRAST = 0.25
+
+// ΔE2000 ranges: below 1 colours look identical, from about 2.3 a difference is just
+// noticeable side by side, and from 10 it is obvious at a glance
+export const DELTA_E_IMPERCEPTIBLE = 1
+export const DELTA_E_JUST_NOTICEABLE = 2.3
+export const DELTA_E_OBVIOUS = 10
+
+// Local structural similarity below which a pixel counts as different in ssim mode
+export const DEFAULT_SSIM_THRESHOLD = 0.95
+// Side of the square window SSIM is computed over (odd, centred on each pixel)
+export const SSIM_WINDOW_SIZE = 7
+// Stabilizing constants of SSIM for 8-bit luminance: (0.01 × 255)² and (0.03 × 255)²
+const SSIM_C1 = 6.5025
+const SSIM_C2 = 58.5225
+
+// Sobel gradient magnitude from which a pixel is an edge (a sharp black-white step is 255)
+export const EDGE_THRESHOLD = 64
+// Distance in pixels within which edges of both pages count as the same edge, so
+// anti-aliasing that moves an edge by a pixel does not show it as moved
+export const EDGE_MATCH_RADIUS = 1
+// Edges both pages share, drawn neutral so the moved ones stand out
+export const SHARED_EDGE_COLOR = { r: 156, g: 163, b: 175 }
+
+/**
+ * Brightness of the pixel at a byte offset (0-255)
+ */
+const brightnessAt = (data: Uint8ClampedArray, offset: number): number =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+
 /**
- * Simple pixel difference - highlights different pixels in red
+ * Draws an ignored pixel as a faded copy of the first page (its original is left as is)
+ */
+function drawIgnoredPixel(
+  data1: Uint8ClampedArray,
+  diffData: Uint8ClampedArray,
+  originalData: Uint8ClampedArray | undefined,
+  i: number
+) {
+  diffData[i] = 255 - (255 - data1[i]) * IGNORED_CONTRAST
+  diffData[i + 1] = 255 - (255 - data1[i + 1]) * IGNORED_CONTRAST
+  diffData[i + 2] = 255 - (255 - data1[i + 2]) * IGNORED_CONTRAST
+  diffData[i + 3] = 255
+
+  if (originalData) {
+    originalData[i] = data1[i]
+    originalData[i + 1] = data1[i + 1]
+    originalData[i + 2] = data1[i + 2]
+    originalData[i + 3] = 255
+  }
+}
+
+/**
+ * Whether a pixel has three or more neighbours of exactly its colour (so it is part of a
+ * flat area rather than an edge), counting the image border as an equal neighbour
+ */
+function hasManySiblings(
+  data: Uint8ClampedArray,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): boolean {
+  const offset = (y * width + x) * 4
+  let equal = x === 0 || y === 0 || x === width - 1 || y === height - 1 ? 1 : 0
+
+  for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+    for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+      if (nx === x && ny === y) continue
+      const other = (ny * width + nx) * 4
+      if (
+        data[offset] === data[other] &&
+        data[offset + 1] === data[other + 1] &&
+        data[offset + 2] === data[other + 2] &&
+        data[offset + 3] === data[other + 3]
+      ) {
+        equal++
+        if (equal > 2) return true
+      }
+    }
+  }
+
+  return false
+}
+
+/**
+ * Whether a pixel of one image looks like an anti-aliased edge (after pixelmatch)
+ * An edge pixel sits on a brightness gradient: it has both darker and brighter neighbours,
+ * few neighbours of its own colour, and its darkest or brightest neighbour lies in a flat
+ * area in both images.
+ */
+function isAntialiasedIn(
+  data: Uint8ClampedArray,
+  other: Uint8ClampedArray,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): boolean {
+  const brightness = brightnessAt(data, (y * width + x) * 4)
+  let equal = x === 0 || y === 0 || x === width - 1 || y === height - 1 ? 1 : 0
+  let darkest = 0
+  let brightest = 0
+  let darkestX = 0
+  let darkestY = 0
+  let brightestX = 0
+  let brightestY = 0
+
+  for (let ny = Math.max(y - 1, 0); ny <= Math.min(y + 1, height - 1); ny++) {
+    for (let nx = Math.max(x - 1, 0); nx <= Math.min(x + 1, width - 1); nx++) {
+      if (nx === x && ny === y) continue
+
+      const delta = brightnessAt(data, (ny * width + nx) * 4) - brightness
+      if (delta === 0) {
+        // Three equal neighbours make it part of a flat area, not an edge
+        equal++
+        if (equal > 2) return false
+      } else if (delta < darkest) {
+        darkest = delta
+        darkestX = nx
+        darkestY = ny
+      } else if (delta > brightest) {
+        brightest = delta
+        brightestX = nx
+        brightestY = ny
+      }
+    }
+  }
+
+  // Not on a gradient
+  if (darkest === 0 || brightest === 0) return false
+
+  return (
+    (hasManySiblings(data, darkestX, darkestY, width, height) &&
+      hasManySiblings(other, darkestX, darkestY, width, height)) ||
+    (hasManySiblings(data, brightestX, brightestY, width, height) &&
+      hasManySiblings(other, brightestX, brightestY, width, height))
+  )
+}
+
+/**
+ * Whether a differing pixel is an anti-aliasing artefact in either image
+ * @param pixelIndex - Index of the pixel (not the byte offset)
+ * @param width - Width of the images in pixels
+ */
+export function isAntialiased(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  pixelIndex: number,
+  width: number
+): boolean {
+  const height = data1.length / 4 / width
+  const x = pixelIndex % width
+  const y = Math.floor(pixelIndex / width)
+  return (
+    isAntialiasedIn(data1, data2, x, y, width, height) ||
+    isAntialiasedIn(data2, data1, x, y, width, height)
+  )
+}
+
+/**
+ * Simple pixel difference - highlights different pixels in the palette's highlight colour
  */
 export function pixelDiff(
   data1: Uint8ClampedArray,
   data2: Uint8ClampedArray,
   diffData: Uint8ClampedArray,
-  _options: DiffOptions,
-  originalData?: Uint8ClampedArray
+  options: DiffOptions,
+  context: DiffContext
 ): number {
+  const { width, originalData, changeMask, ignoreMask } = context
   let count = 0
   const pixels = data1.length
+  const antialiasingWidth = options.ignoreAntialiasing ? width : undefined
+  const { highlight } = resolvePalette(options.palette, options.customPalette)
 
   for (let i = 0; i < pixels; i += 4) {
+    if (ignoreMask?.[i / 4]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
     const r1 = data1[i]
     const g1 = data1[i + 1]
     const b1 = data1[i + 2]
@@ -35,13 +264,20 @@ export function pixelDiff(
 
     const isDifferent = r1 !== r2 || g1 !== g2 || b1 !== b2
 
-    if (isDifferent) {
-      // Highlight differences in red
-      diffData[i] = 255 // R
-      diffData[i + 1] = 0 // G
-      diffData[i + 2] = 0 // B
+    if (isDifferent && antialiasingWidth && isAntialiased(data1, data2, i / 4, antialiasingWidth)) {
+      // Anti-aliased edge in a muted colour, not counted
+      diffData[i] = ANTIALIASED_COLOR.r
+      diffData[i + 1] = ANTIALIASED_COLOR.g
+      diffData[i + 2] = ANTIALIASED_COLOR.b
+      diffData[i + 3] = 255
+    } else if (isDifferent) {
+      // Highlight differences
+      diffData[i] = highlight.r // R
+      diffData[i + 1] = highlight.g // G
+      diffData[i + 2] = highlight.b // B
       diffData[i + 3] = 255 // A
       count++
+      if (changeMask) changeMask[i / 4] = 1
     } else {
       // Keep original pixel (from first image)
       diffData[i] = r1
@@ -70,12 +306,20 @@ export function thresholdDiff(
   data2: Uint8ClampedArray,
   diffData: Uint8ClampedArray,
   options: DiffOptions,
-  originalData?: Uint8ClampedArray
+  context: DiffContext
 ): number {
+  const { width, originalData, changeMask, ignoreMask } = context
   let count = 0
   const pixels = data1.length
+  const antialiasingWidth = options.ignoreAntialiasing ? width : undefined
+  const { highlight } = resolvePalette(options.palette, options.customPalette)
 
   for (let i = 0; i < pixels; i += 4) {
+    if (ignoreMask?.[i / 4]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
     const r1 = data1[i]
     const g1 = data1[i + 1]
     const b1 = data1[i + 2]
@@ -86,14 +330,22 @@ export function thresholdDiff(
 
     // Calculate color difference
     const diff = Math.abs(r1 - r2) + Math.abs(g1 - g2) + Math.abs(b1 - b2)
+    const isDifferent = diff > options.threshold
 
-    if (diff > options.threshold) {
-      // Highlight differences in red
-      diffData[i] = 255
-      diffData[i + 1] = 0
-      diffData[i + 2] = 0
+    if (isDifferent && antialiasingWidth && isAntialiased(data1, data2, i / 4, antialiasingWidth)) {
+      // Anti-aliased edge in a muted colour, not counted
+      diffData[i] = ANTIALIASED_COLOR.r
+      diffData[i + 1] = ANTIALIASED_COLOR.g
+      diffData[i + 2] = ANTIALIASED_COLOR.b
+      diffData[i + 3] = 255
+    } else if (isDifferent) {
+      // Highlight differences
+      diffData[i] = highlight.r
+      diffData[i + 1] = highlight.g
+      diffData[i + 2] = highlight.b
       diffData[i + 3] = 255
       count++
+      if (changeMask) changeMask[i / 4] = 1
     } else {
       // Keep original pixel
       diffData[i] = r1
@@ -122,12 +374,19 @@ export function grayscaleDiff(
   data2: Uint8ClampedArray,
   diffData: Uint8ClampedArray,
   options: DiffOptions,
-  originalData?: Uint8ClampedArray
+  context: DiffContext
 ): number {
+  const { originalData, changeMask, ignoreMask } = context
   let count = 0
   const pixels = data1.length
+  const { highlight } = resolvePalette(options.palette, options.customPalette)
 
   for (let i = 0; i < pixels; i += 4) {
+    if (ignoreMask?.[i / 4]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
     // Convert to grayscale
     const gray1 = 0.299 * data1[i] + 0.587 * data1[i + 1] + 0.114 * data1[i + 2]
     const gray2 = 0.299 * data2[i] + 0.587 * data2[i + 1] + 0.114 * data2[i + 2]
@@ -135,12 +394,13 @@ export function grayscaleDiff(
     const diff = Math.abs(gray1 - gray2)
 
     if (diff > options.threshold) {
-      // Highlight differences in red
-      diffData[i] = 255
-      diffData[i + 1] = 0
-      diffData[i + 2] = 0
+      // Highlight differences
+      diffData[i] = highlight.r
+      diffData[i + 1] = highlight.g
+      diffData[i + 2] = highlight.b
       diffData[i + 3] = 255
       count++
+      if (changeMask) changeMask[i / 4] = 1
     } else {
       // Show as grayscale
       diffData[i] = gray1
@@ -169,13 +429,20 @@ export function overlayDiff(
   data2: Uint8ClampedArray,
   diffData: Uint8ClampedArray,
   options: DiffOptions,
-  originalData?: Uint8ClampedArray
+  context: DiffContext
 ): number {
+  const { originalData, changeMask, ignoreMask } = context
   let count = 0
   const pixels = data1.length
   const opacity = options.overlayOpacity
+  const { highlight } = resolvePalette(options.palette, options.customPalette)
 
   for (let i = 0; i < pixels; i += 4) {
+    if (ignoreMask?.[i / 4]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
     const r1 = data1[i]
     const g1 = data1[i + 1]
     const b1 = data1[i + 2]
@@ -187,12 +454,13 @@ export function overlayDiff(
     const diff = Math.abs(r1 - r2) + Math.abs(g1 - g2) + Math.abs(b1 - b2)
 
     if (diff > options.threshold) {
-      // Blend with red overlay for differences
-      diffData[i] = r1 * (1 - opacity) + 255 * opacity
-      diffData[i + 1] = g1 * (1 - opacity)
-      diffData[i + 2] = b1 * (1 - opacity)
+      // Blend with the highlight colour for differences
+      diffData[i] = r1 * (1 - opacity) + highlight.r * opacity
+      diffData[i + 1] = g1 * (1 - opacity) + highlight.g * opacity
+      diffData[i + 2] = b1 * (1 - opacity) + highlight.b * opacity
       diffData[i + 3] = 255
       count++
+      if (changeMask) changeMask[i / 4] = 1
     } else {
       // Blend both images
       diffData[i] = r1 * 0.5 + r2 * 0.5
@@ -221,12 +489,19 @@ export function heatmapDiff(
   data2: Uint8ClampedArray,
   diffData: Uint8ClampedArray,
   options: DiffOptions,
-  originalData?: Uint8ClampedArray
+  context: DiffContext
 ): number {
+  const { originalData, changeMask, ignoreMask } = context
   let count = 0
   const pixels = data1.length
+  const scale = resolvePalette(options.palette, options.customPalette).heatmap
 
   for (let i = 0; i < pixels; i += 4) {
+    if (ignoreMask?.[i / 4]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
     const r1 = data1[i]
     const g1 = data1[i + 1]
     const b1 = data1[i + 2]
@@ -240,10 +515,11 @@ export function heatmapDiff(
 
     if (diff > options.threshold / (255 * 3)) {
       count++
+      if (changeMask) changeMask[i / 4] = 1
     }
 
     // Apply heatmap colors based on difference intensity
-    const heatmapColor = getHeatmapColor(diff)
+    const heatmapColor = getHeatmapColor(diff, scale)
     diffData[i] = heatmapColor.r
     diffData[i + 1] = heatmapColor.g
     diffData[i + 2] = heatmapColor.b
@@ -262,10 +538,13 @@ export function heatmapDiff(
 }
 
 /**
- * Converts difference value (0-1) to heatmap color (blue -> green -> yellow -> red)
+ * Converts difference value (0-1) to heatmap color
+ * The classic scale runs blue -> green -> yellow -> red, viridis from purple to yellow.
  */
-export function getHeatmapColor(value: number): { r: number; g: number; b: number } {
-  if (value < 0.25) {
+export function getHeatmapColor(value: number, scale: HeatmapScale = 'classic'): RgbColor {
+  if (scale === 'viridis') {
+    return sampleColorScale(VIRIDIS_STOPS, value)
+  } else if (value < 0.25) {
     // Blue to Cyan
     const ratio = value / 0.25
     return { r: 0, g: Math.floor(ratio * 255), b: 255 }
@@ -284,23 +563,96 @@ export function getHeatmapColor(value: number): { r: number; g: number; b: numbe
   }
 }
 
+// PDF.js paper, assumed when a page has no clear background
+export const PAPER_WHITE: RgbColor = { r: 255, g: 255, b: 255 }
+// Largest difference per channel from the background that semantic mode still counts as empty
+export const DEFAULT_BACKGROUND_TOLERANCE = 24
+// Share of the pixels the most common colour needs to count as the background
+const BACKGROUND_MIN_SHARE = 0.25
+// Fewest pixels to tell a background from; smaller images are taken to be on white paper
+const BACKGROUND_MIN_PIXELS = 64
+
+/**
+ * Detects the background of a page as the peak of its colour histogram (4 bits per channel),
+ * averaged over the pixels of the peak
+ * Transparent and ignored pixels are left out.
+ * @returns The background, or PAPER_WHITE if no colour covers BACKGROUND_MIN_SHARE of the page
+ */
+export function detectBackgroundColor(data: Uint8ClampedArray, ignoreMask?: Uint8Array): RgbColor {
+  const counts = new Uint32Array(4096)
+  const sums = new Float64Array(4096 * 3)
+  let sampled = 0
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 10 || ignoreMask?.[i / 4]) continue
+    const bin = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4)
+    counts[bin]++
+    sums[bin * 3] += data[i]
+    sums[bin * 3 + 1] += data[i + 1]
+    sums[bin * 3 + 2] += data[i + 2]
+    sampled++
+  }
+
+  if (sampled < BACKGROUND_MIN_PIXELS) return PAPER_WHITE
+
+  let peak = 0
+  for (let bin = 1; bin < counts.length; bin++) {
+    if (counts[bin] > counts[peak]) peak = bin
+  }
+  if (counts[peak] < sampled * BACKGROUND_MIN_SHARE) return PAPER_WHITE
+
+  return {
+    r: Math.round(sums[peak * 3] / counts[peak]),
+    g: Math.round(sums[peak * 3 + 1] / counts[peak]),
+    b: Math.round(sums[peak * 3 + 2] / counts[peak]),
+  }
+}
+
+/**
+ * Whether a pixel is empty page: transparent, or within the tolerance of the background
+ */
+const isBackgroundPixel = (
+  data: Uint8ClampedArray,
+  i: number,
+  luminance: number,
+  background: RgbColor,
+  tolerance: number
+): boolean =>
+  data[i + 3] === 0 ||
+  (luminance > 250 && data[i + 3] < 10) ||
+  (Math.abs(data[i] - background.r) <= tolerance &&
+    Math.abs(data[i + 1] - background.g) <= tolerance &&
+    Math.abs(data[i + 2] - background.b) <= tolerance)
+
 /**
  * Semantic difference - distinguishes additions, deletions, and modifications
- * Green: Additions (content in PDF2 but not in PDF1)
- * Red: Deletions (content in PDF1 but not in PDF2)
- * Yellow: Modifications (content exists in both but is different)
+ * Added (green in the classic palette): content in PDF2 but not in PDF1
+ * Removed (red): content in PDF1 but not in PDF2
+ * Modified (yellow): content exists in both but is different
+ * Content is whatever is not page background: the detected background of each document, or
+ * the custom colour in the options, within semanticBackgroundTolerance.
  */
 export function semanticDiff(
   data1: Uint8ClampedArray,
   data2: Uint8ClampedArray,
   diffData: Uint8ClampedArray,
   options: DiffOptions,
-  originalData?: Uint8ClampedArray
+  context: DiffContext
 ): number {
+  const { originalData, changeMask, ignoreMask } = context
   let count = 0
   const pixels = data1.length
   const threshold = options.threshold
   const numPixels = pixels / 4
+  const { added, removed, modified } = resolvePalette(options.palette, options.customPalette)
+  const tolerance = options.semanticBackgroundTolerance ?? DEFAULT_BACKGROUND_TOLERANCE
+  const custom = options.semanticBackground === 'custom'
+  const background1 = custom
+    ? (options.semanticBackgroundColor ?? PAPER_WHITE)
+    : detectBackgroundColor(data1, ignoreMask)
+  const background2 = custom
+    ? (options.semanticBackgroundColor ?? PAPER_WHITE)
+    : detectBackgroundColor(data2, ignoreMask)
 
   // Pre-calculate luminance values for better performance
   const luminance1 = new Float32Array(numPixels)
@@ -312,50 +664,55 @@ export function semanticDiff(
   }
 
   for (let i = 0, pixelIndex = 0; i < pixels; i += 4, pixelIndex++) {
+    if (ignoreMask?.[pixelIndex]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
     const r1 = data1[i]
     const g1 = data1[i + 1]
     const b1 = data1[i + 2]
-    const a1 = data1[i + 3]
 
     const r2 = data2[i]
     const g2 = data2[i + 1]
     const b2 = data2[i + 2]
-    const a2 = data2[i + 3]
 
     // Use pre-calculated luminance values
     const lum1 = luminance1[pixelIndex]
     const lum2 = luminance2[pixelIndex]
 
-    // Check if pixel is "empty" (white/transparent)
-    // A pixel is considered empty if it's very bright and nearly transparent, or fully transparent
-    const isEmpty1 = (lum1 > 250 && a1 < 10) || a1 === 0
-    const isEmpty2 = (lum2 > 250 && a2 < 10) || a2 === 0
+    // Check if pixel is "empty" (page background or transparent)
+    const isEmpty1 = isBackgroundPixel(data1, i, lum1, background1, tolerance)
+    const isEmpty2 = isBackgroundPixel(data2, i, lum2, background2, tolerance)
 
     if (isEmpty1 && !isEmpty2) {
       // ADDITION: Content added in PDF2 (empty in PDF1, content in PDF2)
-      diffData[i] = 34 // Green
-      diffData[i + 1] = 197
-      diffData[i + 2] = 94
+      diffData[i] = added.r
+      diffData[i + 1] = added.g
+      diffData[i + 2] = added.b
       diffData[i + 3] = 255
       count++
+      if (changeMask) changeMask[pixelIndex] = 1
     } else if (!isEmpty1 && isEmpty2) {
       // DELETION: Content removed from PDF1 (content in PDF1, empty in PDF2)
-      diffData[i] = 239 // Red
-      diffData[i + 1] = 68
-      diffData[i + 2] = 68
+      diffData[i] = removed.r
+      diffData[i + 1] = removed.g
+      diffData[i + 2] = removed.b
       diffData[i + 3] = 255
       count++
+      if (changeMask) changeMask[pixelIndex] = 1
     } else if (!isEmpty1 && !isEmpty2) {
       // Both have content - check if modified
       const diff = Math.abs(r1 - r2) + Math.abs(g1 - g2) + Math.abs(b1 - b2)
 
       if (diff > threshold) {
         // MODIFICATION: Content changed (both have content but it's different)
-        diffData[i] = 250 // Yellow/Amber
-        diffData[i + 1] = 204
-        diffData[i + 2] = 21
+        diffData[i] = modified.r
+        diffData[i + 1] = modified.g
+        diffData[i + 2] = modified.b
         diffData[i + 3] = 255
         count++
+        if (changeMask) changeMask[pixelIndex] = 1
       } else {
         // Unchanged (both have similar content)
         diffData[i] = r1
@@ -382,3 +739,473 @@ export function semanticDiff(
 
   return count
 }
+
+// sRGB channel (0-255) to linear light, precomputed for every channel value
+const SRGB_TO_LINEAR = Float64Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+})
+
+// D65 reference white
+const WHITE_X = 0.95047
+const WHITE_Y = 1
+const WHITE_Z = 1.08883
+
+const labF = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116)
+
+/**
+ * Converts an sRGB colour (0-255 per channel) to CIELAB (D65)
+ * @returns [L (0-100), a, b]
+ */
+export function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = SRGB_TO_LINEAR[r]
+  const lg = SRGB_TO_LINEAR[g]
+  const lb = SRGB_TO_LINEAR[b]
+
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X)
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y)
+  const fz = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z)
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI
+
+/**
+ * CIEDE2000 colour difference between two CIELAB colours
+ * (Sharma, Wu and Dalal, 2005, with kL = kC = kH = 1)
+ */
+export function deltaE2000(
+  lab1: readonly [number, number, number],
+  lab2: readonly [number, number, number]
+): number {
+  const [l1, a1, b1] = lab1
+  const [l2, a2, b2] = lab2
+
+  // Chroma-dependent stretch of the a axis
+  const meanChroma = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2
+  const chroma7 = Math.pow(meanChroma, 7)
+  const g = 0.5 * (1 - Math.sqrt(chroma7 / (chroma7 + Math.pow(25, 7))))
+  const a1p = a1 * (1 + g)
+  const a2p = a2 * (1 + g)
+
+  const c1p = Math.hypot(a1p, b1)
+  const c2p = Math.hypot(a2p, b2)
+  const hue = (a: number, b: number) => {
+    if (a === 0 && b === 0) return 0
+    const h = toDegrees(Math.atan2(b, a))
+    return h < 0 ? h + 360 : h
+  }
+  const h1p = hue(a1p, b1)
+  const h2p = hue(a2p, b2)
+
+  // Differences in lightness, chroma and hue
+  const deltaL = l2 - l1
+  const deltaC = c2p - c1p
+  let deltaHue = 0
+  if (c1p * c2p !== 0) {
+    deltaHue = h2p - h1p
+    if (deltaHue > 180) deltaHue -= 360
+    else if (deltaHue < -180) deltaHue += 360
+  }
+  const deltaH = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltaHue / 2))
+
+  // Means for the weighting functions
+  const meanL = (l1 + l2) / 2
+  const meanC = (c1p + c2p) / 2
+  let meanHue = h1p + h2p
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) meanHue /= 2
+    else meanHue = h1p + h2p < 360 ? (meanHue + 360) / 2 : (meanHue - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(meanHue - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanHue)) +
+    0.32 * Math.cos(toRadians(3 * meanHue + 6)) -
+    0.2 * Math.cos(toRadians(4 * meanHue - 63))
+  const meanL50 = (meanL - 50) * (meanL - 50)
+  const sl = 1 + (0.015 * meanL50) / Math.sqrt(20 + meanL50)
+  const sc = 1 + 0.045 * meanC
+  const sh = 1 + 0.015 * meanC * t
+
+  // Rotation term for blue hues
+  const meanC7 = Math.pow(meanC, 7)
+  const rc = 2 * Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7)))
+  const deltaTheta = 30 * Math.exp(-Math.pow((meanHue - 275) / 25, 2))
+  const rt = -rc * Math.sin(toRadians(2 * deltaTheta))
+
+  const dl = deltaL / sl
+  const dc = deltaC / sc
+  const dh = deltaH / sh
+  return Math.sqrt(dl * dl + dc * dc + dh * dh + rt * dc * dh)
+}
+
+/**
+ * Perceptual difference - compares colours in CIELAB with the CIEDE2000 formula
+ * Pixels beyond the ΔE threshold are highlighted in the palette's noticeable colour (amber)
+ * when just noticeable and its obvious colour (red) from a ΔE of DELTA_E_OBVIOUS
+ */
+export function deltaEDiff(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  diffData: Uint8ClampedArray,
+  options: DiffOptions,
+  context: DiffContext
+): number {
+  const { originalData, changeMask, ignoreMask } = context
+  let count = 0
+  const pixels = data1.length
+  const threshold = options.deltaEThreshold ?? DELTA_E_JUST_NOTICEABLE
+  const { noticeable, obvious } = resolvePalette(options.palette, options.customPalette)
+
+  for (let i = 0; i < pixels; i += 4) {
+    if (ignoreMask?.[i / 4]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
+    const r1 = data1[i]
+    const g1 = data1[i + 1]
+    const b1 = data1[i + 2]
+
+    const r2 = data2[i]
+    const g2 = data2[i + 1]
+    const b2 = data2[i + 2]
+
+    // Identical colours skip the (costly) conversion
+    const deltaE =
+      r1 === r2 && g1 === g2 && b1 === b2
+        ? 0
+        : deltaE2000(rgbToLab(r1, g1, b1), rgbToLab(r2, g2, b2))
+
+    if (deltaE > threshold) {
+      const color = deltaE >= DELTA_E_OBVIOUS ? obvious : noticeable
+      diffData[i] = color.r
+      diffData[i + 1] = color.g
+      diffData[i + 2] = color.b
+      diffData[i + 3] = 255
+      count++
+      if (changeMask) changeMask[i / 4] = 1
+    } else {
+      // Keep original pixel
+      diffData[i] = r1
+      diffData[i + 1] = g1
+      diffData[i + 2] = b1
+      diffData[i + 3] = 255
+    }
+
+    // Populate original data (no highlights) for animation
+    if (originalData) {
+      originalData[i] = r1
+      originalData[i + 1] = g1
+      originalData[i + 2] = b1
+      originalData[i + 3] = 255
+    }
+  }
+
+  return count
+}
+
+export interface SsimDiffResult {
+  differenceCount: number
+  ssim: number // Mean SSIM over all compared pixels (1 = structurally identical)
+}
+
+/**
+ * Structural similarity - compares local luminance, contrast and structure in a sliding window
+ * Tolerant of anti-aliasing and sub-pixel shifts. Renders a dissimilarity map: a faded copy of
+ * the first page shaded toward the highlight colour where the pages are structurally different.
+ */
+export function ssimDiff(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  diffData: Uint8ClampedArray,
+  options: DiffOptions,
+  context: DiffContext
+): SsimDiffResult {
+  const { width, originalData, changeMask, ignoreMask } = context
+  const numPixels = data1.length / 4
+  const height = width > 0 ? numPixels / width : 0
+  const threshold = options.ssimThreshold ?? DEFAULT_SSIM_THRESHOLD
+  const radius = (SSIM_WINDOW_SIZE - 1) / 2
+  const { highlight } = resolvePalette(options.palette, options.customPalette)
+
+  // Pre-calculate luminance values
+  const luminance1 = new Float32Array(numPixels)
+  const luminance2 = new Float32Array(numPixels)
+  for (let i = 0, pixelIndex = 0; i < data1.length; i += 4, pixelIndex++) {
+    luminance1[pixelIndex] = 0.299 * data1[i] + 0.587 * data1[i + 1] + 0.114 * data1[i + 2]
+    luminance2[pixelIndex] = 0.299 * data2[i] + 0.587 * data2[i + 1] + 0.114 * data2[i + 2]
+  }
+
+  // Per-column sums over the rows of the current window: x, y, x², y² and xy
+  const sum1 = new Float64Array(width)
+  const sum2 = new Float64Array(width)
+  const sum11 = new Float64Array(width)
+  const sum22 = new Float64Array(width)
+  const sum12 = new Float64Array(width)
+  const addRow = (y: number, sign: number) => {
+    for (let x = 0, p = y * width; x < width; x++, p++) {
+      const l1 = luminance1[p]
+      const l2 = luminance2[p]
+      sum1[x] += sign * l1
+      sum2[x] += sign * l2
+      sum11[x] += sign * l1 * l1
+      sum22[x] += sign * l2 * l2
+      sum12[x] += sign * l1 * l2
+    }
+  }
+
+  for (let y = 0; y < Math.min(radius, height - 1) + 1; y++) addRow(y, 1)
+
+  let count = 0
+  let ssimTotal = 0
+  let comparedPixels = 0
+
+  for (let y = 0; y < height; y++) {
+    // Slide the window down: add the row entering it, drop the row leaving it
+    if (y > 0) {
+      if (y + radius < height) addRow(y + radius, 1)
+      if (y - radius - 1 >= 0) addRow(y - radius - 1, -1)
+    }
+    const rows = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1
+
+    // Sums over the window around x, slid along the row
+    let s1 = 0
+    let s2 = 0
+    let s11 = 0
+    let s22 = 0
+    let s12 = 0
+    for (let x = 0; x < Math.min(radius, width - 1) + 1; x++) {
+      s1 += sum1[x]
+      s2 += sum2[x]
+      s11 += sum11[x]
+      s22 += sum22[x]
+      s12 += sum12[x]
+    }
+
+    for (let x = 0; x < width; x++) {
+      if (x > 0) {
+        const entering = x + radius
+        if (entering < width) {
+          s1 += sum1[entering]
+          s2 += sum2[entering]
+          s11 += sum11[entering]
+          s22 += sum22[entering]
+          s12 += sum12[entering]
+        }
+        const leaving = x - radius - 1
+        if (leaving >= 0) {
+          s1 -= sum1[leaving]
+          s2 -= sum2[leaving]
+          s11 -= sum11[leaving]
+          s22 -= sum22[leaving]
+          s12 -= sum12[leaving]
+        }
+      }
+
+      // The window keeps sliding over ignored pixels, only their own score is skipped
+      const i = (y * width + x) * 4
+      if (ignoreMask?.[y * width + x]) {
+        drawIgnoredPixel(data1, diffData, originalData, i)
+        continue
+      }
+
+      const n = rows * (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1)
+      const mean1 = s1 / n
+      const mean2 = s2 / n
+      const variance1 = s11 / n - mean1 * mean1
+      const variance2 = s22 / n - mean2 * mean2
+      const covariance = s12 / n - mean1 * mean2
+
+      const ssim =
+        ((2 * mean1 * mean2 + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((mean1 * mean1 + mean2 * mean2 + SSIM_C1) * (variance1 + variance2 + SSIM_C2))
+      ssimTotal += ssim
+      comparedPixels++
+
+      // Dissimilarity map: faded first page, shaded by how different the window is
+      const dissimilarity = Math.min(1, Math.max(0, 1 - ssim))
+      const faded = 255 - (255 - luminance1[y * width + x]) * 0.3
+      diffData[i] = faded + (highlight.r - faded) * dissimilarity
+      diffData[i + 1] = faded + (highlight.g - faded) * dissimilarity
+      diffData[i + 2] = faded + (highlight.b - faded) * dissimilarity
+      diffData[i + 3] = 255
+
+      if (ssim < threshold) {
+        count++
+        if (changeMask) changeMask[y * width + x] = 1
+      }
+
+      // Populate original data (first PDF) for animation
+      if (originalData) {
+        originalData[i] = data1[i]
+        originalData[i + 1] = data1[i + 1]
+        originalData[i + 2] = data1[i + 2]
+        originalData[i + 3] = 255
+      }
+    }
+  }
+
+  return { differenceCount: count, ssim: comparedPixels > 0 ? ssimTotal / comparedPixels : 1 }
+}
+
+// tan(22.5°): below this ratio of its components a gradient counts as horizontal or vertical
+const TAN_22_5 = Math.SQRT2 - 1
+
+/**
+ * Thin edge map of a luminance image, Canny-style: Sobel gradient, then non-maximum suppression
+ * along the gradient so every edge is one pixel wide (pixels beyond the border repeat it)
+ * @param luminance - Brightness of every pixel (0-255)
+ * @returns One entry per pixel, 1 on edges
+ */
+export function detectEdges(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  threshold: number = EDGE_THRESHOLD
+): Uint8Array {
+  const magnitude = new Float32Array(width * height)
+  const gradientX = new Float32Array(width * height)
+  const gradientY = new Float32Array(width * height)
+  const at = (x: number, y: number) =>
+    luminance[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) +
+        2 * at(x + 1, y) +
+        at(x + 1, y + 1) -
+        at(x - 1, y - 1) -
+        2 * at(x - 1, y) -
+        at(x - 1, y + 1)
+      const gy =
+        at(x - 1, y + 1) +
+        2 * at(x, y + 1) +
+        at(x + 1, y + 1) -
+        at(x - 1, y - 1) -
+        2 * at(x, y - 1) -
+        at(x + 1, y - 1)
+      const p = y * width + x
+      gradientX[p] = gx
+      gradientY[p] = gy
+      // The kernel weights sum to 4, so a full step scores 255
+      magnitude[p] = Math.sqrt(gx * gx + gy * gy) / 4
+    }
+  }
+
+  const edges = new Uint8Array(width * height)
+  const magnitudeAt = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : magnitude[y * width + x]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x
+      const value = magnitude[p]
+      if (value < threshold) continue
+
+      // Neighbours across the edge, along the gradient quantized to 45°
+      const gx = gradientX[p]
+      const gy = gradientY[p]
+      let dx = 0
+      let dy = 0
+      if (Math.abs(gy) <= Math.abs(gx) * TAN_22_5) dx = 1
+      else if (Math.abs(gx) <= Math.abs(gy) * TAN_22_5) dy = 1
+      else {
+        dx = 1
+        dy = gx * gy > 0 ? 1 : -1
+      }
+
+      // A step between two pixels scores the same on both sides; keep the first one
+      if (value > magnitudeAt(x - dx, y - dy) && value >= magnitudeAt(x + dx, y + dy)) {
+        edges[p] = 1
+      }
+    }
+  }
+
+  return edges
+}
+
+/**
+ * Edge difference - compares where the edges of both pages are, not their fills
+ * A paragraph that reflows shows as its old and new outlines rather than as a solid block:
+ * edges only in PDF 1 are drawn in the palette's removed colour, edges only in PDF 2 in its
+ * added colour and edges both share (within EDGE_MATCH_RADIUS) in grey. Only the edges of
+ * one page are counted.
+ */
+export function edgesDiff(
+  data1: Uint8ClampedArray,
+  data2: Uint8ClampedArray,
+  diffData: Uint8ClampedArray,
+  options: DiffOptions,
+  context: DiffContext
+): number {
+  const { width, originalData, changeMask, ignoreMask } = context
+  const numPixels = data1.length / 4
+  const height = width > 0 ? numPixels / width : 0
+  const { added, removed } = resolvePalette(options.palette, options.customPalette)
+
+  const luminance1 = new Float32Array(numPixels)
+  const luminance2 = new Float32Array(numPixels)
+  for (let i = 0, pixelIndex = 0; i < data1.length; i += 4, pixelIndex++) {
+    luminance1[pixelIndex] = brightnessAt(data1, i)
+    luminance2[pixelIndex] = brightnessAt(data2, i)
+  }
+
+  const threshold = options.edgeThreshold ?? EDGE_THRESHOLD
+  const edges1 = detectEdges(luminance1, width, height, threshold)
+  const edges2 = detectEdges(luminance2, width, height, threshold)
+  const near1 = dilateMask(edges1, width, height, EDGE_MATCH_RADIUS)
+  const near2 = dilateMask(edges2, width, height, EDGE_MATCH_RADIUS)
+
+  let count = 0
+
+  for (let pixelIndex = 0; pixelIndex < numPixels; pixelIndex++) {
+    const i = pixelIndex * 4
+    if (ignoreMask?.[pixelIndex]) {
+      drawIgnoredPixel(data1, diffData, originalData, i)
+      continue
+    }
+
+    const onlyIn1 = edges1[pixelIndex] && !near2[pixelIndex]
+    const onlyIn2 = edges2[pixelIndex] && !near1[pixelIndex]
+    const color = onlyIn1
+      ? removed
+      : onlyIn2
+        ? added
+        : edges1[pixelIndex] || edges2[pixelIndex]
+          ? SHARED_EDGE_COLOR
+          : null
+
+    if (color) {
+      diffData[i] = color.r
+      diffData[i + 1] = color.g
+      diffData[i + 2] = color.b
+    } else {
+      // Blank paper between the edges
+      diffData[i] = 255
+      diffData[i + 1] = 255
+      diffData[i + 2] = 255
+    }
+    diffData[i + 3] = 255
+
+    if (onlyIn1 || onlyIn2) {
+      count++
+      if (changeMask) changeMask[pixelIndex] = 1
+    }
+
+    // Populate original data (first PDF) for animation
+    if (originalData) {
+      originalData[i] = data1[i]
+      originalData[i + 1] = data1[i + 1]
+      originalData[i + 2] = data1[i + 2]
+      originalData[i + 3] = 255
+    }
+  }
+
+  return count
+}
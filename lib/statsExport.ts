@@ -0,0 +1,78 @@
+/**
+ * Stats export module
+ * Writes the results of every compared page pair as CSV, with the cut-offs that produced them,
+ * so pass/fail rules such as "SSIM above 0.995" can be checked and audited outside the app.
+ */
+
+import type { PagePair } from './pageAlignment'
+import {
+  type DiffOptions,
+  DEFAULT_SSIM_THRESHOLD,
+  DELTA_E_JUST_NOTICEABLE,
+  EDGE_THRESHOLD,
+} from './pdfDiffAlgorithms'
+import { usesAutoThreshold, usesThreshold } from './deltaHistogram'
+
+// Stats of one compared pair, as the diff store keeps them
+export interface PageStatsSummary {
+  differenceCount: number
+  totalPixels: number
+  percentDiff: number
+  ssim?: number
+  autoThreshold?: number
+}
+
+/**
+ * Gets the cut-off of a mode as set by the user: the threshold slider, or the ΔE and edge
+ * thresholds of their modes
+ * @returns The cut-off, or undefined in modes without one (pixel, ssim)
+ */
+function getModeThreshold(options: DiffOptions): number | undefined {
+  if (usesThreshold(options.mode)) return options.threshold
+  if (options.mode === 'deltaE') return options.deltaEThreshold ?? DELTA_E_JUST_NOTICEABLE
+  if (options.mode === 'edges') return options.edgeThreshold ?? EDGE_THRESHOLD
+  return undefined
+}
+
+/**
+ * Serializes the stats of the page pairs as CSV, one line per pair in document order
+ * Pairs not compared yet get empty stats columns; ssim and ssim_threshold are empty outside
+ * ssim mode, auto_threshold (the cut-off picked for the page) outside the 'auto' threshold.
+ * @param pageStats - Stats keyed by pair index
+ * @param options - Options the pairs were compared with
+ */
+export function serializePageStats(
+  pairs: PagePair[],
+  pageStats: Record<number, PageStatsSummary>,
+  options: DiffOptions
+): string {
+  const threshold = getModeThreshold(options)
+  const ssimThreshold =
+    options.mode === 'ssim' ? (options.ssimThreshold ?? DEFAULT_SSIM_THRESHOLD) : undefined
+  const isAutoThreshold = usesAutoThreshold(options)
+
+  const lines = [
+    'pair,pdf1_page,pdf2_page,status,mode,threshold,ssim_threshold,auto_threshold,' +
+      'different_pixels,total_pixels,percent_diff,ssim',
+  ]
+  pairs.forEach((pair, index) => {
+    const stats = pageStats[index]
+    lines.push(
+      [
+        index + 1,
+        pair.leftPage ?? '',
+        pair.rightPage ?? '',
+        pair.status,
+        options.mode,
+        threshold ?? '',
+        ssimThreshold ?? '',
+        isAutoThreshold ? (stats?.autoThreshold ?? '') : '',
+        stats?.differenceCount ?? '',
+        stats?.totalPixels ?? '',
+        stats ? stats.percentDiff.toFixed(4) : '',
+        stats?.ssim !== undefined ? stats.ssim.toFixed(6) : '',
+      ].join(',')
+    )
+  })
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,190 @@
+/**
+ * Tiled Comparison Helpers
+ * Splits pages that are too large for a single canvas into fixed-size tiles that are
+ * rendered and diffed one at a time, and stitches the per-tile stats back together
+ */
+
+import { type DiffRegion, numberRegions } from './diffRegions'
+import { type DeltaStatistics, mergeDeltaStatistics, sumHistograms } from './deltaHistogram'
+import { type DensityGrid, mergeDensityGrids } from './densityGrid'
+
+// Edge length of a tile in pixels (2048x2048 is ~16MB for RGBA)
+export const DEFAULT_TILE_SIZE = 2048
+
+export interface TileRect {
+  index: number
+  row: number
+  col: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface TileGrid {
+  width: number
+  height: number
+  rows: number
+  cols: number
+  tiles: TileRect[]
+}
+
+export interface TileDiffResult extends TileRect {
+  differenceCount: number
+  totalPixels: number
+  percentDiff: number
+  ssim?: number // Mean structural similarity of the tile (ssim mode)
+  regions?: DiffRegion[] // Clusters of changed pixels, relative to the tile
+  rawDifferenceCount?: number // Before noise suppression (which filters each tile on its own)
+  deltaHistogram?: number[] // Pixels of the tile by delta
+  deltaStatistics?: DeltaStatistics // How strongly the changed pixels of the tile differ
+  densityGrid?: DensityGrid // Changed pixels per grid cell of the tile
+}
+
+// Result of a tiled comparison: the full-resolution grid and the stats of every tile
+export interface TiledDiff {
+  width: number
+  height: number
+  rows: number
+  cols: number
+  tiles: TileDiffResult[]
+  overviewScale: number // Scale of the stitched overview relative to full resolution
+}
+
+/**
+ * Checks whether an image of the given size exceeds the canvas limits
+ */
+export function exceedsCanvasLimits(
+  width: number,
+  height: number,
+  maxDimension: number,
+  maxPixels: number
+): boolean {
+  return width > maxDimension || height > maxDimension || width * height > maxPixels
+}
+
+/**
+ * Returns the scale factor (at most 1) that fits an image within the canvas limits,
+ * preserving its aspect ratio
+ */
+export function getCanvasFitScale(
+  width: number,
+  height: number,
+  maxDimension: number,
+  maxPixels: number
+): number {
+  if (width <= 0 || height <= 0) return 1
+
+  const dimensionScale = maxDimension / Math.max(width, height)
+  const pixelScale = Math.sqrt(maxPixels / (width * height))
+  return Math.min(1, dimensionScale, pixelScale)
+}
+
+/**
+ * Splits an image into a row-major grid of tiles. Tiles in the last row and column
+ * are cropped to the image bounds.
+ */
+export function computeTileGrid(
+  width: number,
+  height: number,
+  tileSize: number = DEFAULT_TILE_SIZE
+): TileGrid {
+  const fullWidth = Math.ceil(width)
+  const fullHeight = Math.ceil(height)
+  const cols = Math.max(1, Math.ceil(fullWidth / tileSize))
+  const rows = Math.max(1, Math.ceil(fullHeight / tileSize))
+  const tiles: TileRect[] = []
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = col * tileSize
+      const y = row * tileSize
+      tiles.push({
+        index: tiles.length,
+        row,
+        col,
+        x,
+        y,
+        width: Math.min(tileSize, fullWidth - x),
+        height: Math.min(tileSize, fullHeight - y),
+      })
+    }
+  }
+
+  return { width: fullWidth, height: fullHeight, rows, cols, tiles }
+}
+
+/**
+ * Combines per-tile stats into stats for the whole page
+ */
+export function mergeTileStats(tiles: TileDiffResult[]): {
+  differenceCount: number
+  totalPixels: number
+  percentDiff: number
+  ssim?: number
+  regions?: DiffRegion[]
+  rawDifferenceCount?: number
+  deltaHistogram?: number[]
+  deltaStatistics?: DeltaStatistics
+  densityGrid?: DensityGrid
+} {
+  let differenceCount = 0
+  let rawDifferenceCount = 0
+  let totalPixels = 0
+  let ssimTotal = 0
+  const regions: DiffRegion[] = []
+
+  for (const tile of tiles) {
+    differenceCount += tile.differenceCount
+    rawDifferenceCount += tile.rawDifferenceCount ?? tile.differenceCount
+    totalPixels += tile.totalPixels
+    ssimTotal += (tile.ssim ?? 0) * tile.totalPixels
+    // Regions move to page coordinates (a region crossing a tile edge stays split)
+    for (const region of tile.regions ?? []) {
+      regions.push({ ...region, x: region.x + tile.x, y: region.y + tile.y })
+    }
+  }
+
+  // The page SSIM is the mean over all of its pixels
+  const hasSsim = tiles.length > 0 && tiles.every((tile) => tile.ssim !== undefined)
+
+  return {
+    differenceCount,
+    totalPixels,
+    percentDiff: totalPixels > 0 ? (differenceCount / totalPixels) * 100 : 0,
+    ssim: hasSsim && totalPixels > 0 ? ssimTotal / totalPixels : undefined,
+    regions: tiles.some((tile) => tile.regions) ? numberRegions(regions) : undefined,
+    rawDifferenceCount: tiles.some((tile) => tile.rawDifferenceCount !== undefined)
+      ? rawDifferenceCount
+      : undefined,
+    deltaHistogram: sumHistograms(tiles.map((tile) => tile.deltaHistogram)),
+    deltaStatistics: mergeDeltaStatistics(tiles.map((tile) => tile.deltaStatistics)),
+    densityGrid: mergeDensityGrids(
+      tiles,
+      Math.max(0, ...tiles.map((tile) => tile.x + tile.width)),
+      Math.max(0, ...tiles.map((tile) => tile.y + tile.height))
+    ),
+  }
+}
+
+/**
+ * Finds the next tile with differences in the given direction, wrapping around
+ * @returns Index of the tile, or null if no other tile has differences
+ */
+export function findChangedTile(
+  tiles: TileDiffResult[],
+  fromIndex: number | null,
+  direction: 1 | -1
+): number | null {
+  const count = tiles.length
+  const start = fromIndex ?? (direction === 1 ? -1 : count)
+
+  for (let step = 1; step <= count; step++) {
+    const index = (((start + step * direction) % count) + count) % count
+    if (index !== fromIndex && tiles[index].differenceCount > 0) {
+      return index
+    }
+  }
+
+  return null
+}
@@ -7,6 +7,9 @@
  * Gracefully falls back to canvas-based rendering if WebGL is unavailable.
  */
 
+import { type IgnoreRegion, MAX_IGNORE_REGIONS } from './ignoreMasks'
+import { type RgbColor, PALETTE_PRESETS } from './palettes'
+
 export interface WebGLDiffResult {
   differenceCount: number
   totalPixels: number
@@ -17,8 +20,31 @@ export interface WebGLDiffOptions {
   threshold: number
   overlayOpacity?: number
   useGrayscale?: boolean
+  ignoreRegions?: IgnoreRegion[] // Only the first MAX_IGNORE_REGIONS are applied
+  highlightColor?: RgbColor // Colour of differences (default: the classic palette's red)
 }
 
+/**
+ * Shared by both fragment shaders - tests a texture coordinate against the ignore regions
+ * (x, y, width and height as fractions, origin at the top-left like the texture)
+ */
+const IGNORE_REGIONS_GLSL = `
+  uniform vec4 u_ignoreRegions[${MAX_IGNORE_REGIONS}];
+  uniform int u_ignoreRegionCount;
+
+  bool isIgnored(vec2 point) {
+    for (int i = 0; i < ${MAX_IGNORE_REGIONS}; i++) {
+      if (i >= u_ignoreRegionCount) break;
+      vec4 region = u_ignoreRegions[i];
+      if (point.x >= region.x && point.x < region.x + region.z &&
+          point.y >= region.y && point.y < region.y + region.w) {
+        return true;
+      }
+    }
+    return false;
+  }
+`
+
 /**
  * Vertex shader - renders a quad covering the entire viewport
  */
@@ -44,7 +70,8 @@ const FRAGMENT_SHADER = `#version 300 es
   uniform float u_threshold;
   uniform float u_overlayOpacity;
   uniform bool u_useGrayscale;
-
+  uniform vec3 u_highlightColor;
+${IGNORE_REGIONS_GLSL}
   in vec2 v_texCoord;
   out vec4 fragColor;
 
@@ -57,6 +84,12 @@ const FRAGMENT_SHADER = `#version 300 es
     vec4 color1 = texture(u_texture1, v_texCoord);
     vec4 color2 = texture(u_texture2, v_texCoord);
 
+    // Ignored - faded first image, as the CPU algorithms draw it
+    if (isIgnored(v_texCoord)) {
+      fragColor = vec4(1.0 - (1.0 - color1.rgb) * 0.25, 1.0);
+      return;
+    }
+
     float diff;
 
     if (u_useGrayscale) {
@@ -72,8 +105,8 @@ const FRAGMENT_SHADER = `#version 300 es
 
     // Apply threshold
     if (diff * 255.0 > u_threshold) {
-      // Difference detected - highlight in red
-      fragColor = vec4(1.0, 0.0, 0.0, 1.0);
+      // Difference detected - highlight in the palette colour
+      fragColor = vec4(u_highlightColor, 1.0);
     } else {
       // No difference - blend original images
       fragColor = mix(color1, color2, u_overlayOpacity);
@@ -91,7 +124,7 @@ const COUNT_SHADER = `#version 300 es
   uniform sampler2D u_texture2;
   uniform float u_threshold;
   uniform bool u_useGrayscale;
-
+${IGNORE_REGIONS_GLSL}
   in vec2 v_texCoord;
   out vec4 fragColor;
 
@@ -103,6 +136,12 @@ const COUNT_SHADER = `#version 300 es
     vec4 color1 = texture(u_texture1, v_texCoord);
     vec4 color2 = texture(u_texture2, v_texCoord);
 
+    // Green marks ignored pixels, so they can be left out of the total
+    if (isIgnored(v_texCoord)) {
+      fragColor = vec4(0.0, 1.0, 0.0, 1.0);
+      return;
+    }
+
     float diff;
 
     if (u_useGrayscale) {
@@ -114,9 +153,9 @@ const COUNT_SHADER = `#version 300 es
       diff = length(diffVec) / sqrt(3.0);
     }
 
-    // Output 1.0 (white) if different, 0.0 (black) if same
+    // Output 1.0 (red) if different, 0.0 (black) if same
     float isDifferent = (diff * 255.0 > u_threshold) ? 1.0 : 0.0;
-    fragColor = vec4(isDifferent, isDifferent, isDifferent, 1.0);
+    fragColor = vec4(isDifferent, 0.0, 0.0, 1.0);
   }
 `
 
@@ -301,14 +340,18 @@ export class WebGLDiffRenderer {
     const threshold = this.gl.getUniformLocation(this.program, 'u_threshold')
     const overlayOpacity = this.gl.getUniformLocation(this.program, 'u_overlayOpacity')
     const useGrayscale = this.gl.getUniformLocation(this.program, 'u_useGrayscale')
+    const highlightColor = this.gl.getUniformLocation(this.program, 'u_highlightColor')
     const texture1Loc = this.gl.getUniformLocation(this.program, 'u_texture1')
     const texture2Loc = this.gl.getUniformLocation(this.program, 'u_texture2')
+    const highlight = options.highlightColor ?? PALETTE_PRESETS.classic.highlight
 
     this.gl.uniform1f(threshold, options.threshold)
     this.gl.uniform1f(overlayOpacity, options.overlayOpacity ?? 0.5)
     this.gl.uniform1i(useGrayscale, options.useGrayscale ? 1 : 0)
+    this.gl.uniform3f(highlightColor, highlight.r / 255, highlight.g / 255, highlight.b / 255)
     this.gl.uniform1i(texture1Loc, 0)
     this.gl.uniform1i(texture2Loc, 1)
+    this.setIgnoreRegionUniforms(this.program, options.ignoreRegions)
 
     // Set up vertex attributes
     this.setupVertexAttributes(this.program)
@@ -317,10 +360,10 @@ export class WebGLDiffRenderer {
     this.gl.viewport(0, 0, outputCanvas.width, outputCanvas.height)
     this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4)
 
-    // Count differences
-    const differenceCount = this.countDifferences(canvas1, canvas2, options)
-    const totalPixels = outputCanvas.width * outputCanvas.height
-    const percentDiff = (differenceCount / totalPixels) * 100
+    // Count differences (ignored pixels are left out of the total)
+    const { differenceCount, ignoredPixels } = this.countDifferences(canvas1, canvas2, options)
+    const totalPixels = outputCanvas.width * outputCanvas.height - ignoredPixels
+    const percentDiff = totalPixels > 0 ? (differenceCount / totalPixels) * 100 : 0
 
     return {
       differenceCount,
@@ -330,14 +373,32 @@ export class WebGLDiffRenderer {
   }
 
   /**
-   * Count number of different pixels using GPU
+   * Passes the ignore regions to a program (as many as the shader holds)
+   */
+  private setIgnoreRegionUniforms(program: WebGLProgram, regions: IgnoreRegion[] = []): void {
+    if (!this.gl) return
+
+    const applied = regions.slice(0, MAX_IGNORE_REGIONS)
+    const data = new Float32Array(MAX_IGNORE_REGIONS * 4)
+    applied.forEach((region, index) => {
+      data.set([region.x, region.y, region.width, region.height], index * 4)
+    })
+
+    const regionsLoc = this.gl.getUniformLocation(program, 'u_ignoreRegions')
+    const countLoc = this.gl.getUniformLocation(program, 'u_ignoreRegionCount')
+    this.gl.uniform4fv(regionsLoc, data)
+    this.gl.uniform1i(countLoc, applied.length)
+  }
+
+  /**
+   * Count number of different and of ignored pixels using GPU
    */
   private countDifferences(
     canvas1: HTMLCanvasElement,
     canvas2: HTMLCanvasElement,
     options: WebGLDiffOptions
-  ): number {
-    if (!this.gl || !this.countProgram) return 0
+  ): { differenceCount: number; ignoredPixels: number } {
+    if (!this.gl || !this.countProgram) return { differenceCount: 0, ignoredPixels: 0 }
 
     // Create framebuffer for counting
     const width = Math.max(canvas1.width, canvas2.width)
@@ -383,6 +444,7 @@ export class WebGLDiffRenderer {
     this.gl.uniform1i(useGrayscale, options.useGrayscale ? 1 : 0)
     this.gl.uniform1i(texture1Loc, 0)
     this.gl.uniform1i(texture2Loc, 1)
+    this.setIgnoreRegionUniforms(this.countProgram, options.ignoreRegions)
 
     // Set up vertex attributes
     this.setupVertexAttributes(this.countProgram)
@@ -396,8 +458,11 @@ export class WebGLDiffRenderer {
     this.gl.readPixels(0, 0, width, height, this.gl.RGBA, this.gl.UNSIGNED_BYTE, pixels)
 
     let count = 0
+    let ignoredPixels = 0
     for (let i = 0; i < pixels.length; i += 4) {
-      if (pixels[i] > 0) count++ // White pixel = difference
+      if (pixels[i] > 0)
+        count++ // Red pixel = difference
+      else if (pixels[i + 1] > 0) ignoredPixels++ // Green pixel = ignored
     }
 
     // Cleanup
@@ -405,7 +470,7 @@ export class WebGLDiffRenderer {
     this.gl.deleteTexture(countTex)
     this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null)
 
-    return count
+    return { differenceCount: count, ignoredPixels }
   }
 
   /**
@@ -1,18 +1,59 @@
 import { defineStore } from 'pinia'
 import type { DiffMode, DiffOptions } from '~/composables/usePdfDiff'
 import type { NormalizationStrategy } from '~/composables/usePdfNormalization'
+import {
+  type ManualPagePair,
+  type PagePair,
+  sequentialPagePairs,
+  upsertManualPair,
+} from '~/lib/pageAlignment'
+import type { TiledDiff } from '~/lib/tiling'
+import type { FormFieldChange } from '~/lib/formFieldDiff'
+import { type DiffRegion, DEFAULT_REGION_MERGE_DISTANCE } from '~/lib/diffRegions'
+import type { Registration } from '~/lib/imageRegistration'
+import { type IgnoreRegion, getIgnoreRegionsForPair } from '~/lib/ignoreMasks'
+import {
+  type SemanticBackground,
+  DEFAULT_BACKGROUND_TOLERANCE,
+  DEFAULT_SSIM_THRESHOLD,
+  DELTA_E_JUST_NOTICEABLE,
+  EDGE_THRESHOLD,
+  PAPER_WHITE,
+} from '~/lib/pdfDiffAlgorithms'
+import { type MorphologyOperation, DEFAULT_MORPHOLOGY_KERNEL_SIZE } from '~/lib/noiseSuppression'
+import type { DeltaStatistics, ThresholdMode } from '~/lib/deltaHistogram'
+import { type DensityGrid, DEFAULT_DENSITY_CELL_SIZE } from '~/lib/densityGrid'
+import {
+  type DiffPalette,
+  type PaletteName,
+  type RgbColor,
+  PALETTE_PRESETS,
+  clonePalette,
+} from '~/lib/palettes'
 
 export interface DiffStats {
   differenceCount: number
   totalPixels: number
   percentDiff: number
+  ssim?: number // Mean structural similarity, 0-1 (ssim mode only, 1 = identical)
+  regions?: DiffRegion[] // Clusters of changed pixels (single pages only, not document totals)
+  rawDifferenceCount?: number // Before noise suppression (differenceCount is after it)
+  deltaHistogram?: number[] // Pixels by delta (single pages only, see lib/deltaHistogram)
+  autoThreshold?: number // Threshold picked by the 'auto' threshold mode
+  deltaStatistics?: DeltaStatistics // How strongly the changed pixels differ (single pages only)
+  densityGrid?: DensityGrid // Changed pixels per grid cell (single pages only)
 }
 
+// 'auto' matches pages by content, 'sequential' pairs page N with page N
+export type PageAlignmentMode = 'auto' | 'sequential'
+
 export interface DimensionInfo {
   canvas1: { width: number; height: number }
   canvas2: { width: number; height: number }
   targetWidth: number
   targetHeight: number
+  tileCount?: number // Set when the page was compared tile by tile at full scale
+  registration?: Registration | null // Set by the 'auto' alignment (null when nothing matched)
 }
 
 export const useDiffStore = defineStore('diff', () => {
@@ -20,8 +61,23 @@ export const useDiffStore = defineStore('diff', () => {
   const diffOptions = ref<DiffOptions>({
     mode: 'pixel' as DiffMode,
     threshold: 10,
+    thresholdMode: 'manual',
     overlayOpacity: 0.5,
     useGrayscale: false,
+    deltaEThreshold: DELTA_E_JUST_NOTICEABLE,
+    ssimThreshold: DEFAULT_SSIM_THRESHOLD,
+    edgeThreshold: EDGE_THRESHOLD,
+    semanticBackground: 'auto',
+    semanticBackgroundColor: { ...PAPER_WHITE },
+    semanticBackgroundTolerance: DEFAULT_BACKGROUND_TOLERANCE,
+    ignoreAntialiasing: false,
+    regionMergeDistance: DEFAULT_REGION_MERGE_DISTANCE,
+    morphology: 'none',
+    morphologyKernelSize: DEFAULT_MORPHOLOGY_KERNEL_SIZE,
+    minRegionArea: 0,
+    densityCellSize: DEFAULT_DENSITY_CELL_SIZE,
+    palette: 'classic',
+    customPalette: clonePalette(PALETTE_PRESETS.classic),
   })
 
   // State - Normalization
@@ -37,6 +93,30 @@ export const useDiffStore = defineStore('diff', () => {
   const dimensionInfo = ref<DimensionInfo | null>(null)
   const isComputing = ref(false)
   const isRecomputingDiff = ref(false)
+  const showDiffRegions = ref(true) // Outline and number the change regions on the diff view
+  const showDensityGrid = ref(false) // Shade the cells of the density grid on the diff view
+
+  // State - Pages (page numbers are 1-based, pair indices 0-based)
+  const pageAlignment = ref<PageAlignmentMode>('auto')
+  const pagePairs = ref<PagePair[]>(sequentialPagePairs(1, 1))
+  const manualPairs = ref<ManualPagePair[]>([]) // Saved pairings, override automatic matching
+  const currentPairIndex = ref(0)
+  const leftPageCount = ref(1)
+  const rightPageCount = ref(1)
+  const pageStats = ref<Record<number, DiffStats>>({}) // Per-pair results, keyed by pair index
+
+  // State - Tiles (pages exceeding the canvas limits are compared tile by tile)
+  const tiledDiff = shallowRef<TiledDiff | null>(null)
+  const selectedTileIndex = ref<number | null>(null) // null shows the stitched overview
+
+  // State - Form fields (compared by name across all pages)
+  const formFieldChanges = shallowRef<FormFieldChange[]>([])
+  const isLoadingFormFields = ref(false)
+  const showFormFieldHighlights = ref(true) // Outline changed fields on the diff view
+
+  // State - Ignore regions (kept across documents, so a template's masks can be reused)
+  const ignoreRegions = ref<IgnoreRegion[]>([])
+  const isDrawingIgnoreRegion = ref(false) // Dragging on the diff view draws a new region
 
   // State - Zoom
   const sourceZoom = ref(100) // Synced zoom for both source PDFs
@@ -59,6 +139,62 @@ export const useDiffStore = defineStore('diff', () => {
     return stats.value.differenceCount > 0
   })
 
+  const pairCount = computed(() => pagePairs.value.length)
+
+  // Inserted and deleted pages are compared against a blank page
+  const currentPair = computed<PagePair>(
+    () =>
+      pagePairs.value[currentPairIndex.value] ?? {
+        leftPage: 1,
+        rightPage: 1,
+        status: 'matched',
+      }
+  )
+
+  const alignmentSummary = computed(() => ({
+    matched: pagePairs.value.filter((pair) => pair.status === 'matched').length,
+    inserted: pagePairs.value.filter((pair) => pair.status === 'inserted').length,
+    deleted: pagePairs.value.filter((pair) => pair.status === 'deleted').length,
+  }))
+
+  // Regions that apply to the pages of the current pair
+  const currentIgnoreRegions = computed(() =>
+    getIgnoreRegionsForPair(ignoreRegions.value, currentPair.value)
+  )
+
+  const scannedPairCount = computed(() => Object.keys(pageStats.value).length)
+
+  // Document-wide totals aggregated over all compared pages
+  const documentStats = computed<DiffStats | null>(() => {
+    const pages = Object.values(pageStats.value)
+    if (pages.length === 0) return null
+
+    const differenceCount = pages.reduce((sum, page) => sum + page.differenceCount, 0)
+    const totalPixels = pages.reduce((sum, page) => sum + page.totalPixels, 0)
+    const hasSsim = pages.every((page) => page.ssim !== undefined)
+    const ssimTotal = pages.reduce((sum, page) => sum + (page.ssim ?? 0) * page.totalPixels, 0)
+    const hasRawCount = pages.some((page) => page.rawDifferenceCount !== undefined)
+    const rawDifferenceCount = pages.reduce(
+      (sum, page) => sum + (page.rawDifferenceCount ?? page.differenceCount),
+      0
+    )
+
+    return {
+      differenceCount,
+      totalPixels,
+      percentDiff: totalPixels > 0 ? (differenceCount / totalPixels) * 100 : 0,
+      ssim: hasSsim && totalPixels > 0 ? ssimTotal / totalPixels : undefined,
+      rawDifferenceCount: hasRawCount ? rawDifferenceCount : undefined,
+    }
+  })
+
+  const changedPairs = computed(() =>
+    Object.entries(pageStats.value)
+      .filter(([, pair]) => pair.differenceCount > 0)
+      .map(([pairIndex]) => Number(pairIndex))
+      .sort((a, b) => a - b)
+  )
+
   // Actions - Options
   function setDiffMode(mode: DiffMode) {
     diffOptions.value.mode = mode
@@ -68,6 +204,10 @@ export const useDiffStore = defineStore('diff', () => {
     diffOptions.value.threshold = threshold
   }
 
+  function setThresholdMode(mode: ThresholdMode) {
+    diffOptions.value.thresholdMode = mode
+  }
+
   function setOverlayOpacity(opacity: number) {
     diffOptions.value.overlayOpacity = opacity
   }
@@ -76,6 +216,62 @@ export const useDiffStore = defineStore('diff', () => {
     diffOptions.value.useGrayscale = useGrayscale
   }
 
+  function setDeltaEThreshold(threshold: number) {
+    diffOptions.value.deltaEThreshold = threshold
+  }
+
+  function setSsimThreshold(threshold: number) {
+    diffOptions.value.ssimThreshold = threshold
+  }
+
+  function setEdgeThreshold(threshold: number) {
+    diffOptions.value.edgeThreshold = threshold
+  }
+
+  function setSemanticBackground(background: SemanticBackground) {
+    diffOptions.value.semanticBackground = background
+  }
+
+  function setSemanticBackgroundColor(color: RgbColor) {
+    diffOptions.value.semanticBackgroundColor = { ...color }
+  }
+
+  function setSemanticBackgroundTolerance(tolerance: number) {
+    diffOptions.value.semanticBackgroundTolerance = tolerance
+  }
+
+  function setIgnoreAntialiasing(ignore: boolean) {
+    diffOptions.value.ignoreAntialiasing = ignore
+  }
+
+  function setRegionMergeDistance(distance: number) {
+    diffOptions.value.regionMergeDistance = distance
+  }
+
+  function setMorphology(operation: MorphologyOperation) {
+    diffOptions.value.morphology = operation
+  }
+
+  function setMorphologyKernelSize(size: number) {
+    diffOptions.value.morphologyKernelSize = size
+  }
+
+  function setMinRegionArea(area: number) {
+    diffOptions.value.minRegionArea = area
+  }
+
+  function setDensityCellSize(size: number) {
+    diffOptions.value.densityCellSize = size
+  }
+
+  function setPalette(palette: PaletteName) {
+    diffOptions.value.palette = palette
+  }
+
+  function setCustomPalette(palette: DiffPalette) {
+    diffOptions.value.customPalette = clonePalette(palette)
+  }
+
   function setNormalizationStrategy(strategy: Partial<NormalizationStrategy>) {
     normalizationStrategy.value = { ...normalizationStrategy.value, ...strategy }
   }
@@ -89,10 +285,114 @@ export const useDiffStore = defineStore('diff', () => {
     dimensionInfo.value = info
   }
 
+  function setShowDiffRegions(show: boolean) {
+    showDiffRegions.value = show
+  }
+
+  function setShowDensityGrid(show: boolean) {
+    showDensityGrid.value = show
+  }
+
   function setOriginalImageData(data: Uint8ClampedArray) {
     originalImageData.value = data
   }
 
+  // Actions - Pages
+  function setCurrentPairIndex(index: number) {
+    currentPairIndex.value = Math.min(Math.max(0, Math.round(index)), pairCount.value - 1)
+  }
+
+  function setPageAlignment(mode: PageAlignmentMode) {
+    pageAlignment.value = mode
+  }
+
+  // Resets the pairs to page-by-page order until an automatic alignment is available
+  function setPageCounts(left: number, right: number) {
+    leftPageCount.value = Math.max(1, left)
+    rightPageCount.value = Math.max(1, right)
+    setPagePairs(
+      sequentialPagePairs(
+        leftPageCount.value,
+        rightPageCount.value,
+        manualPairs.value.filter(
+          (pair) => pair.leftPage <= leftPageCount.value && pair.rightPage <= rightPageCount.value
+        )
+      )
+    )
+  }
+
+  function setPagePairs(pairs: PagePair[]) {
+    pagePairs.value = pairs.length > 0 ? pairs : sequentialPagePairs(1, 1)
+    pageStats.value = {}
+    setCurrentPairIndex(currentPairIndex.value)
+  }
+
+  function addManualPair(pair: ManualPagePair) {
+    manualPairs.value = upsertManualPair(manualPairs.value, pair)
+  }
+
+  function removeManualPair(pair: ManualPagePair) {
+    manualPairs.value = manualPairs.value.filter(
+      (p) => p.leftPage !== pair.leftPage || p.rightPage !== pair.rightPage
+    )
+  }
+
+  function clearManualPairs() {
+    manualPairs.value = []
+  }
+
+  function setPageStats(pairIndex: number, newStats: DiffStats) {
+    pageStats.value = { ...pageStats.value, [pairIndex]: newStats }
+  }
+
+  function clearPageStats() {
+    pageStats.value = {}
+  }
+
+  // Actions - Tiles
+  function setTiledDiff(result: TiledDiff | null) {
+    tiledDiff.value = result
+    selectedTileIndex.value = null
+  }
+
+  function setSelectedTileIndex(index: number | null) {
+    selectedTileIndex.value = index
+  }
+
+  // Actions - Form fields
+  function setFormFieldChanges(changes: FormFieldChange[]) {
+    formFieldChanges.value = changes
+  }
+
+  function setIsLoadingFormFields(loading: boolean) {
+    isLoadingFormFields.value = loading
+  }
+
+  function setShowFormFieldHighlights(show: boolean) {
+    showFormFieldHighlights.value = show
+  }
+
+  // Actions - Ignore regions
+  function addIgnoreRegion(region: IgnoreRegion) {
+    ignoreRegions.value = [...ignoreRegions.value, region]
+  }
+
+  function removeIgnoreRegion(id: string) {
+    ignoreRegions.value = ignoreRegions.value.filter((region) => region.id !== id)
+  }
+
+  function setIgnoreRegions(regions: IgnoreRegion[]) {
+    ignoreRegions.value = regions
+  }
+
+  function clearIgnoreRegions() {
+    ignoreRegions.value = []
+  }
+
+  function setIsDrawingIgnoreRegion(drawing: boolean) {
+    isDrawingIgnoreRegion.value = drawing
+  }
+
   // Actions - Zoom
   function setSourceZoom(zoom: number) {
     sourceZoom.value = zoom
@@ -121,6 +421,16 @@ export const useDiffStore = defineStore('diff', () => {
     isComputing.value = false
     isRecomputingDiff.value = false
     originalImageData.value = null
+    pagePairs.value = sequentialPagePairs(1, 1)
+    manualPairs.value = []
+    currentPairIndex.value = 0
+    leftPageCount.value = 1
+    rightPageCount.value = 1
+    pageStats.value = {}
+    tiledDiff.value = null
+    selectedTileIndex.value = null
+    formFieldChanges.value = []
+    isLoadingFormFields.value = false
   }
 
   return {
@@ -135,6 +445,30 @@ export const useDiffStore = defineStore('diff', () => {
     isRecomputingDiff,
     originalImageData,
 
+    // State - Pages
+    pageAlignment,
+    pagePairs,
+    manualPairs,
+    currentPairIndex,
+    leftPageCount,
+    rightPageCount,
+    pageStats,
+
+    // State - Tiles
+    tiledDiff,
+    selectedTileIndex,
+
+    // State - Form fields
+    formFieldChanges,
+    isLoadingFormFields,
+    showFormFieldHighlights,
+    showDiffRegions,
+    showDensityGrid,
+
+    // State - Ignore regions
+    ignoreRegions,
+    isDrawingIgnoreRegion,
+
     // State - Zoom
     sourceZoom,
     diffZoom,
@@ -144,16 +478,59 @@ export const useDiffStore = defineStore('diff', () => {
     hasResults,
     diffPercentage,
     isDifferent,
+    pairCount,
+    currentPair,
+    alignmentSummary,
+    currentIgnoreRegions,
+    scannedPairCount,
+    documentStats,
+    changedPairs,
 
     // Actions
     setDiffMode,
     setThreshold,
+    setThresholdMode,
     setOverlayOpacity,
     setUseGrayscale,
+    setDeltaEThreshold,
+    setSsimThreshold,
+    setEdgeThreshold,
+    setSemanticBackground,
+    setSemanticBackgroundColor,
+    setSemanticBackgroundTolerance,
+    setIgnoreAntialiasing,
+    setRegionMergeDistance,
+    setMorphology,
+    setMorphologyKernelSize,
+    setMinRegionArea,
+    setDensityCellSize,
+    setPalette,
+    setCustomPalette,
     setNormalizationStrategy,
     setStats,
     setDimensionInfo,
     setOriginalImageData,
+    setCurrentPairIndex,
+    setPageAlignment,
+    setPageCounts,
+    setPagePairs,
+    addManualPair,
+    removeManualPair,
+    clearManualPairs,
+    setPageStats,
+    clearPageStats,
+    setTiledDiff,
+    setSelectedTileIndex,
+    setFormFieldChanges,
+    setIsLoadingFormFields,
+    setShowFormFieldHighlights,
+    setShowDiffRegions,
+    setShowDensityGrid,
+    addIgnoreRegion,
+    removeIgnoreRegion,
+    setIgnoreRegions,
+    clearIgnoreRegions,
+    setIsDrawingIgnoreRegion,
     setSourceZoom,
     setDiffZoom,
     setDiffRenderZoom,
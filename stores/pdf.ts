@@ -1,5 +1,6 @@
 import { defineStore } from 'pinia'
 import type { PdfMetadata } from '~/composables/usePdfMetadata'
+import type { LayerVisibility } from '~/composables/usePdfRenderer'
 
 export const usePdfStore = defineStore('pdf', () => {
   // State
@@ -8,6 +9,24 @@ export const usePdfStore = defineStore('pdf', () => {
   const leftMetadata = ref<PdfMetadata | null>(null)
   const rightMetadata = ref<PdfMetadata | null>(null)
 
+  // State - Pages shown on each side (1-based, null shows a blank page)
+  const leftPage = ref<number | null>(1)
+  const rightPage = ref<number | null>(1)
+
+  // State - Layer visibility chosen on each side (empty keeps the documents' visibility)
+  const leftLayerVisibility = ref<LayerVisibility>({})
+  const rightLayerVisibility = ref<LayerVisibility>({})
+
+  // State - Whether annotations (comments, highlights, stamps) are drawn on both sides
+  const renderAnnotations = ref(true)
+
+  // State - Extra clockwise rotation chosen on each side (0, 90, 180 or 270 degrees)
+  const leftRotation = ref(0)
+  const rightRotation = ref(0)
+
+  // State - Whether PDF 2 is turned by 90° when its page orientation differs from PDF 1
+  const autoCorrectOrientation = ref(false)
+
   // Getters (computed)
   const canCompare = computed(() => leftFile.value !== null && rightFile.value !== null)
 
@@ -20,6 +39,9 @@ export const usePdfStore = defineStore('pdf', () => {
   // Actions
   function setLeftFile(file: File | null) {
     leftFile.value = file
+    leftPage.value = 1
+    leftLayerVisibility.value = {}
+    leftRotation.value = 0
     if (!file) {
       leftMetadata.value = null
     }
@@ -27,6 +49,9 @@ export const usePdfStore = defineStore('pdf', () => {
 
   function setRightFile(file: File | null) {
     rightFile.value = file
+    rightPage.value = 1
+    rightLayerVisibility.value = {}
+    rightRotation.value = 0
     if (!file) {
       rightMetadata.value = null
     }
@@ -40,11 +65,54 @@ export const usePdfStore = defineStore('pdf', () => {
     rightMetadata.value = metadata
   }
 
+  function setLeftPage(page: number | null) {
+    leftPage.value = page
+  }
+
+  function setRightPage(page: number | null) {
+    rightPage.value = page
+  }
+
+  function setPages(left: number | null, right: number | null) {
+    leftPage.value = left
+    rightPage.value = right
+  }
+
+  function setLeftLayerVisibility(layers: LayerVisibility) {
+    leftLayerVisibility.value = layers
+  }
+
+  function setRightLayerVisibility(layers: LayerVisibility) {
+    rightLayerVisibility.value = layers
+  }
+
+  function setRenderAnnotations(enabled: boolean) {
+    renderAnnotations.value = enabled
+  }
+
+  function setLeftRotation(degrees: number) {
+    leftRotation.value = degrees
+  }
+
+  function setRightRotation(degrees: number) {
+    rightRotation.value = degrees
+  }
+
+  function setAutoCorrectOrientation(enabled: boolean) {
+    autoCorrectOrientation.value = enabled
+  }
+
   function reset() {
     leftFile.value = null
     rightFile.value = null
     leftMetadata.value = null
     rightMetadata.value = null
+    leftPage.value = 1
+    rightPage.value = 1
+    leftLayerVisibility.value = {}
+    rightLayerVisibility.value = {}
+    leftRotation.value = 0
+    rightRotation.value = 0
   }
 
   return {
@@ -53,6 +121,14 @@ export const usePdfStore = defineStore('pdf', () => {
     rightFile,
     leftMetadata,
     rightMetadata,
+    leftPage,
+    rightPage,
+    leftLayerVisibility,
+    rightLayerVisibility,
+    renderAnnotations,
+    leftRotation,
+    rightRotation,
+    autoCorrectOrientation,
 
     // Getters
     canCompare,
@@ -63,6 +139,15 @@ export const usePdfStore = defineStore('pdf', () => {
     setRightFile,
     setLeftMetadata,
     setRightMetadata,
+    setLeftPage,
+    setRightPage,
+    setPages,
+    setLeftLayerVisibility,
+    setRightLayerVisibility,
+    setRenderAnnotations,
+    setLeftRotation,
+    setRightRotation,
+    setAutoCorrectOrientation,
     reset,
   }
 })
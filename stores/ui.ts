@@ -7,7 +7,7 @@ export const useUiStore = defineStore('ui', () => {
   const advancedSettingsExpanded = ref(false)
   const exportExpanded = ref(false)
 
-  // State - Active Tab (0 = Settings, 1 = Results, 2 = Metadata)
+  // State - Active Tab (0 = Settings, 1 = Results, 2 = Metadata, 3 = Annotations, 4 = Form Fields)
   const activeTab = ref(0)
 
   // State - Feature Toggles
@@ -0,0 +1,6 @@
+/**
+ * Change and ignore masks drawn as rows of '#' (set) and '.' (unset), for the lib tests
+ */
+
+export const createMask = (rows: string[]) =>
+  Uint8Array.from(rows.join('').split(''), (cell) => (cell === '#' ? 1 : 0))
@@ -47,7 +47,7 @@ const ERROR_MESSAGES: Record<ErrorType, string> = {
   [ErrorType.PDF_LOAD_FAILED]: 'Failed to load PDF file. The file may be corrupted or invalid.',
   [ErrorType.PDF_CORRUPTED]: 'The PDF file appears to be corrupted. Please try a different file.',
   [ErrorType.PDF_PASSWORD_PROTECTED]:
-    'This PDF is password-protected. Please remove the password and try again.',
+    'This PDF is password-protected. Select it again and enter its password to open it.',
   [ErrorType.PDF_TOO_LARGE]:
     'The PDF file is too large. Please try a smaller file or reduce the page size.',
   [ErrorType.PDF_INVALID_FORMAT]:
@@ -0,0 +1,171 @@
+/**
+ * PDF Render Client - off-main-thread page rendering
+ *
+ * Sends page renders to a shared render worker, which rasterizes them with PDF.js on an
+ * OffscreenCanvas and returns ImageBitmaps. Only available where Web Workers and
+ * OffscreenCanvas are supported; callers render on the main thread otherwise.
+ *
+ * Usage:
+ *   const client = getPdfRenderClient()
+ *   if (client) {
+ *     const bitmap = await client.render(file, fileKey, { pageNumber, scale, width, height }).promise
+ *   }
+ */
+
+import type { RenderWorkerRequest, RenderWorkerResponse } from '~/workers/pdf-render.worker'
+import PdfRenderWorker from '~/workers/pdf-render.worker.ts?worker'
+import { detectOffscreenCanvas, detectWebWorkers } from '~/utils/feature-detection'
+import { logger } from '~/utils/logger'
+
+export type PageRenderParams = Pick<
+  RenderWorkerRequest,
+  'pageNumber' | 'scale' | 'width' | 'height'
+> &
+  Partial<
+    Pick<
+      RenderWorkerRequest,
+      'offsetX' | 'offsetY' | 'transparent' | 'password' | 'layers' | 'annotations' | 'rotation'
+    >
+  >
+
+// A render running in the worker, shaped like a PDF.js RenderTask
+export interface WorkerRenderTask {
+  promise: Promise<ImageBitmap>
+  cancel: () => void
+}
+
+interface PendingRender {
+  resolve: (bitmap: ImageBitmap) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Creates the error a cancelled render rejects with (named like the PDF.js one,
+ * so callers handle both the same way)
+ */
+const createCancelledError = (): Error => {
+  const error = new Error('Rendering cancelled')
+  error.name = 'RenderingCancelledException'
+  return error
+}
+
+export class PdfRenderClient {
+  private worker: Worker
+  private nextId = 0
+  private pending = new Map<number, PendingRender>()
+  private crashed = false
+
+  constructor() {
+    this.worker = new PdfRenderWorker()
+    this.worker.addEventListener('message', (e: MessageEvent<RenderWorkerResponse>) =>
+      this.handleMessage(e.data)
+    )
+    this.worker.addEventListener('error', (e: ErrorEvent) => this.handleCrash(e))
+  }
+
+  /**
+   * Whether the worker is still usable (false after it crashed)
+   */
+  get isAvailable(): boolean {
+    return !this.crashed
+  }
+
+  /**
+   * Render a page in the worker
+   * @param file - The PDF file
+   * @param fileKey - Key identifying the file, so the worker can reuse the loaded document
+   * @param params - Page, scale, output size, (for tiles) page offset and transparency,
+   *                 the password of protected documents, layer visibility, annotations and rotation
+   * @returns Task resolving to an ImageBitmap owned by the caller
+   */
+  render(file: File, fileKey: string, params: PageRenderParams): WorkerRenderTask {
+    const id = ++this.nextId
+
+    const promise = new Promise<ImageBitmap>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+    })
+
+    const request: RenderWorkerRequest = {
+      type: 'render',
+      id,
+      file,
+      fileKey,
+      offsetX: 0,
+      offsetY: 0,
+      transparent: false,
+      ...params,
+    }
+    this.worker.postMessage(request)
+
+    return {
+      promise,
+      cancel: () => {
+        if (this.pending.has(id)) {
+          this.worker.postMessage({ type: 'cancel', id })
+        }
+      },
+    }
+  }
+
+  private handleMessage(response: RenderWorkerResponse) {
+    const pending = this.pending.get(response.id)
+    if (!pending) {
+      response.bitmap?.close()
+      return
+    }
+
+    this.pending.delete(response.id)
+
+    if (response.bitmap) {
+      pending.resolve(response.bitmap)
+    } else if (response.cancelled) {
+      pending.reject(createCancelledError())
+    } else {
+      pending.reject(new Error(response.error ?? 'PDF render worker failed'))
+    }
+  }
+
+  private handleCrash(event: ErrorEvent) {
+    logger.error('PDF render worker crashed, rendering on the main thread:', event.message)
+    this.crashed = true
+
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error(event.message || 'PDF render worker crashed'))
+    }
+    this.pending.clear()
+    this.worker.terminate()
+  }
+}
+
+// Global render client singleton (null once creating the worker has failed)
+let globalRenderClient: PdfRenderClient | null = null
+let renderWorkerUnsupported = false
+
+/**
+ * Get the shared render client
+ * @returns The client, or null where rendering in a worker is unsupported
+ */
+export function getPdfRenderClient(): PdfRenderClient | null {
+  if (renderWorkerUnsupported) return null
+
+  if (!globalRenderClient) {
+    if (
+      !detectWebWorkers() ||
+      !detectOffscreenCanvas() ||
+      typeof createImageBitmap === 'undefined'
+    ) {
+      renderWorkerUnsupported = true
+      return null
+    }
+
+    try {
+      globalRenderClient = new PdfRenderClient()
+    } catch (err) {
+      logger.warn('Failed to start PDF render worker, rendering on the main thread:', err)
+      renderWorkerUnsupported = true
+      return null
+    }
+  }
+
+  return globalRenderClient.isAvailable ? globalRenderClient : null
+}
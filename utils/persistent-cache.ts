@@ -0,0 +1,263 @@
+/**
+ * Persistent Cache - IndexedDB storage that survives reloads
+ *
+ * Stores rendered pages, extracted metadata and diff results keyed by the SHA-256 hash
+ * of the file contents, so reopening the same documents skips parsing and rendering.
+ * Every kind of entry has its own size quota; the least recently used entries are
+ * evicted first. All operations are best effort: failures are logged and treated as
+ * cache misses.
+ *
+ * Usage:
+ *   const cache = getPersistentCache()
+ *   if (cache) {
+ *     const hash = await getFileHash(file)
+ *     const metadata = await cache.get<PdfMetadata>('metadata', hash)
+ *   }
+ */
+
+import { type LruEntry, getTotalSize, selectLruEvictions } from '~/lib/lruEviction'
+import { detectIndexedDB } from '~/utils/feature-detection'
+import { logger } from '~/utils/logger'
+
+const DB_NAME = 'pdf-diff-cache'
+const DB_VERSION = 1
+const VALUES_STORE = 'values'
+const ENTRIES_STORE = 'entries'
+
+export type CacheKind = 'bitmap' | 'metadata' | 'diff'
+
+// Size quota per kind of entry
+export const CACHE_QUOTAS: Record<CacheKind, number> = {
+  bitmap: 256 * 1024 * 1024, // 256MB of rendered pages (PNG)
+  metadata: 8 * 1024 * 1024, // 8MB
+  diff: 128 * 1024 * 1024, // 128MB of diff images and stats
+}
+
+// Bookkeeping record of a cached value (kept apart from the value, so eviction
+// and usage reports never load the values themselves)
+interface CacheEntryRecord extends LruEntry {
+  kind: CacheKind
+}
+
+interface CacheValueRecord {
+  key: string
+  value: unknown
+}
+
+export interface CacheUsage {
+  bytes: number
+  entries: number
+  quota: number
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Resolves once a transaction has committed
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+
+export class PersistentCache {
+  private db: Promise<IDBDatabase>
+
+  constructor() {
+    this.db = this.open()
+    this.db.catch((err) => logger.warn('Failed to open persistent cache:', err))
+  }
+
+  private open(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore(VALUES_STORE, { keyPath: 'key' })
+      db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' }).createIndex('kind', 'kind')
+    }
+    return requestToPromise(request)
+  }
+
+  /**
+   * Reads a cached value and marks it as recently used
+   * @param kind - Kind of entry
+   * @param key - Key of the entry within its kind
+   * @returns The value, or null on a miss or error
+   */
+  async get<T>(kind: CacheKind, key: string): Promise<T | null> {
+    try {
+      const id = `${kind}:${key}`
+      const db = await this.db
+      const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], 'readwrite')
+      const done = transactionDone(transaction)
+
+      const record = (await requestToPromise(transaction.objectStore(VALUES_STORE).get(id))) as
+        | CacheValueRecord
+        | undefined
+      const entries = transaction.objectStore(ENTRIES_STORE)
+      const entry = (await requestToPromise(entries.get(id))) as CacheEntryRecord | undefined
+      if (entry) {
+        entries.put({ ...entry, lastAccess: Date.now() })
+      }
+
+      await done
+      return record ? (record.value as T) : null
+    } catch (err) {
+      logger.warn('Persistent cache read failed:', err)
+      return null
+    }
+  }
+
+  /**
+   * Stores a value, then evicts the least recently used entries of its kind beyond the quota
+   * @param kind - Kind of entry
+   * @param key - Key of the entry within its kind
+   * @param value - Structured-cloneable value (Blobs are stored as-is)
+   * @param size - Approximate size of the value in bytes
+   */
+  async put(kind: CacheKind, key: string, value: unknown, size: number): Promise<void> {
+    if (size > CACHE_QUOTAS[kind]) return
+
+    try {
+      const id = `${kind}:${key}`
+      const db = await this.db
+      const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], 'readwrite')
+      const record: CacheEntryRecord = { key: id, kind, size, lastAccess: Date.now() }
+      transaction.objectStore(VALUES_STORE).put({ key: id, value } satisfies CacheValueRecord)
+      transaction.objectStore(ENTRIES_STORE).put(record)
+      await transactionDone(transaction)
+
+      await this.evict(kind)
+    } catch (err) {
+      logger.warn('Persistent cache write failed:', err)
+    }
+  }
+
+  /**
+   * Evicts the least recently used entries of a kind until it fits its quota
+   */
+  private async evict(kind: CacheKind): Promise<void> {
+    const entries = await this.getEntries(kind)
+    const evicted = selectLruEvictions(entries, CACHE_QUOTAS[kind])
+    if (evicted.length === 0) return
+
+    const db = await this.db
+    const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], 'readwrite')
+    for (const id of evicted) {
+      transaction.objectStore(VALUES_STORE).delete(id)
+      transaction.objectStore(ENTRIES_STORE).delete(id)
+    }
+    await transactionDone(transaction)
+    logger.log(`Evicted ${evicted.length} persistent ${kind} cache entries`)
+  }
+
+  private async getEntries(kind?: CacheKind): Promise<CacheEntryRecord[]> {
+    const db = await this.db
+    const store = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE)
+    const request = kind ? store.index('kind').getAll(kind) : store.getAll()
+    return (await requestToPromise(request)) as CacheEntryRecord[]
+  }
+
+  /**
+   * Gets the size and number of all cached entries
+   */
+  async getUsage(): Promise<CacheUsage> {
+    const quota = Object.values(CACHE_QUOTAS).reduce((total, bytes) => total + bytes, 0)
+    try {
+      const entries = await this.getEntries()
+      return { bytes: getTotalSize(entries), entries: entries.length, quota }
+    } catch (err) {
+      logger.warn('Failed to read persistent cache usage:', err)
+      return { bytes: 0, entries: 0, quota }
+    }
+  }
+
+  /**
+   * Removes every cached entry
+   */
+  async clear(): Promise<void> {
+    const db = await this.db
+    const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], 'readwrite')
+    transaction.objectStore(VALUES_STORE).clear()
+    transaction.objectStore(ENTRIES_STORE).clear()
+    await transactionDone(transaction)
+    logger.log('Persistent cache cleared')
+  }
+}
+
+// Global persistent cache singleton
+let globalPersistentCache: PersistentCache | null = null
+let persistentCacheUnsupported = false
+
+/**
+ * Get the shared persistent cache
+ * @returns The cache, or null where IndexedDB is unavailable
+ */
+export function getPersistentCache(): PersistentCache | null {
+  if (persistentCacheUnsupported) return null
+
+  if (!globalPersistentCache) {
+    if (!detectIndexedDB() || typeof crypto === 'undefined' || !crypto.subtle) {
+      persistentCacheUnsupported = true
+      return null
+    }
+
+    try {
+      globalPersistentCache = new PersistentCache()
+    } catch (err) {
+      logger.warn('Failed to open persistent cache:', err)
+      persistentCacheUnsupported = true
+      return null
+    }
+  }
+
+  return globalPersistentCache
+}
+
+// Content hashes by file, so each file is read and hashed once
+const fileHashes = new WeakMap<File, Promise<string>>()
+
+/**
+ * Computes the SHA-256 hash of a file's contents, as a hex string
+ * @param file - The file to hash
+ */
+export function getFileHash(file: File): Promise<string> {
+  let hash = fileHashes.get(file)
+  if (!hash) {
+    hash = file
+      .arrayBuffer()
+      .then((buffer) => crypto.subtle.digest('SHA-256', buffer))
+      .then((digest) =>
+        Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+      )
+    fileHashes.set(file, hash)
+    hash.catch(() => fileHashes.delete(file))
+  }
+  return hash
+}
+
+/**
+ * Encodes the current content of a canvas as a (lossless) PNG blob
+ * The content is captured immediately, so the canvas may be reused right after the call
+ * @param canvas - The canvas to encode
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error('Failed to encode canvas'))
+      }
+    }, 'image/png')
+  })
+}
@@ -7,6 +7,23 @@
  */
 
 import type { DiffOptions } from '../lib/pdfDiffAlgorithms'
+import type { DiffRegion } from '../lib/diffRegions'
+import { createIgnoreMask } from '../lib/ignoreMasks'
+import type { DensityGrid } from '../lib/densityGrid'
+import { type FilledDiffContext, postProcessDiff } from '../lib/diffPostProcessing'
+import {
+  type Registration,
+  REGISTRATION_SAMPLE_SIZE,
+  drawRegistrationSample,
+  placeRegisteredPage,
+  registerPages,
+} from '../lib/imageRegistration'
+import {
+  type DeltaStatistics,
+  computeDeltaHistogram,
+  resolveThreshold,
+  usesAutoThreshold,
+} from '../lib/deltaHistogram'
 import {
   pixelDiff,
   thresholdDiff,
@@ -14,6 +31,9 @@ import {
   overlayDiff,
   heatmapDiff,
   semanticDiff,
+  deltaEDiff,
+  ssimDiff,
+  edgesDiff,
 } from '../lib/pdfDiffAlgorithms'
 
 interface WorkerMessage {
@@ -24,58 +44,186 @@ interface WorkerMessage {
   height: number
 }
 
+// Placement of a page bitmap on the normalized canvas
+export interface BitmapPlacement {
+  offsetX: number
+  offsetY: number
+  width: number
+  height: number
+  scale: number
+}
+
+// Rendered pages as bitmaps, normalized in the worker (requires OffscreenCanvas)
+export interface BitmapWorkerMessage {
+  bitmap1: ImageBitmap
+  bitmap2: ImageBitmap
+  placement1: BitmapPlacement
+  placement2: BitmapPlacement
+  backgroundColor: string
+  register: boolean // 'auto' alignment: place PDF 2 by registration (placement2 if nothing matches)
+  options: DiffOptions
+  width: number
+  height: number
+}
+
 interface WorkerResponse {
   diffData: Uint8ClampedArray
   originalData: Uint8ClampedArray
   differenceCount: number
   totalPixels: number
   percentDiff: number
+  ssim?: number // Mean structural similarity (ssim mode)
+  regions: DiffRegion[] // Clusters of the changed pixels
+  rawDifferenceCount: number // Before noise suppression
+  deltaHistogram: number[] // Pixels by delta (see lib/deltaHistogram)
+  autoThreshold?: number // Threshold picked by the 'auto' threshold mode
+  deltaStatistics: DeltaStatistics // How strongly the changed pixels differ
+  densityGrid: DensityGrid // Changed pixels per grid cell
+  registration?: Registration | null // Placement of PDF 2 found by the 'auto' alignment
+}
+
+/**
+ * Draws a page bitmap at its normalized placement and reads back its pixels
+ * (the worker counterpart of normalizeCanvases)
+ */
+function normalizeBitmap(
+  bitmap: ImageBitmap,
+  placement: BitmapPlacement,
+  backgroundColor: string,
+  width: number,
+  height: number
+): Uint8ClampedArray {
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('Failed to get OffscreenCanvas context for normalization')
+  }
+
+  ctx.fillStyle = backgroundColor
+  ctx.fillRect(0, 0, width, height)
+  ctx.drawImage(bitmap, placement.offsetX, placement.offsetY, placement.width, placement.height)
+  bitmap.close()
+
+  return ctx.getImageData(0, 0, width, height).data
+}
+
+/**
+ * Estimates how the second bitmap is shifted and scaled against the first
+ * (the worker counterpart of estimateRegistration in usePdfNormalization)
+ */
+function registerBitmaps(bitmap1: ImageBitmap, bitmap2: ImageBitmap): Registration | null {
+  const canvas = new OffscreenCanvas(REGISTRATION_SAMPLE_SIZE, REGISTRATION_SAMPLE_SIZE)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('Failed to get OffscreenCanvas context for registration')
+  }
+
+  return registerPages(bitmap1, bitmap2, (bitmap, scale, offsetX, offsetY) =>
+    drawRegistrationSample(ctx, bitmap, scale, offsetX, offsetY)
+  )
 }
 
 /**
  * Main message handler
  */
-self.onmessage = function (e: MessageEvent<WorkerMessage>) {
-  const { imageData1, imageData2, options, width, height } = e.data
+self.onmessage = function (e: MessageEvent<WorkerMessage | BitmapWorkerMessage>) {
+  const { options: requestedOptions, width, height } = e.data
+
+  let imageData1: Uint8ClampedArray
+  let imageData2: Uint8ClampedArray
+  let registration: Registration | null | undefined
+  if ('bitmap1' in e.data) {
+    const { bitmap1, bitmap2, placement1, backgroundColor, register } = e.data
+    let { placement2 } = e.data
+    if (register) {
+      registration = registerBitmaps(bitmap1, bitmap2)
+      if (registration) placement2 = placeRegisteredPage(placement1, bitmap2, registration)
+    }
+    imageData1 = normalizeBitmap(bitmap1, placement1, backgroundColor, width, height)
+    imageData2 = normalizeBitmap(bitmap2, placement2, backgroundColor, width, height)
+  } else {
+    imageData1 = e.data.imageData1
+    imageData2 = e.data.imageData2
+  }
 
   // Create output arrays
   const diffData = new Uint8ClampedArray(width * height * 4)
   const originalData = new Uint8ClampedArray(width * height * 4)
+  const changeMask = new Uint8Array(width * height)
+  const ignored = createIgnoreMask(requestedOptions.ignoreRegions, width, height)
+  const ignoreMask = ignored?.mask
+
+  // Delta histogram of the page, from which the 'auto' threshold is picked in the modes with one
+  const deltaHistogram = computeDeltaHistogram(
+    imageData1,
+    imageData2,
+    requestedOptions.mode === 'grayscale',
+    ignoreMask
+  )
+  const options = {
+    ...requestedOptions,
+    threshold: resolveThreshold(requestedOptions, deltaHistogram),
+  }
 
   // Perform diff based on mode
+  const context: FilledDiffContext = { width, originalData, changeMask, ignoreMask }
   let differenceCount = 0
+  let ssim: number | undefined
 
   switch (options.mode) {
     case 'pixel':
-      differenceCount = pixelDiff(imageData1, imageData2, diffData, options, originalData)
+      differenceCount = pixelDiff(imageData1, imageData2, diffData, options, context)
       break
     case 'threshold':
-      differenceCount = thresholdDiff(imageData1, imageData2, diffData, options, originalData)
+      differenceCount = thresholdDiff(imageData1, imageData2, diffData, options, context)
       break
     case 'grayscale':
-      differenceCount = grayscaleDiff(imageData1, imageData2, diffData, options, originalData)
+      differenceCount = grayscaleDiff(imageData1, imageData2, diffData, options, context)
       break
     case 'overlay':
-      differenceCount = overlayDiff(imageData1, imageData2, diffData, options, originalData)
+      differenceCount = overlayDiff(imageData1, imageData2, diffData, options, context)
       break
     case 'heatmap':
-      differenceCount = heatmapDiff(imageData1, imageData2, diffData, options, originalData)
+      differenceCount = heatmapDiff(imageData1, imageData2, diffData, options, context)
       break
     case 'semantic':
-      differenceCount = semanticDiff(imageData1, imageData2, diffData, options, originalData)
+      differenceCount = semanticDiff(imageData1, imageData2, diffData, options, context)
+      break
+    case 'deltaE':
+      differenceCount = deltaEDiff(imageData1, imageData2, diffData, options, context)
+      break
+    case 'ssim': {
+      const result = ssimDiff(imageData1, imageData2, diffData, options, context)
+      differenceCount = result.differenceCount
+      ssim = result.ssim
+      break
+    }
+    case 'edges':
+      differenceCount = edgesDiff(imageData1, imageData2, diffData, options, context)
       break
   }
 
-  const totalPixels = width * height
-  const percentDiff = (differenceCount / totalPixels) * 100
+  // Noise suppression and the stats of what is left, as in the main-thread fallback
+  const summary = postProcessDiff(
+    imageData1,
+    imageData2,
+    diffData,
+    differenceCount,
+    height,
+    options,
+    context,
+    ignored?.ignoredPixels
+  )
 
   // Send result back to main thread (transfer both buffers for zero-copy)
   const response: WorkerResponse = {
     diffData,
     originalData,
-    differenceCount,
-    totalPixels,
-    percentDiff,
+    ...summary,
+    ssim,
+    deltaHistogram,
+    autoThreshold: usesAutoThreshold(options) ? options.threshold : undefined,
+    registration,
   }
 
   self.postMessage(response, [diffData.buffer, originalData.buffer])
@@ -0,0 +1,240 @@
+/**
+ * Web Worker for PDF Page Rendering
+ * Rasterizes PDF pages with PDF.js onto an OffscreenCanvas so heavy pages never block
+ * the main thread, and returns each render as a transferable ImageBitmap
+ */
+
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { loadPdfJs } from '../utils/pdfjs-loader'
+
+// Maximum number of PDFs kept open in the worker (LRU eviction)
+const MAX_CACHE_SIZE = 10
+
+export interface RenderWorkerRequest {
+  type: 'render'
+  id: number
+  file: File
+  fileKey: string
+  pageNumber: number
+  scale: number
+  width: number // Output size in pixels
+  height: number
+  offsetX: number // Position of the page within the output (tiles render a page region)
+  offsetY: number
+  transparent: boolean // Keep the background transparent instead of filling it white
+  password?: string // Password of a protected document (unlocked on the main thread)
+  layers?: Record<string, boolean> // Layer visibility overrides, by optional content group id
+  annotations?: boolean // Draw annotations (default: true)
+  rotation?: number // Clockwise degrees added to the page's own rotation (default: 0)
+}
+
+interface RenderWorkerCancel {
+  type: 'cancel'
+  id: number
+}
+
+export type RenderWorkerMessage = RenderWorkerRequest | RenderWorkerCancel
+
+export interface RenderWorkerResponse {
+  id: number
+  bitmap?: ImageBitmap
+  cancelled?: boolean
+  error?: string
+}
+
+interface OffscreenCanvasAndContext {
+  canvas: OffscreenCanvas | null
+  context: OffscreenCanvasRenderingContext2D | null
+}
+
+/**
+ * Canvas factory for PDF.js scratch canvases (patterns, masks); the default factory
+ * creates DOM canvases, which do not exist in a worker
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number): OffscreenCanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height)
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) }
+  }
+
+  reset(canvasAndContext: OffscreenCanvasAndContext, width: number, height: number) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = width
+      canvasAndContext.canvas.height = height
+    }
+  }
+
+  destroy(canvasAndContext: OffscreenCanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0
+      canvasAndContext.canvas.height = 0
+    }
+    canvasAndContext.canvas = null
+    canvasAndContext.context = null
+  }
+}
+
+/**
+ * Filter factory without SVG filters (transfer functions, high-contrast mode), which
+ * need a DOM; PDF.js renders without them, as it does in Node.js
+ */
+class NoopFilterFactory {
+  addFilter() {
+    return 'none'
+  }
+
+  addHCMFilter() {
+    return 'none'
+  }
+
+  addAlphaFilter() {
+    return 'none'
+  }
+
+  addLuminosityFilter() {
+    return 'none'
+  }
+
+  addHighlightHCMFilter() {
+    return 'none'
+  }
+
+  destroy() {}
+}
+
+// Open documents by file key (Map insertion order doubles as LRU order)
+const documents = new Map<string, Promise<PDFDocumentProxy>>()
+// Running renders by request id, for cancellation
+const renderTasks = new Map<number, RenderTask>()
+// Requests cancelled before their render started
+const cancelledIds = new Set<number>()
+
+/**
+ * Loads a PDF document, reusing it across renders
+ */
+const loadDocument = (
+  file: File,
+  fileKey: string,
+  password?: string
+): Promise<PDFDocumentProxy> => {
+  const cached = documents.get(fileKey)
+  if (cached) {
+    documents.delete(fileKey)
+    documents.set(fileKey, cached)
+    return cached
+  }
+
+  const loading = (async () => {
+    const pdfjsLib = await loadPdfJs()
+    const data = await file.arrayBuffer()
+    // Glyphs are drawn as paths: font loading via FontFace needs a document
+    return pdfjsLib.getDocument({
+      data,
+      password,
+      disableFontFace: true,
+      CanvasFactory: OffscreenCanvasFactory,
+      FilterFactory: NoopFilterFactory,
+    }).promise
+  })()
+
+  documents.set(fileKey, loading)
+  loading.catch(() => {
+    if (documents.get(fileKey) === loading) {
+      documents.delete(fileKey)
+    }
+  })
+
+  // Evict the least recently used document
+  if (documents.size > MAX_CACHE_SIZE) {
+    const [lruKey, lruDocument] = documents.entries().next().value as [
+      string,
+      Promise<PDFDocumentProxy>,
+    ]
+    documents.delete(lruKey)
+    lruDocument.then((pdf) => pdf.destroy()).catch(() => {})
+  }
+
+  return loading
+}
+
+/**
+ * Renders a page onto an OffscreenCanvas and returns it as an ImageBitmap
+ */
+const renderPage = async (request: RenderWorkerRequest): Promise<ImageBitmap | null> => {
+  const pdf = await loadDocument(request.file, request.fileKey, request.password)
+  const page = await pdf.getPage(request.pageNumber)
+  if (cancelledIds.has(request.id)) return null
+
+  const canvas = new OffscreenCanvas(request.width, request.height)
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Failed to get OffscreenCanvas 2d context')
+  }
+
+  // Layers keep the document's visibility unless overridden
+  let optionalContentConfigPromise:
+    | ReturnType<PDFDocumentProxy['getOptionalContentConfig']>
+    | undefined
+  if (request.layers && Object.keys(request.layers).length > 0) {
+    const config = await pdf.getOptionalContentConfig()
+    for (const [id, visible] of Object.entries(request.layers)) {
+      config.setVisibility(id, visible)
+    }
+    optionalContentConfigPromise = Promise.resolve(config)
+  }
+
+  const { AnnotationMode } = await loadPdfJs()
+
+  const task = page.render({
+    canvasContext: context as unknown as CanvasRenderingContext2D,
+    viewport: page.getViewport({
+      scale: request.scale,
+      offsetX: request.offsetX,
+      offsetY: request.offsetY,
+      rotation: (page.rotate + (request.rotation ?? 0)) % 360,
+    }),
+    background: request.transparent ? 'rgba(0, 0, 0, 0)' : undefined,
+    optionalContentConfigPromise,
+    annotationMode: request.annotations === false ? AnnotationMode.DISABLE : AnnotationMode.ENABLE,
+  })
+
+  renderTasks.set(request.id, task)
+  try {
+    await task.promise
+  } finally {
+    renderTasks.delete(request.id)
+  }
+
+  return canvas.transferToImageBitmap()
+}
+
+/**
+ * Main message handler
+ */
+self.onmessage = async function (e: MessageEvent<RenderWorkerMessage>) {
+  const message = e.data
+
+  if (message.type === 'cancel') {
+    cancelledIds.add(message.id)
+    renderTasks.get(message.id)?.cancel()
+    return
+  }
+
+  let response: RenderWorkerResponse
+  try {
+    const bitmap = await renderPage(message)
+    response = bitmap ? { id: message.id, bitmap } : { id: message.id, cancelled: true }
+  } catch (err) {
+    const cancelled =
+      cancelledIds.has(message.id) ||
+      (err instanceof Error && err.name === 'RenderingCancelledException')
+    response = cancelled
+      ? { id: message.id, cancelled: true }
+      : { id: message.id, error: err instanceof Error ? err.message : String(err) }
+  } finally {
+    cancelledIds.delete(message.id)
+  }
+
+  // Transfer the bitmap for zero-copy
+  self.postMessage(response, response.bitmap ? [response.bitmap] : [])
+}